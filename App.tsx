@@ -1,69 +1,638 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Camera, UserCheck, RefreshCw, Trash2, ShieldCheck, AlertCircle, Info, Clock, CheckCircle2, ListFilter, History, UserMinus, X } from 'lucide-react';
-import { UserFaceProfile, AppState, RecognitionResult, AttendanceRecord } from './types';
-import { loadModels, getFaceDescriptor, calculateDistance } from './services/faceApi';
-
-// Helper to inject the face-api.js script
-const loadFaceApiScript = (): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    if ((window as any).faceapi) return resolve();
-    const script = document.createElement('script');
-    script.src = 'https://cdn.jsdelivr.net/npm/face-api.js@0.22.2/dist/face-api.min.js';
-    script.async = true;
-    script.onload = () => resolve();
-    script.onerror = () => reject(new Error('Failed to load face-api.js script'));
-    document.head.appendChild(script);
-  });
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Camera, UserCheck, RefreshCw, Trash2, ShieldCheck, AlertCircle, Info, Clock, CheckCircle2, ListFilter, History, X, LogIn, LogOut, Coffee, ShieldAlert, Lock, KeyRound, Settings, SlidersHorizontal, BarChart3, Upload, FilePenLine } from 'lucide-react';
+import { UserFaceProfile, AppState, FaceSample, RecognitionResult, AttendanceRecord, AttendanceEventMode, AttendanceEventType, EnrollmentProgress, LivenessChallenge, LivenessFailure, RecognitionSettings, FaceBox, RecognitionAttempt, AttendanceAuditEntry, TimekeepingSettings, ShiftSchedule, SyncSettings, SyncStatus, WebhookSubscription, WebhookDelivery, Site } from './types';
+import { loadModels, detectFaceSample, syncRegistry, getScanStats, ScanStats } from './services/faceApi';
+import { ENROLLMENT_STEPS, assessSample, robustMeanDescriptor } from './services/faceQuality';
+import { findBestMatch, getRegistryIndex, MatchResult, DEFAULT_RECOGNITION_SETTINGS, RECOGNITION_SETTINGS_KEY } from './services/matching';
+import { pickChallenge, runLivenessChallenge, LIVENESS_INSTRUCTIONS } from './services/liveness';
+import { openRepositories, AttendanceQuery } from './services/storage';
+import { lockVault, verifyPassphrase, InvalidPassphraseError } from './services/vault';
+import { attendanceToCsv, attendanceToJson, downloadFile } from './services/attendanceExport';
+import { createRegistryBackup, readRegistryBackup, planRestore, RestoreMode } from './services/registryBackup';
+import { ADMIN_PIN_SETTING, ADMIN_IDLE_TIMEOUT_MS, AdminPinCredential, createPinCredential, verifyPin } from './services/adminAuth';
+import { resolveNextEvent, buildWorkSessions, formatDuration, getEventType, EVENT_LABELS } from './services/attendance';
+import {
+  TIMEKEEPING_SETTINGS_KEY, DEFAULT_TIMEKEEPING_SETTINGS, businessDate, businessDayRange, calendarDate,
+  addDays, formatTime, formatBusinessDate
+} from './services/timekeeping';
+import { SHIFTS_SETTING, classifyEvent, findAbsences } from './services/shifts';
+import { SYNC_SETTINGS_KEY, SYNC_INTERVAL_MS, createSyncSettings, syncNow, getOutboxCounts } from './services/sync';
+import { emit, subscribeAll, ATTENDANCE_EVENTS } from './services/events';
+import { WEBHOOKS_SETTING, WEBHOOK_PUMP_INTERVAL_MS, queueDeliveries, deliverDue, retryDelivery } from './services/webhooks';
+import { isActiveProfile, profileLabel, normalizeStaffId, findStaffIdConflict, captureThumbnail } from './services/profiles';
+import { recognizeFaces, collectSamples, RecognizedFace, MAX_MEDIA_SAMPLES } from './services/recognitionPipeline';
+import { MEDIA_ACCEPT, mediaFrames } from './services/mediaInput';
+import { AttendanceChange, PIN_AUTHOR, createManualRecord, editRecord, deleteRecord, isManual } from './services/corrections';
+import {
+  KIOSK_SETTING, KIOSK_WATCHDOG_MS, MAX_SCAN_FAILURES, MOTION_THRESHOLD, DEFAULT_KIOSK_SETTINGS, KioskSettings,
+  openCamera, describeCameraError, isStreamHealthy, restartDelay, enterFullscreen, exitFullscreen, holdWakeLock, createMotionDetector
+} from './services/kiosk';
+import { feedbackFor, playFeedback } from './services/feedback';
+import { Guidance, GUIDANCE_INTERVAL_MS, AUTO_CAPTURE_STREAK, assessFrame, mostProminent, measureBrightness } from './services/captureGuidance';
+import {
+  CONSENT_NOTICE, CONSENT_VERSION, RETENTION_SETTING, RETENTION_LOG_SETTING, ERASURE_LOG_SETTING, RETENTION_INTERVAL_MS, ERASED_NAME,
+  DEFAULT_RETENTION_SETTINGS, RetentionSettings, RetentionRun, ErasureLogEntry,
+  createConsent, hasCurrentConsent, trackDeactivation, applyRetention, exportPersonalData, eraseDataSubject
+} from './services/privacy';
+import {
+  DEVICE_SETTING, DEFAULT_DEVICE_SETTINGS, DeviceSettings, isDeviceConfigured, isAllowedAtSite,
+  recordOrigin, knownSites, siteName, upsertSite, siteTimekeeping, siteRecognitionSettings
+} from './services/sites';
+import { DUPLICATE_DISMISSALS_SETTING, DuplicateCandidate, findDuplicateCandidates, pairKey } from './services/duplicates';
+import {
+  ATTEMPT_LOG_SETTING, ATTEMPT_LOG_SIZE, ATTEMPT_REPEAT_WINDOW_MS, AttemptLogSettings, DEFAULT_ATTEMPT_LOG_SETTINGS,
+  createAttempt, loggedRecently, attachTemplate, isNearMiss
+} from './services/recognitionAttempts';
+import WorkSessions from './components/WorkSessions';
+import LivenessAlerts from './components/LivenessAlerts';
+import VaultUnlock from './components/VaultUnlock';
+import PassphraseRotation from './components/PassphraseRotation';
+import RegistryPanel from './components/RegistryPanel';
+import AdminLogin from './components/AdminLogin';
+import ConnectivityBadge from './components/ConnectivityBadge';
+import DataTransferPanel, { AttendanceExportFilter } from './components/DataTransferPanel';
+import CalibrationPanel from './components/CalibrationPanel';
+import FaceBoxOverlay from './components/FaceBoxOverlay';
+import LiveFaceOverlay from './components/LiveFaceOverlay';
+import TimekeepingPanel from './components/TimekeepingPanel';
+import ShiftsPanel from './components/ShiftsPanel';
+import AbsenceList from './components/AbsenceList';
+import PunctualityBadge from './components/PunctualityBadge';
+import ReportsView from './components/ReportsView';
+import SyncPanel from './components/SyncPanel';
+import WebhooksPanel from './components/WebhooksPanel';
+import ProfileDetail from './components/ProfileDetail';
+import DuplicateAudit from './components/DuplicateAudit';
+import AttemptReview from './components/AttemptReview';
+import MediaTestPanel from './components/MediaTestPanel';
+import AttendanceCorrection, { CorrectionTarget, CorrectionDraft } from './components/AttendanceCorrection';
+import CorrectionLog from './components/CorrectionLog';
+import KioskPanel from './components/KioskPanel';
+import AttractScreen from './components/AttractScreen';
+import PrivacyPanel from './components/PrivacyPanel';
+import DeviceSetupPanel from './components/DeviceSetupPanel';
+
+const EVENT_MODES: { mode: AttendanceEventMode; label: string }[] = [
+  { mode: 'AUTO', label: 'Auto' },
+  { mode: 'IN', label: 'In' },
+  { mode: 'OUT', label: 'Out' },
+  { mode: 'BREAK_START', label: 'Break' },
+  { mode: 'BREAK_END', label: 'Resume' }
+];
+
+const EVENT_BADGES: Record<AttendanceEventType, string> = {
+  IN: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-500',
+  OUT: 'bg-blue-500/10 border-blue-500/20 text-blue-400',
+  BREAK_START: 'bg-amber-500/10 border-amber-500/20 text-amber-500',
+  BREAK_END: 'bg-amber-500/10 border-amber-500/20 text-amber-400'
 };
 
+// How long each guided enrollment pose may take before giving up
+const ENROLL_STEP_TIMEOUT_MS = 10000;
+const ENROLL_RETRY_DELAY_MS = 300;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// How long face sign-in to admin mode keeps looking for an admin
+const FACE_LOGIN_TIMEOUT_MS = 10000;
+
+// At most one unknown_face event per this interval, since an unknown face is seen on every scan
+const UNKNOWN_FACE_EVENT_COOLDOWN_MS = 30000;
+const DELIVERY_LOG_PAGE = 50;
+const ATTEMPT_REVIEW_PAGE = 100;
+const CORRECTION_LOG_PAGE = 100;
+
+// Idle kiosk checks for motion this often, and runs the face detector on every Nth check
+const IDLE_CHECK_MS = 500;
+const IDLE_FACE_CHECK_EVERY = 4;
+
+const LOG_PAGE_SIZE = 50;
+// Sessions panel covers this many days back, independent of the log table filter
+const SESSION_WINDOW_DAYS = 7;
+
+interface LogFilter {
+  profileId: string;
+  siteId: string; // Empty for every site
+  from: string; // YYYY-MM-DD from the date input, empty for open-ended
+  to: string;
+}
+
+// Date filters select whole business days in site time
+const toLogQuery = (filter: LogFilter, timekeeping: TimekeepingSettings): AttendanceQuery => ({
+  profileId: filter.profileId || undefined,
+  siteId: filter.siteId || undefined,
+  from: filter.from ? businessDayRange(filter.from, filter.from, timekeeping).start : undefined,
+  to: filter.to ? businessDayRange(filter.to, filter.to, timekeeping).end : undefined
+});
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.LOADING_MODELS);
   const [profiles, setProfiles] = useState<UserFaceProfile[]>([]);
   const [attendanceLogs, setAttendanceLogs] = useState<AttendanceRecord[]>([]);
-  const [currentResult, setCurrentResult] = useState<RecognitionResult | null>(null);
+  const [logTotal, setLogTotal] = useState(0);
+  const [logLimit, setLogLimit] = useState(LOG_PAGE_SIZE);
+  const [logFilter, setLogFilter] = useState<LogFilter>({ profileId: '', siteId: '', from: '', to: '' });
+  // Bumped after every write so the log queries re-run
+  const [logsVersion, setLogsVersion] = useState(0);
+  const [recentLogs, setRecentLogs] = useState<AttendanceRecord[]>([]);
+  const [correctionTarget, setCorrectionTarget] = useState<CorrectionTarget | null>(null);
+  const [auditEntries, setAuditEntries] = useState<AttendanceAuditEntry[]>([]);
+  // Who signed in to admin mode, recorded as the author of corrections
+  const [adminAuthor, setAdminAuthor] = useState(PIN_AUTHOR);
+  const [livenessFailures, setLivenessFailures] = useState<LivenessFailure[]>([]);
+  const [activeChallenge, setActiveChallenge] = useState<{ challenge: LivenessChallenge; name: string } | null>(null);
+  const [currentResults, setCurrentResults] = useState<RecognitionResult[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [enrollName, setEnrollName] = useState("");
+  const [enrollStaffId, setEnrollStaffId] = useState("");
+  // Profile whose face is being captured again; enrollment then keeps its id and history
+  const [reenrollTarget, setReenrollTarget] = useState<UserFaceProfile | null>(null);
+  // The employee has agreed to the current consent notice; asked again for every capture
+  const [enrollConsent, setEnrollConsent] = useState(false);
+  // The details were confirmed and are locked; only then may a steady face start the capture
+  const [enrollArmed, setEnrollArmed] = useState(false);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  // Captured profile held back because the face matches someone already enrolled
+  const [pendingEnrollment, setPendingEnrollment] = useState<{ profile: UserFaceProfile; candidates: DuplicateCandidate[] } | null>(null);
+  const [duplicateDismissals, setDuplicateDismissals] = useState<string[]>([]);
+  const [recognitionAttempts, setRecognitionAttempts] = useState<RecognitionAttempt[]>([]);
+  const [attemptLogSettings, setAttemptLogSettings] = useState<AttemptLogSettings>(DEFAULT_ATTEMPT_LOG_SETTINGS);
+  const [eventMode, setEventMode] = useState<AttendanceEventMode>('AUTO');
+  const [groupMode, setGroupMode] = useState(false);
+  const [scanStats, setScanStats] = useState<ScanStats | null>(null);
+  const [enrollProgress, setEnrollProgress] = useState<EnrollmentProgress | null>(null);
+  // Latest detection for the viewfinder overlay
+  const [liveFaces, setLiveFaces] = useState<FaceSample[]>([]);
+  const [guidance, setGuidance] = useState<Guidance | null>(null);
+  const [vaultError, setVaultError] = useState<string | null>(null);
+  const [showRotation, setShowRotation] = useState(false);
+  const [hasAdminPin, setHasAdminPin] = useState(false);
+  const [faceLoginActive, setFaceLoginActive] = useState(false);
+  const [faceLoginStatus, setFaceLoginStatus] = useState<string | null>(null);
+  // This device's own settings; its site's timezone and threshold take precedence, see below
+  const [deviceRecognitionSettings, setDeviceRecognitionSettings] = useState<RecognitionSettings>(DEFAULT_RECOGNITION_SETTINGS);
+  const [deviceTimekeeping, setDeviceTimekeeping] = useState<TimekeepingSettings>(DEFAULT_TIMEKEEPING_SETTINGS);
+  const [shifts, setShifts] = useState<ShiftSchedule[]>([]);
+  // Null while the vault is locked; sync only runs with the vault open
+  const [syncSettings, setSyncSettings] = useState<SyncSettings | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ pending: 0, rejected: 0, syncing: false });
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [webhookDeliveries, setWebhookDeliveries] = useState<WebhookDelivery[]>([]);
+  const [kiosk, setKiosk] = useState<KioskSettings>(DEFAULT_KIOSK_SETTINGS);
+  const [retention, setRetention] = useState<RetentionSettings>(DEFAULT_RETENTION_SETTINGS);
+  const [retentionRun, setRetentionRun] = useState<RetentionRun | null>(null);
+  const [erasures, setErasures] = useState<ErasureLogEntry[]>([]);
+  const [device, setDevice] = useState<DeviceSettings>(DEFAULT_DEVICE_SETTINGS);
+  const [savedSites, setSavedSites] = useState<Site[]>([]);
+  // Site settings are resolved on every read, so edits made at another device apply here once synced
+  const currentSite = savedSites.find(site => site.id === device.siteId);
+  const recognitionSettings = useMemo(() => siteRecognitionSettings(deviceRecognitionSettings, currentSite), [deviceRecognitionSettings, currentSite]);
+  const timekeeping = useMemo(() => siteTimekeeping(deviceTimekeeping, currentSite), [deviceTimekeeping, currentSite]);
+  // Kiosk attract screen; the camera stays on but the face scan loop is paused
+  const [idle, setIdle] = useState(false);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const scanIntervalRef = useRef<number | null>(null);
+  // The scan loop runs from a stale closure, so it reads these instead of state
+  const eventModeRef = useRef<AttendanceEventMode>('AUTO');
+  const groupModeRef = useRef(false);
+  const recognitionSettingsRef = useRef<RecognitionSettings>(DEFAULT_RECOGNITION_SETTINGS);
+  const timekeepingRef = useRef<TimekeepingSettings>(DEFAULT_TIMEKEEPING_SETTINGS);
+  const shiftsRef = useRef<ShiftSchedule[]>([]);
+  const syncSettingsRef = useRef<SyncSettings | null>(null);
+  const webhooksRef = useRef<WebhookSubscription[]>([]);
+  const lastUnknownFaceEventRef = useRef(0);
+  const attemptLogSettingsRef = useRef<AttemptLogSettings>(DEFAULT_ATTEMPT_LOG_SETTINGS);
+  // Faces logged within the repeat window, so a person waiting at the kiosk is logged once
+  const recentAttemptsRef = useRef<{ descriptor: number[]; timestamp: number }[]>([]);
+  // Set by stopCamera so enrollment and face sign-in loops bail out
+  const captureCancelledRef = useRef(false);
+  const kioskRef = useRef<KioskSettings>(DEFAULT_KIOSK_SETTINGS);
+  const deviceRef = useRef<DeviceSettings>(DEFAULT_DEVICE_SETTINGS);
+  const sitesRef = useRef<Site[]>([]);
+  // The registry the worker holds, and whether a scan is still running
+  const activeProfilesRef = useRef<UserFaceProfile[]>([]);
+  const scanningRef = useRef(false);
+  // Face box from the previous guidance check, to tell whether the person is holding still
+  const lastFaceBoxRef = useRef<FaceBox | null>(null);
+  // Kiosk watchdog inputs: consecutive scan errors and the last time anyone was in view
+  const scanFailuresRef = useRef(0);
+  const lastPresenceRef = useRef(Date.now());
+  const cameraRestartsRef = useRef(0);
+  const nextRestartAtRef = useRef(0);
+
+  useEffect(() => { eventModeRef.current = eventMode; }, [eventMode]);
+  useEffect(() => { groupModeRef.current = groupMode; }, [groupMode]);
+  useEffect(() => { recognitionSettingsRef.current = recognitionSettings; }, [recognitionSettings]);
+  useEffect(() => { timekeepingRef.current = timekeeping; }, [timekeeping]);
+  useEffect(() => { shiftsRef.current = shifts; }, [shifts]);
+  useEffect(() => { syncSettingsRef.current = syncSettings; }, [syncSettings]);
+  useEffect(() => { webhooksRef.current = webhooks; }, [webhooks]);
+  useEffect(() => { attemptLogSettingsRef.current = attemptLogSettings; }, [attemptLogSettings]);
+  useEffect(() => { kioskRef.current = kiosk; }, [kiosk]);
+  useEffect(() => { deviceRef.current = device; }, [device]);
+  useEffect(() => { sitesRef.current = savedSites; }, [savedSites]);
+
+  // Inactive staff stay in the registry for history but are never recognised
+  const activeProfiles = profiles.filter(isActiveProfile);
+  const selectedProfile = profiles.find(p => p.id === selectedProfileId);
+  const sites = knownSites(savedSites, profiles);
+
+  // The worker matches against its own copy of the registry; the scan loop classifies against the same one
+  useEffect(() => {
+    activeProfilesRef.current = activeProfiles;
+    syncRegistry(getRegistryIndex(activeProfiles).index).catch(err => console.error("Registry sync failed", err));
+  }, [profiles]);
+
+  const today = businessDate(Date.now(), timekeeping);
+  const sessions = buildWorkSessions(recentLogs, new Date(), timekeeping);
+  // Table rows may reach further back than the sessions window
+  const tableLogs = [...new Map([...recentLogs, ...attendanceLogs].map(log => [log.id, log])).values()];
+  const tableSessions = buildWorkSessions(tableLogs, new Date(), timekeeping);
+  const sessionsByOutLog = new Map(tableSessions.filter(s => s.outLogId).map(s => [s.outLogId!, s]));
+  // Records from before profile ids were stored fall back to the name
+  const profileOf = (record: AttendanceRecord) => record.profileId
+    ? profiles.find(p => p.id === record.profileId)
+    : profiles.find(p => p.name === record.name);
+  const shiftFor = (record: AttendanceRecord) => shifts.find(s => s.id === profileOf(record)?.shiftId);
+  const absences = findAbsences(profiles, shifts, recentLogs, today, timekeeping);
 
   // Initialize
   useEffect(() => {
     const init = async () => {
       try {
-        await loadFaceApiScript();
         await loadModels();
-        const savedProfiles = JSON.parse(localStorage.getItem('face_profiles') || '[]');
-        const savedLogs = JSON.parse(localStorage.getItem('attendance_logs') || '[]');
-        setProfiles(savedProfiles);
-        setAttendanceLogs(savedLogs);
-        setAppState(AppState.READY);
+        const repos = await openRepositories();
+        const vaultMeta = await repos.vault.getMeta();
+        setAppState(vaultMeta ? AppState.LOCKED : AppState.VAULT_SETUP);
       } catch (err) {
-        setErrorMessage("Model initialization failed. Please check internet connection.");
+        setErrorMessage("Model initialization failed. Please reload the kiosk.");
         setAppState(AppState.ERROR);
       }
     };
     init();
   }, []);
 
+  // Profiles can only be read once the vault key is in memory
+  const loadVaultData = async () => {
+    const repos = await openRepositories();
+    const savedProfiles = await repos.profiles.getAll();
+    const savedFailures = await repos.livenessFailures.getAll();
+    setProfiles(savedProfiles.sort((a, b) => a.capturedAt - b.capturedAt));
+    setLivenessFailures(savedFailures.sort((a, b) => b.timestamp - a.timestamp));
+    setHasAdminPin(!!(await repos.settings.get<AdminPinCredential>(ADMIN_PIN_SETTING)));
+    setDeviceRecognitionSettings({
+      ...DEFAULT_RECOGNITION_SETTINGS,
+      ...(await repos.settings.get<RecognitionSettings>(RECOGNITION_SETTINGS_KEY))
+    });
+    setDeviceTimekeeping({
+      ...DEFAULT_TIMEKEEPING_SETTINGS,
+      ...(await repos.settings.get<TimekeepingSettings>(TIMEKEEPING_SETTINGS_KEY))
+    });
+    setShifts((await repos.settings.get<ShiftSchedule[]>(SHIFTS_SETTING)) ?? []);
+    let sync = await repos.settings.get<SyncSettings>(SYNC_SETTINGS_KEY);
+    if (!sync) {
+      // The device id has to stay stable, so it is stored on first use
+      sync = createSyncSettings();
+      await repos.settings.put(SYNC_SETTINGS_KEY, sync);
+    }
+    setSyncSettings(sync);
+    setWebhooks((await repos.settings.get<WebhookSubscription[]>(WEBHOOKS_SETTING)) ?? []);
+    setDuplicateDismissals((await repos.settings.get<string[]>(DUPLICATE_DISMISSALS_SETTING)) ?? []);
+    setAttemptLogSettings({
+      ...DEFAULT_ATTEMPT_LOG_SETTINGS,
+      ...(await repos.settings.get<AttemptLogSettings>(ATTEMPT_LOG_SETTING))
+    });
+    setRecognitionAttempts(await repos.recognitionAttempts.recent(ATTEMPT_REVIEW_PAGE));
+    const savedKiosk = { ...DEFAULT_KIOSK_SETTINGS, ...(await repos.settings.get<KioskSettings>(KIOSK_SETTING)) };
+    // The camera is opened before the state effect would copy it across
+    kioskRef.current = savedKiosk;
+    setKiosk(savedKiosk);
+    setRetention({ ...DEFAULT_RETENTION_SETTINGS, ...(await repos.settings.get<RetentionSettings>(RETENTION_SETTING)) });
+    setRetentionRun((await repos.settings.get<RetentionRun>(RETENTION_LOG_SETTING)) ?? null);
+    setErasures((await repos.settings.get<ErasureLogEntry[]>(ERASURE_LOG_SETTING)) ?? []);
+    setDevice({ ...DEFAULT_DEVICE_SETTINGS, ...(await repos.settings.get<DeviceSettings>(DEVICE_SETTING)) });
+    setSavedSites(await repos.sites.getAll());
+    setWebhookDeliveries(await repos.webhookDeliveries.recent(DELIVERY_LOG_PAGE));
+    const outboxCounts = await getOutboxCounts(repos);
+    setSyncStatus(prev => ({ ...prev, ...outboxCounts }));
+    setAppState(AppState.READY);
+  };
+
+  const handleVaultSubmit = async (passphrase: string) => {
+    setVaultError(null);
+    try {
+      const repos = await openRepositories();
+      if (appState === AppState.VAULT_SETUP) {
+        await repos.vault.initialize(passphrase);
+      } else {
+        await repos.vault.unlock(passphrase);
+      }
+      await loadVaultData();
+    } catch (err) {
+      setVaultError(err instanceof InvalidPassphraseError
+        ? "Incorrect passphrase. Vault remains locked."
+        : "Could not open the biometric vault.");
+    }
+  };
+
+  const lockApp = () => {
+    stopCamera();
+    lockVault();
+    setSyncSettings(null);
+    setWebhooks([]);
+    setProfiles([]);
+    setPendingEnrollment(null);
+    setRecognitionAttempts([]);
+    recentAttemptsRef.current = [];
+    setCurrentResults([]);
+    setShowRotation(false);
+    setAppState(AppState.LOCKED);
+  };
+
+  const rotatePassphrase = async (currentPassphrase: string, nextPassphrase: string) => {
+    const repos = await openRepositories();
+    await repos.vault.rotate(currentPassphrase, nextPassphrase);
+  };
+
+  const inAdmin = appState === AppState.ADMIN || appState === AppState.REGISTERING || appState === AppState.CALIBRATION
+    || appState === AppState.REPORTS || appState === AppState.PROFILE;
+
+  const enterAdmin = (author: string) => {
+    setAdminAuthor(author);
+    setFaceLoginStatus(null);
+    setAppState(AppState.ADMIN);
+  };
+
+  const exitAdmin = () => {
+    stopCamera();
+    setShowRotation(false);
+    setEnrollName("");
+    setEnrollStaffId("");
+    setEnrollConsent(false);
+    setEnrollArmed(false);
+    setReenrollTarget(null);
+    setPendingEnrollment(null);
+    setSelectedProfileId(null);
+    setCorrectionTarget(null);
+    setFaceLoginStatus(null);
+    setAppState(AppState.READY);
+  };
+
+  // Auto-lock admin mode after a period without interaction
+  useEffect(() => {
+    if (!inAdmin) return;
+    let timer = window.setTimeout(exitAdmin, ADMIN_IDLE_TIMEOUT_MS);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = window.setTimeout(exitAdmin, ADMIN_IDLE_TIMEOUT_MS);
+    };
+    const activityEvents = ['pointerdown', 'keydown'];
+    activityEvents.forEach(event => window.addEventListener(event, resetTimer));
+    return () => {
+      clearTimeout(timer);
+      activityEvents.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [inAdmin]);
+
+  const handlePinLogin = async (pin: string) => {
+    const repos = await openRepositories();
+    const credential = await repos.settings.get<AdminPinCredential>(ADMIN_PIN_SETTING);
+    if (!credential || !(await verifyPin(pin, credential))) return false;
+    enterAdmin(PIN_AUTHOR);
+    return true;
+  };
+
+  // Setting the first PIN is authorized by the vault passphrase
+  const handleCreatePin = async (pin: string, passphrase: string) => {
+    const repos = await openRepositories();
+    const meta = await repos.vault.getMeta();
+    try {
+      await verifyPassphrase(passphrase, meta!);
+    } catch (err) {
+      return "Vault passphrase is incorrect";
+    }
+    await repos.settings.put(ADMIN_PIN_SETTING, await createPinCredential(pin));
+    setHasAdminPin(true);
+    enterAdmin(PIN_AUTHOR);
+    return null;
+  };
+
+  const handleFaceLogin = async () => {
+    setFaceLoginActive(true);
+    setFaceLoginStatus("Look at the camera");
+    captureCancelledRef.current = false;
+    await startCamera();
+
+    try {
+      const deadline = Date.now() + FACE_LOGIN_TIMEOUT_MS;
+      while (Date.now() < deadline && !captureCancelledRef.current) {
+        const sample = videoRef.current ? await detectFaceSample(videoRef.current) : null;
+        if (videoRef.current) showLiveFaces(videoRef.current, sample ? [sample] : []);
+        // Match against everyone so a staff member who resembles an admin is not let in
+        const match = sample ? findBestMatch(sample.descriptor, activeProfiles, recognitionSettings) : null;
+        if (match?.outcome === 'match' && match.profile.role === 'admin') {
+          const challenge = pickChallenge();
+          setFaceLoginStatus(`${match.profile.name}: ${LIVENESS_INSTRUCTIONS[challenge]}`);
+          const outcome = await runLivenessChallenge(videoRef.current!, match.profile, challenge, recognitionSettings.matchThreshold);
+          if (outcome.outcome === 'passed') {
+            enterAdmin(profileLabel(match.profile));
+          } else {
+            setFaceLoginStatus(`Liveness check failed: ${outcome.reason}`);
+          }
+          return;
+        }
+        await delay(500);
+      }
+      if (!captureCancelledRef.current) setFaceLoginStatus("No admin face recognized");
+    } catch (err) {
+      console.error("Face sign-in error", err);
+      setFaceLoginStatus("Face sign-in failed");
+    } finally {
+      stopCamera();
+      setFaceLoginActive(false);
+    }
+  };
+
+  const loadReportRecords = async (from: string, to: string) => {
+    const repos = await openRepositories();
+    const { start, end } = businessDayRange(from, to, timekeeping);
+    const { records } = await repos.attendance.query({ from: start, to: end });
+    return records;
+  };
+
+  const exportAttendance = async (format: 'csv' | 'json', filter: AttendanceExportFilter) => {
+    const repos = await openRepositories();
+    const { records } = await repos.attendance.query(toLogQuery(filter, timekeeping));
+    const stamp = calendarDate(Date.now(), timekeeping.timeZone);
+    if (format === 'csv') {
+      downloadFile(`attendance-${stamp}.csv`, attendanceToCsv(records, timekeeping, profiles, sites), 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(`attendance-${stamp}.json`, attendanceToJson(records, filter, timekeeping, profiles, sites), 'application/json');
+    }
+    return records.length;
+  };
+
+  const backupRegistry = async (passphrase: string) => {
+    const stamp = calendarDate(Date.now(), timekeeping.timeZone);
+    downloadFile(`registry-backup-${stamp}.json`, await createRegistryBackup(profiles, passphrase), 'application/json');
+  };
+
+  const restoreRegistry = async (content: string, passphrase: string, mode: RestoreMode) => {
+    let restored: UserFaceProfile[];
+    try {
+      restored = await readRegistryBackup(content, passphrase);
+    } catch (err) {
+      if (err instanceof InvalidPassphraseError) throw new Error("Incorrect backup passphrase");
+      throw err;
+    }
+
+    const plan = planRestore(profiles, restored, mode);
+    const repos = await openRepositories();
+    // Dropped profiles are deleted through sync as well, or the next pull would bring them back
+    await repos.profiles.replace(restored, plan.removedIds);
+    setProfiles([...plan.profiles].sort((a, b) => a.capturedAt - b.capturedAt));
+    return plan;
+  };
+
+  const saveProfile = async (edited: UserFaceProfile) => {
+    const updated = trackDeactivation(profiles.find(p => p.id === edited.id), edited, Date.now());
+    const repos = await openRepositories();
+    await repos.profiles.put(updated);
+    setProfiles(prev => prev.map(p => p.id === updated.id ? updated : p));
+  };
+
+  // For staff enrolled before consent was recorded, or under an older notice
+  const recordConsent = async (profile: UserFaceProfile) => {
+    if (!confirm(`${CONSENT_NOTICE.join('\n\n')}\n\nHas ${profile.name} read and agreed to consent notice v${CONSENT_VERSION}?`)) return;
+    await saveProfile({ ...profile, consent: createConsent(adminAuthor, Date.now()) });
+  };
+
+  const fileLabel = (profile: UserFaceProfile) => profile.staffId || profile.id.slice(0, 8);
+
+  const exportProfileData = async (profile: UserFaceProfile) => {
+    const repos = await openRepositories();
+    downloadFile(`personal-data-${fileLabel(profile)}.json`, await exportPersonalData(repos, profile, Date.now()), 'application/json');
+  };
+
+  // Unlike Delete, erasure also removes the person's attendance; the report is the only copy of what was removed
+  const eraseProfile = async (profile: UserFaceProfile) => {
+    if (!confirm(`Erase ${profileLabel(profile)}? The profile, face templates and all attendance records are removed for good, here and on the central server. A report of what was removed is downloaded.`)) return;
+    const repos = await openRepositories();
+    const report = await eraseDataSubject(repos, profile, adminAuthor, Date.now());
+    downloadFile(`erasure-report-${fileLabel(profile)}.json`, JSON.stringify(report, null, 2), 'application/json');
+    if (report.unlinkedLivenessAlerts > 0) {
+      setErrorMessage(`${report.unlinkedLivenessAlerts} older liveness alert(s) for the name ${profile.name} were kept because they may belong to someone else. Review and clear them under Liveness Alerts.`);
+    }
+    // Receivers identify the profile by id; the name is already gone
+    emit('profile_deleted', { profileId: profile.id, name: ERASED_NAME, role: profile.role });
+    setProfiles(prev => prev.filter(p => p.id !== profile.id));
+    setLivenessFailures((await repos.livenessFailures.getAll()).sort((a, b) => b.timestamp - a.timestamp));
+    setRecognitionAttempts(await repos.recognitionAttempts.recent(ATTEMPT_REVIEW_PAGE));
+    setWebhookDeliveries(await repos.webhookDeliveries.recent(DELIVERY_LOG_PAGE));
+    setErasures((await repos.settings.get<ErasureLogEntry[]>(ERASURE_LOG_SETTING)) ?? []);
+    setLogsVersion(v => v + 1);
+    setAppState(AppState.ADMIN);
+  };
+
+  const loadProfileHistory = async (profileId: string, limit: number) => {
+    const repos = await openRepositories();
+    return repos.attendance.query({ profileId, limit });
+  };
+
+  const openProfile = (profile: UserFaceProfile) => {
+    setSelectedProfileId(profile.id);
+    setAppState(AppState.PROFILE);
+  };
+
+  const startReenroll = async (profile: UserFaceProfile) => {
+    setReenrollTarget(profile);
+    setAppState(AppState.REGISTERING);
+    await startCamera();
+  };
+
+  const cancelEnrollment = () => {
+    stopCamera();
+    setEnrollConsent(false);
+    setEnrollArmed(false);
+    setAppState(reenrollTarget ? AppState.PROFILE : AppState.ADMIN);
+    setReenrollTarget(null);
+    setPendingEnrollment(null);
+  };
+
+  const dismissDuplicates = async (pairs: [string, string][]) => {
+    const next = [...new Set([...duplicateDismissals, ...pairs.map(([a, b]) => pairKey(a, b))])];
+    const repos = await openRepositories();
+    await repos.settings.put(DUPLICATE_DISMISSALS_SETTING, next);
+    setDuplicateDismissals(next);
+  };
+
+  // Admin override: the colliding profiles are confirmed as different people
+  const confirmDuplicateEnrollment = async () => {
+    if (!pendingEnrollment) return;
+    const { profile, candidates } = pendingEnrollment;
+    await saveEnrolledProfile(profile);
+    await dismissDuplicates(candidates.map(c => [profile.id, c.profile.id]));
+    setPendingEnrollment(null);
+  };
+
+  const openDuplicate = (profile: UserFaceProfile) => {
+    cancelEnrollment();
+    openProfile(profile);
+  };
+
+  const toggleAdminRole = async (profile: UserFaceProfile) => {
+    const updated: UserFaceProfile = { ...profile, role: profile.role === 'admin' ? 'staff' : 'admin' };
+    const repos = await openRepositories();
+    await repos.profiles.put(updated);
+    setProfiles(prev => prev.map(p => p.id === updated.id ? updated : p));
+  };
+
+  const storageReady = appState !== AppState.LOADING_MODELS;
+
+  useEffect(() => {
+    if (!storageReady) return;
+    let cancelled = false;
+    const load = async () => {
+      const repos = await openRepositories();
+      const today = businessDate(Date.now(), timekeeping);
+      const windowStart = businessDayRange(addDays(today, -(SESSION_WINDOW_DAYS - 1)), today, timekeeping).start;
+
+      const [page, recent, audit] = await Promise.all([
+        repos.attendance.query({ ...toLogQuery(logFilter, timekeeping), limit: logLimit }),
+        repos.attendance.query({ from: windowStart }),
+        repos.attendanceAudit.recent(CORRECTION_LOG_PAGE)
+      ]);
+      if (cancelled) return;
+      setAttendanceLogs(page.records);
+      setLogTotal(page.total);
+      setRecentLogs(recent.records);
+      setAuditEntries(audit);
+    };
+    load().catch(err => console.error("Failed to load attendance logs", err));
+    return () => { cancelled = true; };
+  }, [storageReady, logFilter, logLimit, logsVersion, timekeeping]);
+
   const startCamera = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: 'user', width: { ideal: 640 }, height: { ideal: 480 } } 
-      });
+      const stream = await openCamera(kioskRef.current.cameraId);
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         streamRef.current = stream;
       }
+      return true;
     } catch (err) {
-      setErrorMessage("Camera access denied.");
+      console.error("Camera start failed", err);
+      setErrorMessage(describeCameraError(err));
+      return false;
     }
   };
 
   const stopCamera = () => {
+    captureCancelledRef.current = true;
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
@@ -74,166 +643,952 @@ const App: React.FC = () => {
     }
   };
 
-  const handleRegister = async () => {
-    if (!videoRef.current || !enrollName.trim()) {
-      if (!enrollName.trim()) setErrorMessage("Please enter employee name first.");
-      return;
+  const canEnroll = () => {
+    if (!reenrollTarget && !enrollName.trim()) {
+      setErrorMessage("Please enter employee name first.");
+      return false;
+    }
+    const conflict = !reenrollTarget && findStaffIdConflict(profiles, enrollStaffId);
+    if (conflict) {
+      setErrorMessage(`Staff ID ${normalizeStaffId(enrollStaffId)} already belongs to ${conflict.name}.`);
+      return false;
+    }
+    if (!enrollConsent) {
+      setErrorMessage("Record the employee's consent before capturing their face.");
+      return false;
     }
+    return true;
+  };
+
+  const armEnrollment = () => {
+    if (!canEnroll()) return;
+    setErrorMessage(null);
+    setEnrollArmed(true);
+  };
+
+  const handleRegister = async () => {
+    if (!videoRef.current || !canEnroll()) return;
     setIsProcessing(true);
     setErrorMessage(null);
+    captureCancelledRef.current = false;
 
     try {
-      const descriptor = await getFaceDescriptor(videoRef.current);
-      if (!descriptor) {
-        setErrorMessage("No face detected. Adjust lighting.");
+      const capture = await captureEnrollmentSamples(videoRef.current);
+      if (captureCancelledRef.current) return;
+      if (!capture) {
+        setErrorMessage("Could not capture a clear face. Adjust lighting and try again.");
       } else {
-        const newProfile: UserFaceProfile = {
-          id: crypto.randomUUID(),
-          name: enrollName.trim(),
-          descriptor: Array.from(descriptor),
-          capturedAt: Date.now()
-        };
-        const updatedProfiles = [...profiles, newProfile];
-        setProfiles(updatedProfiles);
-        localStorage.setItem('face_profiles', JSON.stringify(updatedProfiles));
-        setEnrollName("");
-        setAppState(AppState.READY);
-        stopCamera();
+        await completeEnrollment(capture);
       }
     } catch (err) {
       setErrorMessage("Enrollment failed.");
     } finally {
       setIsProcessing(false);
+      setEnrollProgress(null);
     }
   };
 
-  const performAutoScan = async () => {
-    if (!videoRef.current || profiles.length === 0 || isProcessing) return;
+  // Same enrollment from uploaded photos or a recorded video instead of the live camera
+  const handleRegisterFromMedia = async (files: File[]) => {
+    if (files.length === 0 || !canEnroll()) return;
     setIsProcessing(true);
+    setErrorMessage(null);
+
     try {
-      const descriptor = await getFaceDescriptor(videoRef.current);
-      if (descriptor) {
-        let bestMatchProfile: UserFaceProfile | null = null;
-        let minDistance = 1.0;
-
-        for (const profile of profiles) {
-          const distance = calculateDistance(descriptor, profile.descriptor);
-          if (distance < 0.5 && distance < minDistance) {
-            minDistance = distance;
-            bestMatchProfile = profile;
-          }
-        }
+      let thumbnail = '';
+      const { samples, rejected } = await collectSamples(mediaFrames(files), MAX_MEDIA_SAMPLES, (frame, sample) => {
+        if (!thumbnail) thumbnail = captureThumbnail(frame, sample.box);
+      });
+      if (samples.length === 0) {
+        setErrorMessage(`No usable face in the uploaded media. ${rejected[0] ?? ''}`.trim());
+      } else {
+        await completeEnrollment({ samples, thumbnail });
+      }
+    } catch (err) {
+      setErrorMessage(err instanceof Error ? err.message : "Enrollment failed.");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-        if (bestMatchProfile) {
-          const today = new Date().toISOString().split('T')[0];
-          const currentTime = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-          const currentDate = new Date().toLocaleDateString();
-          let status: 'success' | 'already' = 'success';
+  const completeEnrollment = async ({ samples, thumbnail }: { samples: number[][]; thumbnail: string }) => {
+    const now = Date.now();
+    const biometrics = {
+      descriptor: robustMeanDescriptor(samples),
+      descriptors: samples,
+      thumbnail,
+      capturedAt: now,
+      templatesPurgedAt: undefined,
+      consent: createConsent(adminAuthor, now)
+    };
+    const profile: UserFaceProfile = reenrollTarget
+      ? { ...reenrollTarget, ...biometrics, enrolledAt: reenrollTarget.enrolledAt ?? reenrollTarget.capturedAt }
+      : {
+        id: crypto.randomUUID(),
+        name: enrollName.trim(),
+        staffId: normalizeStaffId(enrollStaffId) || undefined,
+        active: true,
+        ...biometrics,
+        enrolledAt: now
+      };
+    stopCamera();
+    const candidates = findDuplicateCandidates(samples, profiles, recognitionSettings.matchThreshold, profile.id);
+    if (candidates.length > 0) {
+      setPendingEnrollment({ profile, candidates });
+    } else {
+      await saveEnrolledProfile(profile);
+    }
+  };
 
-          if (bestMatchProfile.lastClockIn === today) {
-            status = 'already';
-          } else {
-            // Update profile with clock in status
-            const updatedProfiles = profiles.map(p => 
-              p.id === bestMatchProfile!.id ? { ...p, lastClockIn: today } : p
-            );
-            setProfiles(updatedProfiles);
-            localStorage.setItem('face_profiles', JSON.stringify(updatedProfiles));
-
-            // Record new log entry
-            const newLog: AttendanceRecord = {
-              id: crypto.randomUUID(),
-              name: bestMatchProfile.name,
-              date: currentDate,
-              time: currentTime,
-              timestamp: Date.now()
-            };
-            
-            // Fetch latest from state to avoid stale closure issues
-            setAttendanceLogs(prev => {
-              const updatedLogs = [newLog, ...prev].slice(0, 100);
-              localStorage.setItem('attendance_logs', JSON.stringify(updatedLogs));
-              return updatedLogs;
-            });
-          }
+  const saveEnrolledProfile = async (profile: UserFaceProfile) => {
+    const repos = await openRepositories();
+    await repos.profiles.put(profile);
+    setProfiles(prev => reenrollTarget ? prev.map(p => p.id === profile.id ? profile : p) : [...prev, profile]);
+    emit('profile_enrolled', { profileId: profile.id, name: profile.name, role: profile.role });
+    setEnrollName("");
+    setEnrollStaffId("");
+    setEnrollConsent(false);
+    setEnrollArmed(false);
+    setReenrollTarget(null);
+    setAppState(reenrollTarget ? AppState.PROFILE : AppState.ADMIN);
+  };
+
+  // Walk through the guided poses, keeping one quality-checked sample per pose
+  const captureEnrollmentSamples = async (video: HTMLVideoElement): Promise<{ samples: number[][]; thumbnail: string } | null> => {
+    const samples: number[][] = [];
+    let thumbnail = '';
+    for (let i = 0; i < ENROLLMENT_STEPS.length; i++) {
+      const step = ENROLLMENT_STEPS[i];
+      const progress = { step: i, total: ENROLLMENT_STEPS.length, instruction: step.instruction };
+      setEnrollProgress(progress);
 
-          setCurrentResult({
-            match: true,
-            distance: minDistance,
-            label: bestMatchProfile.name,
-            clockInStatus: status,
-            time: currentTime
-          });
-
-          // Pause scanning to show results for only 2 seconds as requested
-          if (scanIntervalRef.current) clearInterval(scanIntervalRef.current);
-          setTimeout(() => {
-            setCurrentResult(null); // Clear the result display
-            if (appState === AppState.VERIFYING || (streamRef.current && streamRef.current.active)) {
-              startAutoScan();
-            }
-          }, 2000);
+      const deadline = Date.now() + ENROLL_STEP_TIMEOUT_MS;
+      let accepted = false;
+      while (!accepted && Date.now() < deadline) {
+        if (captureCancelledRef.current) return null;
+        const sample = await detectFaceSample(video);
+        const verdict = sample
+          ? assessSample(sample, step.pose)
+          : { accepted: false, reason: 'No face detected.' };
+        setLiveFaces(sample ? [sample] : []);
+        setGuidance({ message: verdict.reason ?? step.instruction, ready: verdict.accepted });
+        if (verdict.accepted) {
+          samples.push(Array.from(sample!.descriptor));
+          // The first pose faces the camera, which makes the best portrait
+          if (!thumbnail) thumbnail = captureThumbnail(video, sample!.box);
+          accepted = true;
+        } else {
+          setEnrollProgress({ ...progress, feedback: verdict.reason });
+          await delay(ENROLL_RETRY_DELAY_MS);
         }
       }
+      if (!accepted) return null;
+    }
+    return { samples, thumbnail };
+  };
+
+  const performAutoScan = async () => {
+    if (!videoRef.current || activeProfilesRef.current.length === 0 || scanningRef.current) return;
+    scanningRef.current = true;
+    setIsProcessing(true);
+    try {
+      const settings = recognitionSettingsRef.current;
+      const matches = await recognizeFaces(videoRef.current, activeProfilesRef.current, settings, groupModeRef.current);
+      showLiveFaces(videoRef.current, matches.map(({ sample }) => sample));
+      scanFailuresRef.current = 0;
+      if (matches.length > 0) lastPresenceRef.current = Date.now();
+      setScanStats(getScanStats());
+      reportUnknownFaces(matches);
+      if (!matches.some(({ match }) => match.outcome !== 'no_match')) return;
+
+      if (scanIntervalRef.current) clearInterval(scanIntervalRef.current);
+      const handled = new Set<string>();
+      const results: RecognitionResult[] = [];
+      for (const { sample, match } of matches) {
+        if (match.outcome === 'match' && !handled.has(match.profile.id)) {
+          handled.add(match.profile.id);
+          results.push(await recordFace(match.profile, match.distance, sample.box, settings));
+        } else {
+          results.push(describeUnresolvedFace(match, sample.box));
+        }
+        setCurrentResults([...results]);
+      }
+
+      pauseForResult();
     } catch (err) {
       console.error("Scan error", err);
+      scanFailuresRef.current++;
     } finally {
+      scanningRef.current = false;
       setIsProcessing(false);
     }
   };
 
+  // Feeds the viewfinder overlay from any detection pass; returns the guidance for the most prominent face
+  const showLiveFaces = (video: HTMLVideoElement, faces: FaceSample[]): Guidance => {
+    const face = mostProminent(faces);
+    const next = assessFrame(face, face ? measureBrightness(video, face.box) : null, lastFaceBoxRef.current);
+    lastFaceBoxRef.current = face?.box ?? null;
+    setLiveFaces(faces);
+    setGuidance(next);
+    return next;
+  };
+
+  useEffect(() => {
+    setLiveFaces([]);
+    setGuidance(null);
+    lastFaceBoxRef.current = null;
+  }, [appState]);
+
+  /**
+   * Guides the person into position before enrollment and, once the details
+   * are confirmed, starts the capture by itself when the face has read ready
+   * for a few checks in a row. Confirming locks the name, Staff ID and
+   * consent, so a pause while typing never captures half-entered details.
+   * The Capture button still starts it straight away.
+   */
+  useEffect(() => {
+    if (appState !== AppState.REGISTERING || isProcessing || pendingEnrollment) return;
+    let cancelled = false;
+    let busy = false;
+    let streak = 0;
+    const timer = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (!video?.videoWidth || busy) return;
+      busy = true;
+      try {
+        const sample = await detectFaceSample(video);
+        if (cancelled) return;
+        const next = showLiveFaces(video, sample ? [sample] : []);
+        streak = next.ready ? streak + 1 : 0;
+        if (next.ready && !enrollArmed) setGuidance({ ...next, message: 'Face ready. Confirm the details to capture.' });
+        if (streak >= AUTO_CAPTURE_STREAK && enrollArmed) {
+          clearInterval(timer);
+          handleRegister();
+        }
+      } catch (err) {
+        console.error("Guidance check failed", err);
+      } finally {
+        busy = false;
+      }
+    }, GUIDANCE_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [appState, isProcessing, pendingEnrollment, enrollArmed, reenrollTarget, profiles]);
+
+  const reportUnknownFaces = (faces: RecognizedFace[]) => {
+    const unresolved = faces.filter(({ match }) => match.outcome !== 'match');
+    const now = Date.now();
+    if (unresolved.length === 0) return;
+    logAttempts(unresolved, now).catch(err => console.error("Failed to log recognition attempt", err));
+    if (now - lastUnknownFaceEventRef.current < UNKNOWN_FACE_EVENT_COOLDOWN_MS) return;
+    lastUnknownFaceEventRef.current = now;
+    for (const { match } of unresolved) {
+      emit('unknown_face', {
+        reason: match.outcome === 'ambiguous' ? 'ambiguous' : 'no_match',
+        distance: Number.isFinite(match.distance) ? match.distance : null
+      });
+    }
+  };
+
+  // Snapshots are cropped before the first await, while the video still shows the scanned frame
+  const logAttempts = async (faces: RecognizedFace[], now: number) => {
+    const settings = recognitionSettingsRef.current;
+    const attempts: RecognitionAttempt[] = [];
+    for (const { sample, match } of faces) {
+      const descriptor = Array.from(sample.descriptor);
+      if (loggedRecently(recentAttemptsRef.current, descriptor, settings.matchThreshold, now)) continue;
+      recentAttemptsRef.current = [
+        ...recentAttemptsRef.current.filter(entry => now - entry.timestamp < ATTEMPT_REPEAT_WINDOW_MS),
+        { descriptor, timestamp: now }
+      ];
+      const snapshot = attemptLogSettingsRef.current.snapshots && videoRef.current
+        ? captureThumbnail(videoRef.current, sample.box)
+        : undefined;
+      attempts.push(createAttempt(match, descriptor, settings, snapshot));
+    }
+    if (attempts.length === 0) return;
+    const repos = await openRepositories();
+    await repos.recognitionAttempts.putMany(attempts);
+    await repos.recognitionAttempts.prune(ATTEMPT_LOG_SIZE);
+    setRecognitionAttempts(await repos.recognitionAttempts.recent(ATTEMPT_REVIEW_PAGE));
+  };
+
+  const describeUnresolvedFace = (match: MatchResult, box: FaceBox): RecognitionResult => {
+    const time = formatTime(Date.now(), timekeepingRef.current);
+    if (match.outcome === 'no_match') {
+      // Near misses are usually enrolled staff, so they get a hint instead of being turned away
+      const message = isNearMiss(match, recognitionSettingsRef.current) ? 'Not recognised, remove glasses or mask and look at the camera' : 'Not in registry';
+      return { match: false, distance: match.distance, label: 'Unknown', clockInStatus: 'none', message, time, box };
+    }
+    return {
+      match: false,
+      distance: match.distance,
+      label: 'Not Sure',
+      clockInStatus: 'ambiguous',
+      message: match.outcome === 'match' ? 'Matched more than one face in frame' : 'Face the camera directly and hold still',
+      time,
+      box
+    };
+  };
+
+  // Resolves the next event for one recognised face, runs its liveness check and writes the record
+  const recordFace = async (
+    bestMatchProfile: UserFaceProfile,
+    minDistance: number,
+    box: FaceBox,
+    settings: RecognitionSettings
+  ): Promise<RecognitionResult> => {
+    const timekeeping = timekeepingRef.current;
+    const now = new Date();
+    const today = businessDate(now.getTime(), timekeeping);
+    const currentTime = formatTime(now.getTime(), timekeeping);
+    const { siteId } = deviceRef.current;
+    if (!isAllowedAtSite(bestMatchProfile, siteId)) {
+      return {
+        match: true,
+        distance: minDistance,
+        label: bestMatchProfile.name,
+        clockInStatus: 'invalid',
+        message: `Not allowed to clock in at ${siteName(sitesRef.current, siteId)}`,
+        time: currentTime,
+        box
+      };
+    }
+    const repos = await openRepositories();
+    const last = await repos.attendance.latestFor(bestMatchProfile.id);
+    const resolution = resolveNextEvent(last ? [last] : [], bestMatchProfile, eventModeRef.current, now, timekeeping);
+
+    // Only scans that would write a record have to prove liveness
+    let liveness: { passed: boolean; challenge?: LivenessChallenge; reason?: string } = { passed: true };
+    if (resolution.outcome === 'accepted') {
+      const challenge = pickChallenge();
+      setActiveChallenge({ challenge, name: bestMatchProfile.name });
+      try {
+        const outcome = await runLivenessChallenge(videoRef.current!, bestMatchProfile, challenge, settings.matchThreshold);
+        liveness = outcome.outcome === 'passed'
+          ? { passed: true }
+          : { passed: false, challenge, reason: outcome.reason };
+      } finally {
+        setActiveChallenge(null);
+      }
+    }
+
+    if (resolution.outcome === 'accepted' && !liveness.passed) {
+      const failure: LivenessFailure = {
+        id: crypto.randomUUID(),
+        profileId: bestMatchProfile.id,
+        name: bestMatchProfile.name,
+        challenge: liveness.challenge!,
+        reason: liveness.reason!,
+        distance: minDistance,
+        timestamp: now.getTime()
+      };
+      await repos.livenessFailures.put(failure);
+      setLivenessFailures(prev => [failure, ...prev]);
+
+      return {
+        match: true,
+        distance: minDistance,
+        label: bestMatchProfile.name,
+        clockInStatus: 'liveness_failed',
+        message: `Liveness check failed: ${liveness.reason}`,
+        time: currentTime,
+        box
+      };
+    }
+
+    if (resolution.outcome === 'accepted') {
+      if (resolution.type === 'IN') {
+        // Update profile with clock in status
+        const updatedProfile = { ...bestMatchProfile, lastClockIn: today };
+        await repos.profiles.setLastClockIn(updatedProfile.id, today);
+        setProfiles(prev => prev.map(p => p.id === updatedProfile.id ? updatedProfile : p));
+      }
+
+      // Record new log entry
+      const newLog: AttendanceRecord = {
+        id: crypto.randomUUID(),
+        profileId: bestMatchProfile.id,
+        name: bestMatchProfile.name,
+        timestamp: now.getTime(),
+        businessDate: today,
+        type: resolution.type,
+        ...recordOrigin(deviceRef.current, syncSettingsRef.current?.deviceId)
+      };
+      await repos.attendance.put(newLog);
+      setLogsVersion(v => v + 1);
+      runSync();
+
+      const shift = shiftsRef.current.find(s => s.id === bestMatchProfile.shiftId);
+      const { start } = businessDayRange(today, today, timekeeping);
+      const { records: todayLogs } = await repos.attendance.query({ profileId: bestMatchProfile.id, from: start, to: newLog.timestamp });
+      const punctuality = classifyEvent(newLog, shift, timekeeping, todayLogs) ?? undefined;
+      emit(ATTENDANCE_EVENTS[resolution.type], { record: newLog, profileId: bestMatchProfile.id, distance: minDistance, punctuality });
+      return {
+        match: true,
+        distance: minDistance,
+        label: bestMatchProfile.name,
+        clockInStatus: 'success',
+        eventType: resolution.type,
+        message: `${EVENT_LABELS[resolution.type]} recorded at ${currentTime}`,
+        time: currentTime,
+        punctuality,
+        box
+      };
+    }
+
+    if (resolution.reason === 'too_soon') {
+      emit('duplicate_scan', { profileId: bestMatchProfile.id, name: bestMatchProfile.name, lastRecord: resolution.last! });
+    }
+    const lastType = resolution.last ? EVENT_LABELS[getEventType(resolution.last)] : null;
+    return {
+      match: true,
+      distance: minDistance,
+      label: bestMatchProfile.name,
+      clockInStatus: resolution.reason === 'too_soon' ? 'already' : 'invalid',
+      message: resolution.reason === 'too_soon'
+        ? `${lastType} already recorded at ${formatTime(resolution.last!.timestamp, timekeeping)}`
+        : `${EVENT_LABELS[eventModeRef.current as AttendanceEventType]} not allowed${lastType && resolution.last!.businessDate === today ? ` after ${lastType}` : ' without clocking in'}`,
+      time: currentTime,
+      box
+    };
+  };
+
+  // Pause scanning to show results for only 2 seconds as requested
+  const pauseForResult = () => {
+    if (scanIntervalRef.current) clearInterval(scanIntervalRef.current);
+    setTimeout(() => {
+      setCurrentResults([]); // Clear the result display
+      if (appState === AppState.VERIFYING || (streamRef.current && streamRef.current.active)) {
+        startAutoScan();
+      }
+    }, 2000);
+  };
+
+  // At a site the threshold is the site's, so a change is made there for every device
+  const saveRecognitionSettings = async (settings: RecognitionSettings) => {
+    const repos = await openRepositories();
+    await repos.settings.put(RECOGNITION_SETTINGS_KEY, settings);
+    setDeviceRecognitionSettings(settings);
+    if (currentSite?.matchThreshold !== undefined && currentSite.matchThreshold !== settings.matchThreshold) {
+      await saveSite({ ...currentSite, matchThreshold: settings.matchThreshold });
+    }
+  };
+
+  const saveShifts = async (next: ShiftSchedule[]) => {
+    const repos = await openRepositories();
+    await repos.settings.put(SHIFTS_SETTING, next);
+    setShifts(next);
+  };
+
+  const saveShift = (shift: ShiftSchedule) =>
+    saveShifts(shifts.some(s => s.id === shift.id) ? shifts.map(s => s.id === shift.id ? shift : s) : [...shifts, shift]);
+
+  const deleteShift = async (id: string) => {
+    const repos = await openRepositories();
+    const unassigned = profiles.filter(p => p.shiftId === id).map(p => ({ ...p, shiftId: undefined }));
+    await repos.profiles.putMany(unassigned);
+    setProfiles(prev => prev.map(p => unassigned.find(u => u.id === p.id) ?? p));
+    await saveShifts(shifts.filter(s => s.id !== id));
+  };
+
+  const assignShift = async (profile: UserFaceProfile, shiftId: string | undefined) => {
+    const updated: UserFaceProfile = { ...profile, shiftId };
+    const repos = await openRepositories();
+    await repos.profiles.put(updated);
+    setProfiles(prev => prev.map(p => p.id === updated.id ? updated : p));
+  };
+
+  // Reads the ref because the scan loop calls this from a stale closure after each record
+  const runSync = async () => {
+    const repos = await openRepositories();
+    const settings = syncSettingsRef.current;
+    if (!settings?.enabled) {
+      const counts = await getOutboxCounts(repos);
+      setSyncStatus(prev => ({ ...prev, ...counts }));
+      return;
+    }
+    setSyncStatus(prev => ({ ...prev, syncing: true }));
+    try {
+      const result = await syncNow(repos, settings);
+      // The vault may have been locked while the pass ran
+      if (result.registryChanged && syncSettingsRef.current) {
+        const pulled = await repos.profiles.getAll();
+        setProfiles(pulled.sort((a, b) => a.capturedAt - b.capturedAt));
+      }
+      if (result.sitesChanged) setSavedSites(await repos.sites.getAll());
+      const counts = await getOutboxCounts(repos);
+      setSyncStatus(prev => ({
+        ...counts,
+        syncing: false,
+        lastError: result.error,
+        lastSyncAt: result.error ? prev.lastSyncAt : Date.now()
+      }));
+    } catch (err) {
+      console.error("Sync pass failed", err);
+      setSyncStatus(prev => ({ ...prev, syncing: false, lastError: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  // Background sync: on unlock, on an interval and whenever the network comes back
+  useEffect(() => {
+    if (!syncSettings?.enabled) return;
+    runSync();
+    const timer = window.setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', runSync);
+    };
+  }, [syncSettings]);
+
+  const pumpWebhooks = async () => {
+    const repos = await openRepositories();
+    try {
+      await deliverDue(repos, webhooksRef.current);
+    } finally {
+      setWebhookDeliveries(await repos.webhookDeliveries.recent(DELIVERY_LOG_PAGE));
+    }
+  };
+
+  // Every kiosk event fans out to the webhooks that want it
+  useEffect(() => subscribeAll(async (event) => {
+    const repos = await openRepositories();
+    const queued = await queueDeliveries(repos, webhooksRef.current, event, syncSettingsRef.current?.deviceId);
+    if (queued > 0) await pumpWebhooks();
+  }), []);
+
+  // Retries wait for the pump, which runs while any webhook is configured
+  useEffect(() => {
+    if (webhooks.length === 0) return;
+    pumpWebhooks();
+    const timer = window.setInterval(pumpWebhooks, WEBHOOK_PUMP_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [webhooks]);
+
+  const saveWebhooks = async (next: WebhookSubscription[]) => {
+    const repos = await openRepositories();
+    await repos.settings.put(WEBHOOKS_SETTING, next);
+    setWebhooks(next);
+  };
+
+  const saveWebhook = (subscription: WebhookSubscription) =>
+    saveWebhooks(webhooks.some(w => w.id === subscription.id)
+      ? webhooks.map(w => w.id === subscription.id ? subscription : w)
+      : [...webhooks, subscription]);
+
+  const deleteWebhook = (id: string) => saveWebhooks(webhooks.filter(w => w.id !== id));
+
+  const retryWebhookDelivery = async (delivery: WebhookDelivery) => {
+    const repos = await openRepositories();
+    await retryDelivery(repos, delivery);
+    await pumpWebhooks();
+  };
+
+  const saveSyncSettings = async (settings: SyncSettings) => {
+    const repos = await openRepositories();
+    await repos.settings.put(SYNC_SETTINGS_KEY, settings);
+    setSyncSettings(settings);
+  };
+
+  const retryRejectedSync = async () => {
+    const repos = await openRepositories();
+    await repos.outbox.retryRejected(Date.now());
+    await runSync();
+  };
+
+  const resolveAttempt = async (attempt: RecognitionAttempt, patch: Partial<RecognitionAttempt>) => {
+    const updated: RecognitionAttempt = { ...attempt, ...patch, resolvedAt: Date.now() };
+    const repos = await openRepositories();
+    await repos.recognitionAttempts.put(updated);
+    setRecognitionAttempts(prev => prev.map(a => a.id === updated.id ? updated : a));
+  };
+
+  const dismissAttempt = (attempt: RecognitionAttempt) => resolveAttempt(attempt, { status: 'dismissed' });
+
+  // The descriptor becomes an extra template, so the person is recognised next time
+  const attachAttempt = async (attempt: RecognitionAttempt, profileId: string) => {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) return;
+    const [other] = findDuplicateCandidates([attempt.descriptor], profiles, recognitionSettings.matchThreshold, profileId);
+    if (other && !confirm(`This face also matches ${other.profile.name}. Add it to ${profile.name} anyway?`)) return;
+    await saveProfile(attachTemplate(profile, attempt.descriptor));
+    await resolveAttempt(attempt, { status: 'attached', attachedProfileId: profileId });
+  };
+
+  const saveAttemptLogSettings = async (settings: AttemptLogSettings) => {
+    const repos = await openRepositories();
+    await repos.settings.put(ATTEMPT_LOG_SETTING, settings);
+    setAttemptLogSettings(settings);
+  };
+
+  const clearResolvedAttempts = async () => {
+    const repos = await openRepositories();
+    const resolved = (await repos.recognitionAttempts.getAll()).filter(a => a.status !== 'pending');
+    for (const attempt of resolved) await repos.recognitionAttempts.delete(attempt.id);
+    setRecognitionAttempts(await repos.recognitionAttempts.recent(ATTEMPT_REVIEW_PAGE));
+  };
+
+  // Like the threshold, the timezone of a site is changed for every device there
+  const saveTimekeeping = async (settings: TimekeepingSettings) => {
+    const repos = await openRepositories();
+    await repos.settings.put(TIMEKEEPING_SETTINGS_KEY, settings);
+    setDeviceTimekeeping(settings);
+    if (currentSite?.timeZone && currentSite.timeZone !== settings.timeZone) {
+      await saveSite({ ...currentSite, timeZone: settings.timeZone });
+    }
+  };
+
   const startAutoScan = () => {
     if (scanIntervalRef.current) clearInterval(scanIntervalRef.current);
     scanIntervalRef.current = window.setInterval(performAutoScan, 1500);
   };
 
   const initiateAttendance = async () => {
-    setCurrentResult(null);
+    setCurrentResults([]);
+    setIdle(false);
+    lastPresenceRef.current = Date.now();
+    scanFailuresRef.current = 0;
     setAppState(AppState.VERIFYING);
     await startCamera();
     startAutoScan();
   };
 
-  const deleteProfile = (id: string) => {
+  const saveRetention = async (settings: RetentionSettings) => {
+    const repos = await openRepositories();
+    await repos.settings.put(RETENTION_SETTING, settings);
+    setRetention(settings);
+  };
+
+  const runRetention = async () => {
+    const repos = await openRepositories();
+    const run = await applyRetention(repos, retention, !!syncSettingsRef.current?.enabled, Date.now());
+    setRetentionRun(run);
+    if (run.templates > 0) setProfiles((await repos.profiles.getAll()).sort((a, b) => a.capturedAt - b.capturedAt));
+    if (run.recognitionAttempts > 0) setRecognitionAttempts(await repos.recognitionAttempts.recent(ATTEMPT_REVIEW_PAGE));
+    if (run.livenessFailures > 0) setLivenessFailures((await repos.livenessFailures.getAll()).sort((a, b) => b.timestamp - a.timestamp));
+    if (run.attendanceRecords > 0) setLogsVersion(v => v + 1);
+  };
+
+  // Sync settings are only loaded with the vault open, which retention needs for the templates
+  const vaultOpen = syncSettings !== null;
+  useEffect(() => {
+    if (!vaultOpen) return;
+    const run = () => runRetention().catch(err => console.error("Retention run failed", err));
+    run();
+    const timer = window.setInterval(run, RETENTION_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [vaultOpen, retention]);
+
+  const saveSite = async (site: Site) => {
+    const repos = await openRepositories();
+    await repos.sites.put(site);
+    setSavedSites(prev => upsertSite(prev, site));
+    runSync();
+  };
+
+  // The site's timezone and threshold are saved with the site, never copied into this device's settings
+  const saveDeviceSetup = async (next: DeviceSettings, site: Site) => {
+    const repos = await openRepositories();
+    await repos.settings.put(DEVICE_SETTING, next);
+    await saveSite(site);
+    setDevice(next);
+  };
+
+  const saveKioskSettings = async (settings: KioskSettings) => {
+    const repos = await openRepositories();
+    await repos.settings.put(KIOSK_SETTING, settings);
+    setKiosk(settings);
+  };
+
+  // Results are heard as well as shown, in and out of kiosk mode
+  useEffect(() => subscribeAll((event) => {
+    const feedback = feedbackFor(event);
+    if (feedback && kioskRef.current.feedback !== 'off') playFeedback(feedback, kioskRef.current.feedback);
+  }), []);
+
+  const kioskActive = kiosk.enabled && appState === AppState.VERIFYING;
+
+  // A kiosk goes straight back to scanning after unlock, admin or a reload
+  useEffect(() => {
+    if (kiosk.enabled && appState === AppState.READY && activeProfiles.length > 0) initiateAttendance();
+  }, [kiosk.enabled, appState, profiles]);
+
+  // Fullscreen needs a user gesture, so the first touch on the kiosk requests it
+  useEffect(() => {
+    if (!kioskActive || !kiosk.fullscreen) return;
+    enterFullscreen();
+    window.addEventListener('pointerdown', enterFullscreen);
+    return () => window.removeEventListener('pointerdown', enterFullscreen);
+  }, [kioskActive, kiosk.fullscreen]);
+
+  useEffect(() => {
+    if (!kioskActive || !kiosk.wakeLock) return;
+    return holdWakeLock();
+  }, [kioskActive, kiosk.wakeLock]);
+
+  const wake = () => {
+    lastPresenceRef.current = Date.now();
+    setIdle(false);
+    startAutoScan();
+  };
+
+  /**
+   * Restarts the camera when its track has ended or scans keep failing, backing
+   * off while the device stays unavailable, and drops to the attract screen
+   * once nobody has been in view for the idle timeout.
+   */
+  useEffect(() => {
+    if (!kioskActive) {
+      setIdle(false);
+      return;
+    }
+    const check = async () => {
+      const now = Date.now();
+      if (!isStreamHealthy(streamRef.current) || scanFailuresRef.current >= MAX_SCAN_FAILURES) {
+        if (now < nextRestartAtRef.current) return;
+        console.warn("Restarting kiosk camera", { failures: scanFailuresRef.current });
+        stopCamera();
+        scanFailuresRef.current = 0;
+        if (await startCamera()) {
+          cameraRestartsRef.current = 0;
+          setErrorMessage(null);
+          if (idle) return;
+          startAutoScan();
+        } else {
+          nextRestartAtRef.current = Date.now() + restartDelay(cameraRestartsRef.current++);
+        }
+        return;
+      }
+      const idleAfterMs = kiosk.idleAfterSeconds * 1000;
+      if (!idle && idleAfterMs > 0 && now - lastPresenceRef.current > idleAfterMs && currentResults.length === 0) {
+        if (scanIntervalRef.current) clearInterval(scanIntervalRef.current);
+        scanIntervalRef.current = null;
+        setIdle(true);
+      }
+    };
+    const timer = window.setInterval(check, KIOSK_WATCHDOG_MS);
+    return () => clearInterval(timer);
+  }, [kioskActive, idle, kiosk.idleAfterSeconds, currentResults, profiles]);
+
+  // While idle, a cheap frame diff and an occasional face check decide when to wake
+  useEffect(() => {
+    if (!idle) return;
+    const motion = createMotionDetector();
+    let checks = 0;
+    let busy = false;
+    const timer = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (!video || busy) return;
+      busy = true;
+      try {
+        const moved = motion(video) > MOTION_THRESHOLD;
+        const face = !moved && ++checks % IDLE_FACE_CHECK_EVERY === 0 && !!(await detectFaceSample(video));
+        if (moved || face) wake();
+      } catch (err) {
+        console.error("Idle check failed", err);
+      } finally {
+        busy = false;
+      }
+    }, IDLE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [idle]);
+
+  const deleteProfile = async (id: string) => {
     if(!confirm("Remove employee biometric record? This cannot be undone.")) return;
-    const updated = profiles.filter(p => p.id !== id);
-    setProfiles(updated);
-    localStorage.setItem('face_profiles', JSON.stringify(updated));
+    const repos = await openRepositories();
+    await repos.profiles.delete(id);
+    const removed = profiles.find(p => p.id === id);
+    if (removed) emit('profile_deleted', { profileId: id, name: removed.name, role: removed.role });
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    if (appState === AppState.PROFILE) setAppState(AppState.ADMIN);
   };
 
-  const clearRegistry = () => {
-    if(!confirm("DANGER: Remove ALL biometric profiles from this device? All staff will need to re-enroll.")) return;
+  const clearRegistry = async () => {
+    if(!confirm("DANGER: Remove ALL biometric profiles from this device? Profiles on the central server are kept and are downloaded again on the next sync. Without sync, all staff will need to re-enroll.")) return;
+    const repos = await openRepositories();
+    // Local only, so no profile_deleted events: the registry itself is unchanged
+    await repos.profiles.clear();
     setProfiles([]);
-    localStorage.removeItem('face_profiles');
+    runSync();
+  };
+
+  const clearLogs = async () => {
+    const repos = await openRepositories();
+    const { total } = await repos.attendance.query({ limit: 0 });
+    setCorrectionTarget({ mode: 'clear', count: total });
+  };
+
+  const clearLivenessFailures = async () => {
+    if(!confirm("Clear all liveness alerts?")) return;
+    const repos = await openRepositories();
+    await repos.livenessFailures.clear();
+    setLivenessFailures([]);
+  };
+
+  // Corrections never remove records: deletions leave a tombstone, and every change is audited
+  const submitCorrection = async ({ profileId, type, timestamp, reason }: CorrectionDraft) => {
+    if (!correctionTarget) return;
+    const repos = await openRepositories();
+    let changes: AttendanceChange[];
+    if (correctionTarget.mode === 'create') {
+      const profile = profiles.find(p => p.id === profileId)!;
+      const origin = recordOrigin(device, syncSettings?.deviceId);
+      changes = [createManualRecord(profile, type, timestamp, timekeeping, adminAuthor, reason, Date.now(), origin)];
+    } else if (correctionTarget.mode === 'edit') {
+      changes = [editRecord(correctionTarget.record, type, timestamp, timekeeping, adminAuthor, reason)];
+    } else if (correctionTarget.mode === 'delete') {
+      changes = [deleteRecord(correctionTarget.record, adminAuthor, reason)];
+    } else {
+      const { records } = await repos.attendance.query({});
+      changes = records.map(record => deleteRecord(record, adminAuthor, reason));
+    }
+    await repos.attendance.applyCorrections(changes);
+    setCorrectionTarget(null);
+    setLogsVersion(v => v + 1);
   };
 
-  const clearLogs = () => {
-    if(!confirm("Clear all attendance logs?")) return;
-    setAttendanceLogs([]);
-    localStorage.removeItem('attendance_logs');
+  const loadCorrectionHistory = async (recordId: string) => {
+    const repos = await openRepositories();
+    return repos.attendanceAudit.forRecord(recordId);
   };
 
-  const deleteLogEntry = (id: string) => {
-    if(!confirm("Permanently delete this attendance record?")) return;
-    const updated = attendanceLogs.filter(log => log.id !== id);
-    setAttendanceLogs(updated);
-    localStorage.setItem('attendance_logs', JSON.stringify(updated));
+  const updateLogFilter = (patch: Partial<LogFilter>) => {
+    setLogFilter(prev => ({ ...prev, ...patch }));
+    setLogLimit(LOG_PAGE_SIZE);
   };
 
+  const isVaultGate = appState === AppState.VAULT_SETUP || appState === AppState.LOCKED;
+
+  const deviceSetup = (
+    <DeviceSetupPanel
+      device={device}
+      deviceId={syncSettings?.deviceId ?? ''}
+      sites={sites}
+      profiles={profiles}
+      timekeeping={timekeeping}
+      matchThreshold={recognitionSettings.matchThreshold}
+      onSave={saveDeviceSetup}
+    />
+  );
+
+  const header = (
+    <header className="flex items-center justify-between">
+      <div className="flex items-center gap-4">
+        <div className="bg-blue-600 p-2.5 rounded-2xl shadow-xl shadow-blue-900/20">
+          <Clock className="w-7 h-7 text-white" />
+        </div>
+        <div>
+          <h1 className="text-xl font-black text-white leading-tight">Mysyarikat Recognition</h1>
+          <p className="text-gray-500 text-[10px] font-bold uppercase tracking-[0.2em]">
+            {isDeviceConfigured(device)
+              ? [siteName(sites, device.siteId), device.name].filter(Boolean).join(' · ')
+              : 'Attendance System'}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <ConnectivityBadge />
+        {inAdmin ? (
+          <>
+            <button
+              onClick={exitAdmin}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600/10 hover:bg-blue-600 border border-blue-500/20 rounded-xl text-[10px] font-black text-blue-400 hover:text-white uppercase tracking-widest transition-all"
+            >
+              <X className="w-3 h-3" />
+              Exit Admin
+            </button>
+            <button
+              onClick={lockApp}
+              className="flex items-center gap-2 px-4 py-2 bg-gray-900 hover:bg-gray-800 border border-gray-800 rounded-xl text-[10px] font-black text-gray-400 hover:text-white uppercase tracking-widest transition-all"
+            >
+              <Lock className="w-3 h-3" />
+              Lock Vault
+            </button>
+          </>
+        ) : (appState === AppState.READY || kioskActive) && (
+          <button
+            onClick={() => {
+              // Kiosk mode never leaves the sensor, so admin is reached from here
+              if (kioskActive) {
+                stopCamera();
+                exitFullscreen();
+              }
+              setCurrentResults([]);
+              setAppState(AppState.ADMIN_LOGIN);
+            }}
+            title="Admin"
+            className="p-2.5 bg-gray-900 hover:bg-gray-800 border border-gray-800 rounded-xl text-gray-500 hover:text-white transition-all"
+          >
+            <Settings className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </header>
+  );
+
+  if (isVaultGate) {
+    return (
+      <div className="max-w-4xl mx-auto p-4 md:p-6 lg:p-10 space-y-10">
+        {header}
+        <VaultUnlock
+          mode={appState === AppState.VAULT_SETUP ? 'setup' : 'unlock'}
+          error={vaultError}
+          onSubmit={handleVaultSubmit}
+        />
+      </div>
+    );
+  }
+
+  if (appState === AppState.REPORTS) {
+    return (
+      <div className="max-w-6xl mx-auto p-4 md:p-6 lg:p-10 space-y-10">
+        {header}
+        <ReportsView
+          profiles={profiles}
+          shifts={shifts}
+          timekeeping={timekeeping}
+          today={today}
+          loadRecords={loadReportRecords}
+          onClose={() => setAppState(AppState.ADMIN)}
+        />
+      </div>
+    );
+  }
+
+  if (appState === AppState.PROFILE && selectedProfile) {
+    return (
+      <div className="max-w-4xl mx-auto p-4 md:p-6 lg:p-10 space-y-10">
+        {header}
+        <ProfileDetail
+          key={selectedProfile.id}
+          profile={selectedProfile}
+          profiles={profiles}
+          shifts={shifts}
+          sites={sites}
+          timekeeping={timekeeping}
+          loadHistory={loadProfileHistory}
+          onSave={saveProfile}
+          onReenroll={startReenroll}
+          onDelete={deleteProfile}
+          onRecordConsent={recordConsent}
+          onExportData={exportProfileData}
+          onErase={eraseProfile}
+          onClose={() => setAppState(AppState.ADMIN)}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-4xl mx-auto p-4 md:p-6 lg:p-10 space-y-10">
       {/* Header */}
-      <header className="flex items-center justify-between">
-        <div className="flex items-center gap-4">
-          <div className="bg-blue-600 p-2.5 rounded-2xl shadow-xl shadow-blue-900/20">
-            <Clock className="w-7 h-7 text-white" />
-          </div>
-          <div>
-            <h1 className="text-xl font-black text-white leading-tight">Mysyarikat Recognition</h1>
-            <p className="text-gray-500 text-[10px] font-bold uppercase tracking-[0.2em]">Attendance System</p>
-          </div>
-        </div>
-      </header>
+      {header}
+
+      {idle && kioskActive && <AttractScreen timekeeping={timekeeping} onWake={wake} />}
 
       {errorMessage && (
         <div className="bg-red-500/10 border border-red-500/30 text-red-400 p-4 rounded-2xl flex items-center gap-4 text-xs font-bold uppercase tracking-wider animate-in fade-in duration-300">
@@ -245,26 +1600,60 @@ const App: React.FC = () => {
 
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 items-stretch">
         {/* Main Interface Area */}
-        <div className="lg:col-span-8 flex flex-col">
+        <div className={`${inAdmin ? 'lg:col-span-8' : 'lg:col-span-12'} flex flex-col`}>
           <div className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl flex flex-col h-full">
             {/* Viewfinder */}
             <div className="aspect-video bg-black relative flex items-center justify-center overflow-hidden">
-              {(appState === AppState.REGISTERING || appState === AppState.VERIFYING) ? (
+              {(appState === AppState.REGISTERING || appState === AppState.VERIFYING || faceLoginActive) ? (
                 <>
                   <video ref={videoRef} autoPlay muted playsInline className="w-full h-full object-cover" />
-                  <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
-                    <div className="w-56 h-72 border-2 border-dashed border-blue-500/30 rounded-[2.5rem]" />
-                  </div>
-                  {appState === AppState.VERIFYING && !currentResult && (
+                  {!groupMode && (
+                    <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
+                      <div className={`w-56 h-72 border-2 border-dashed rounded-[2.5rem] transition-colors ${guidance?.ready ? 'border-emerald-400/60' : 'border-blue-500/30'}`} />
+                    </div>
+                  )}
+                  {currentResults.length === 0 && (
+                    <LiveFaceOverlay
+                      video={videoRef.current}
+                      faces={liveFaces}
+                      guidance={guidance}
+                      showMessage={!activeChallenge && !(isProcessing && appState === AppState.REGISTERING)}
+                    />
+                  )}
+                  <FaceBoxOverlay video={videoRef.current} results={currentResults} />
+                  {activeChallenge && (
+                    <div className="absolute inset-x-0 bottom-0 bg-black/70 backdrop-blur-sm p-4 text-center">
+                      <p className="text-blue-400 text-[10px] font-black uppercase tracking-widest">Liveness check · {activeChallenge.name}</p>
+                      <p className="text-white text-sm font-black uppercase mt-1">{LIVENESS_INSTRUCTIONS[activeChallenge.challenge]}</p>
+                    </div>
+                  )}
+                  {appState === AppState.VERIFYING && currentResults.length === 0 && !activeChallenge && (
                     <div className="absolute top-6 left-1/2 -translate-x-1/2 bg-blue-600/80 backdrop-blur-md px-5 py-2 rounded-full flex items-center gap-3">
                       <div className="w-2 h-2 bg-white rounded-full animate-pulse" />
-                      <span className="text-[10px] font-black text-white uppercase tracking-widest">Auto Scanning</span>
+                      <span className="text-[10px] font-black text-white uppercase tracking-widest">{groupMode ? 'Group Scanning' : 'Auto Scanning'}</span>
                     </div>
                   )}
                   {isProcessing && appState === AppState.REGISTERING && (
-                    <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center backdrop-blur-sm">
-                      <RefreshCw className="w-10 h-10 text-blue-500 animate-spin mb-4" />
-                      <p className="text-blue-400 text-[10px] font-black uppercase tracking-widest">Enrolling...</p>
+                    <div className="absolute bottom-0 inset-x-0 bg-black/70 backdrop-blur-sm p-4 flex items-center gap-4">
+                      <RefreshCw className="w-6 h-6 text-blue-500 animate-spin shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-blue-400 text-[10px] font-black uppercase tracking-widest">
+                          {enrollProgress ? `Sample ${enrollProgress.step + 1} of ${enrollProgress.total}` : 'Enrolling...'}
+                        </p>
+                        {enrollProgress && (
+                          <p className="text-white text-xs font-bold mt-0.5">{enrollProgress.instruction}</p>
+                        )}
+                        {enrollProgress?.feedback && (
+                          <p className="text-amber-400 text-[10px] font-bold uppercase tracking-wider mt-0.5">{enrollProgress.feedback}</p>
+                        )}
+                      </div>
+                      {enrollProgress && (
+                        <div className="flex gap-1">
+                          {Array.from({ length: enrollProgress.total }).map((_, i) => (
+                            <div key={i} className={`w-2 h-2 rounded-full ${i < enrollProgress.step ? 'bg-emerald-500' : i === enrollProgress.step ? 'bg-blue-500 animate-pulse' : 'bg-gray-700'}`} />
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )}
                 </>
@@ -279,6 +1668,32 @@ const App: React.FC = () => {
             {/* Controls */}
             <div className="p-5 bg-gray-950/20 border-t border-gray-800/50 flex flex-col justify-center">
               {appState === AppState.READY ? (
+                <div className="space-y-3">
+                  <button 
+                    disabled={activeProfiles.length === 0}
+                    onClick={initiateAttendance}
+                    className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-emerald-600 text-white py-4 rounded-2xl font-black text-[11px] transition-all active:scale-[0.98] border border-gray-700 hover:border-emerald-500 disabled:opacity-20 uppercase tracking-widest"
+                  >
+                    <Clock className="w-4 h-4" />
+                    Attendance
+                  </button>
+                  {!isDeviceConfigured(device) && (
+                    <p className="text-center text-[10px] font-black text-amber-400 uppercase tracking-wider">
+                      This device has no site yet. Set it up under Device &amp; Site in admin.
+                    </p>
+                  )}
+                </div>
+              ) : appState === AppState.ADMIN_LOGIN ? (
+                <AdminLogin
+                  hasPin={hasAdminPin}
+                  canUseFace={activeProfiles.some(p => p.role === 'admin') && !faceLoginActive}
+                  faceStatus={faceLoginStatus}
+                  onPinLogin={handlePinLogin}
+                  onCreatePin={handleCreatePin}
+                  onFaceLogin={handleFaceLogin}
+                  onCancel={exitAdmin}
+                />
+              ) : appState === AppState.ADMIN || appState === AppState.CALIBRATION ? (
                 <div className="grid grid-cols-2 gap-4">
                   <button 
                     onClick={async () => {
@@ -291,67 +1706,233 @@ const App: React.FC = () => {
                     Enroll
                   </button>
                   <button 
-                    disabled={profiles.length === 0}
-                    onClick={initiateAttendance}
-                    className="flex items-center justify-center gap-2 bg-gray-800 hover:bg-emerald-600 text-white py-4 rounded-2xl font-black text-[11px] transition-all active:scale-[0.98] border border-gray-700 hover:border-emerald-500 disabled:opacity-20 uppercase tracking-widest"
+                    onClick={() => setAppState(appState === AppState.CALIBRATION ? AppState.ADMIN : AppState.CALIBRATION)}
+                    className="flex items-center justify-center gap-2 bg-gray-800 hover:bg-blue-600 text-white py-4 rounded-2xl font-black text-[11px] transition-all active:scale-[0.98] border border-gray-700 hover:border-blue-500 uppercase tracking-widest"
+                  >
+                    <SlidersHorizontal className="w-4 h-4" />
+                    Calibrate
+                  </button>
+                  <button 
+                    onClick={() => setAppState(AppState.REPORTS)}
+                    className="flex items-center justify-center gap-2 bg-gray-800 hover:bg-blue-600 text-white py-4 rounded-2xl font-black text-[11px] transition-all active:scale-[0.98] border border-gray-700 hover:border-blue-500 uppercase tracking-widest"
+                  >
+                    <BarChart3 className="w-4 h-4" />
+                    Reports
+                  </button>
+                  <button 
+                    onClick={exitAdmin}
+                    className="flex items-center justify-center gap-2 bg-gray-800 hover:bg-emerald-600 text-white py-4 rounded-2xl font-black text-[11px] transition-all active:scale-[0.98] border border-gray-700 hover:border-emerald-500 uppercase tracking-widest"
                   >
                     <Clock className="w-4 h-4" />
-                    Attendance
+                    Back to Kiosk
                   </button>
                 </div>
+              ) : appState === AppState.REGISTERING && pendingEnrollment ? (
+                <div className="space-y-4">
+                  <div className="p-4 rounded-2xl border-2 bg-rose-500/10 border-rose-500/30 space-y-3">
+                    <div className="flex items-center gap-3">
+                      <ShieldAlert className="w-5 h-5 text-rose-500 shrink-0" />
+                      <p className="text-[10px] font-black text-rose-400 uppercase tracking-widest">
+                        This face is already enrolled. Saving is blocked unless you confirm these are different people.
+                      </p>
+                    </div>
+                    {pendingEnrollment.candidates.map(({ profile, distance }) => (
+                      <div key={profile.id} className="flex items-center gap-3">
+                        <div className="w-8 h-8 bg-blue-600/10 rounded-lg flex items-center justify-center text-[10px] font-black text-blue-400 overflow-hidden shrink-0">
+                          {profile.thumbnail
+                            ? <img src={profile.thumbnail} alt="" className="w-full h-full object-cover" />
+                            : profile.name.charAt(0).toUpperCase()}
+                        </div>
+                        <span className="flex-1 text-xs font-bold text-gray-200 uppercase truncate">{profileLabel(profile)}</span>
+                        <span className="text-[10px] font-black text-gray-500 uppercase">Distance {distance.toFixed(3)}</span>
+                        <button onClick={() => openDuplicate(profile)} className="text-[10px] font-black text-gray-400 hover:text-blue-400 uppercase tracking-widest">
+                          Open
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <button
+                      onClick={cancelEnrollment}
+                      className="bg-white text-black py-3 rounded-xl font-black text-xs uppercase hover:bg-blue-600 hover:text-white transition-all"
+                    >
+                      Discard Capture
+                    </button>
+                    <button
+                      onClick={confirmDuplicateEnrollment}
+                      className="bg-rose-600/10 hover:bg-rose-600 text-rose-500 hover:text-white border border-rose-500/20 py-3 rounded-xl font-black text-xs uppercase transition-all"
+                    >
+                      Different People, Save
+                    </button>
+                  </div>
+                </div>
               ) : appState === AppState.REGISTERING ? (
                 <div className="space-y-4">
                   <div className="flex gap-2">
-                    <input 
-                      type="text"
-                      placeholder="Staff Name"
-                      value={enrollName}
-                      onChange={(e) => setEnrollName(e.target.value)}
-                      className="flex-1 bg-gray-800 border-2 border-gray-700 rounded-xl px-5 py-3 text-xs font-bold text-white focus:outline-none focus:border-blue-500"
-                    />
+                    {reenrollTarget ? (
+                      <p className="flex-1 self-center text-xs font-black text-white uppercase tracking-widest">
+                        Re-enrolling {profileLabel(reenrollTarget)}
+                      </p>
+                    ) : (
+                      <>
+                        <input 
+                          type="text"
+                          placeholder="Staff Name"
+                          value={enrollName}
+                          onChange={(e) => setEnrollName(e.target.value)}
+                          disabled={enrollArmed}
+                          className="flex-1 bg-gray-800 border-2 border-gray-700 rounded-xl px-5 py-3 text-xs font-bold text-white focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                        />
+                        <input 
+                          type="text"
+                          placeholder="Staff ID"
+                          value={enrollStaffId}
+                          onChange={(e) => setEnrollStaffId(e.target.value)}
+                          disabled={enrollArmed}
+                          className="w-32 bg-gray-800 border-2 border-gray-700 rounded-xl px-5 py-3 text-xs font-bold text-white uppercase focus:outline-none focus:border-blue-500 disabled:opacity-50"
+                        />
+                      </>
+                    )}
                     <button 
                       onClick={handleRegister}
-                      disabled={isProcessing || !enrollName.trim()}
+                      disabled={isProcessing || !enrollConsent || (!reenrollTarget && !enrollName.trim())}
                       className="bg-white text-black px-8 py-3 rounded-xl font-black text-xs uppercase hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
                     >
                       Capture
                     </button>
                   </div>
-                  <button onClick={() => { stopCamera(); setAppState(AppState.READY); }} className="w-full text-gray-500 hover:text-white text-[10px] font-black uppercase underline decoration-gray-700">Cancel Enrollment</button>
+                  <div className="p-4 bg-gray-950/40 border border-gray-800 rounded-xl space-y-2 text-left">
+                    <p className="text-[9px] font-black text-gray-500 uppercase tracking-widest">Consent Notice v{CONSENT_VERSION}</p>
+                    <div className="max-h-24 overflow-y-auto space-y-1">
+                      {CONSENT_NOTICE.map((paragraph, i) => (
+                        <p key={i} className="text-[10px] text-gray-400 leading-relaxed">{paragraph}</p>
+                      ))}
+                    </div>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="checkbox" checked={enrollConsent} onChange={(e) => setEnrollConsent(e.target.checked)} disabled={enrollArmed} className="accent-blue-600" />
+                      <span className="text-[10px] font-black text-white uppercase tracking-widest">
+                        {reenrollTarget?.name ?? (enrollName.trim() || 'The employee')} has read and agrees to this notice
+                      </span>
+                    </label>
+                  </div>
+                  {enrollArmed ? (
+                    <div className="flex items-center justify-between gap-4 p-3 bg-blue-600/10 border border-blue-500/20 rounded-xl">
+                      <p className="text-[10px] font-black text-blue-400 uppercase tracking-widest truncate">
+                        Auto-capture armed for {reenrollTarget ? profileLabel(reenrollTarget) : `${enrollName.trim()}${enrollStaffId.trim() ? ` (${normalizeStaffId(enrollStaffId)})` : ''}`}
+                      </p>
+                      <button
+                        onClick={() => setEnrollArmed(false)}
+                        disabled={isProcessing}
+                        className="shrink-0 text-[10px] font-black text-gray-400 hover:text-white uppercase underline decoration-gray-700 disabled:opacity-30"
+                      >
+                        Edit Details
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={armEnrollment}
+                      disabled={isProcessing || !enrollConsent || (!reenrollTarget && !enrollName.trim())}
+                      className="w-full py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border border-blue-500/20 bg-blue-600/10 text-blue-400 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+                    >
+                      Details Complete, Start Auto-Capture
+                    </button>
+                  )}
+                  <label className={`flex items-center justify-center gap-2 w-full py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border border-gray-700 bg-gray-800 text-gray-400 hover:text-white transition-all cursor-pointer ${
+                    isProcessing || !enrollConsent || (!reenrollTarget && !enrollName.trim()) ? 'opacity-30 pointer-events-none' : ''
+                  }`}>
+                    <Upload className="w-3 h-3" />
+                    From Photos / Video
+                    <input
+                      type="file"
+                      accept={MEDIA_ACCEPT}
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        handleRegisterFromMedia(Array.from(e.target.files ?? []));
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  <button onClick={cancelEnrollment} className="w-full text-gray-500 hover:text-white text-[10px] font-black uppercase underline decoration-gray-700">Cancel Enrollment</button>
                 </div>
               ) : (
-                <div className="text-center">
-                  <button 
-                    onClick={() => { stopCamera(); setAppState(AppState.READY); setCurrentResult(null); }}
-                    className="px-6 py-2 bg-rose-600/10 hover:bg-rose-600 text-rose-500 hover:text-white border border-rose-500/20 rounded-xl text-[10px] font-black uppercase transition-all"
+                <div className="space-y-4 text-center">
+                  <div className="grid grid-cols-5 gap-2">
+                    {EVENT_MODES.map(({ mode, label }) => (
+                      <button
+                        key={mode}
+                        onClick={() => setEventMode(mode)}
+                        className={`py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                          eventMode === mode
+                          ? 'bg-blue-600 border-blue-500 text-white'
+                          : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setGroupMode(g => !g)}
+                    className={`w-full py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                      groupMode
+                      ? 'bg-blue-600 border-blue-500 text-white'
+                      : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+                    }`}
                   >
-                    Exit Sensor
+                    Group Entrance {groupMode ? 'On' : 'Off'}
                   </button>
+                  {scanStats && (
+                    <p className="text-[9px] font-bold text-gray-600 uppercase tracking-wider" title={`Capture ${scanStats.last.captureMs.toFixed(1)} ms · detect ${scanStats.last.detectMs.toFixed(1)} ms · match ${scanStats.last.matchMs.toFixed(2)} ms`}>
+                      Scan {scanStats.last.totalMs.toFixed(0)} ms · avg {scanStats.averageMs.toFixed(0)} · p95 {scanStats.p95Ms.toFixed(0)} · match {scanStats.last.matchMs.toFixed(2)} ms
+                    </p>
+                  )}
+                  {!kiosk.enabled && (
+                    <button 
+                      onClick={() => { stopCamera(); setAppState(AppState.READY); setCurrentResults([]); }}
+                      className="px-6 py-2 bg-rose-600/10 hover:bg-rose-600 text-rose-500 hover:text-white border border-rose-500/20 rounded-xl text-[10px] font-black uppercase transition-all"
+                    >
+                      Exit Sensor
+                    </button>
+                  )}
                 </div>
               )}
 
               {/* Status Message Display */}
-              {currentResult && (
-                <div className={`mt-4 p-4 rounded-2xl border-2 animate-in slide-in-from-bottom-2 duration-300 ${
-                  currentResult.clockInStatus === 'success' 
-                  ? 'bg-emerald-500/10 border-emerald-500/30' 
-                  : 'bg-amber-500/10 border-amber-500/30'
-                }`}>
-                  <div className="flex items-center gap-4">
-                    <div className={`p-2 rounded-xl ${currentResult.clockInStatus === 'success' ? 'bg-emerald-500/20' : 'bg-amber-500/20'}`}>
-                      {currentResult.clockInStatus === 'success' ? <CheckCircle2 className="w-6 h-6 text-emerald-500" /> : <ShieldCheck className="w-6 h-6 text-amber-500" />}
-                    </div>
-                    <div>
-                      <h3 className={`text-sm font-black uppercase tracking-tight ${currentResult.clockInStatus === 'success' ? 'text-emerald-400' : 'text-amber-400'}`}>
-                        {currentResult.label}
-                      </h3>
-                      <p className="text-[10px] font-bold text-gray-400 mt-0.5 uppercase tracking-wider">
-                        {currentResult.clockInStatus === 'success' 
-                          ? `Clock-in successful at ${currentResult.time}` 
-                          : 'Already clocked in for today'}
-                      </p>
+              {currentResults.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  {currentResults.map((result, i) => (
+                    <div key={i} className={`p-4 rounded-2xl border-2 animate-in slide-in-from-bottom-2 duration-300 ${
+                      result.clockInStatus === 'success' 
+                      ? 'bg-emerald-500/10 border-emerald-500/30' 
+                      : result.clockInStatus === 'invalid' || result.clockInStatus === 'liveness_failed'
+                      ? 'bg-rose-500/10 border-rose-500/30'
+                      : 'bg-amber-500/10 border-amber-500/30'
+                    }`}>
+                      <div className="flex items-center gap-4">
+                        <div className={`p-2 rounded-xl ${result.clockInStatus === 'success' ? 'bg-emerald-500/20' : result.clockInStatus === 'liveness_failed' ? 'bg-rose-500/20' : 'bg-amber-500/20'}`}>
+                          {result.clockInStatus === 'success'
+                            ? <CheckCircle2 className="w-6 h-6 text-emerald-500" />
+                            : result.clockInStatus === 'liveness_failed'
+                            ? <ShieldAlert className="w-6 h-6 text-rose-500" />
+                            : <ShieldCheck className="w-6 h-6 text-amber-500" />}
+                        </div>
+                        <div>
+                          <h3 className={`text-sm font-black uppercase tracking-tight ${result.clockInStatus === 'success' ? 'text-emerald-400' : result.clockInStatus === 'liveness_failed' ? 'text-rose-400' : 'text-amber-400'}`}>
+                            {result.label}
+                          </h3>
+                          <p className="text-[10px] font-bold text-gray-400 mt-0.5 uppercase tracking-wider">
+                            {result.message}
+                          </p>
+                        </div>
+                        {result.punctuality && (
+                          <div className="ml-auto">
+                            <PunctualityBadge punctuality={result.punctuality} />
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
+                  ))}
                 </div>
               )}
             </div>
@@ -359,153 +1940,339 @@ const App: React.FC = () => {
         </div>
 
         {/* Sidebar: Registry */}
-        <div className="lg:col-span-4 flex flex-col">
-          <div className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden flex flex-col h-full shadow-lg">
-            <div className="p-5 border-b border-gray-800/50 bg-gray-950/40 flex justify-between items-center">
-              <div>
-                <h2 className="text-[11px] font-black text-gray-400 uppercase tracking-widest">Registry</h2>
+        {inAdmin && (
+          <div className="lg:col-span-4 flex flex-col">
+            <RegistryPanel
+              profiles={profiles}
+              today={today}
+              shifts={shifts}
+              onAssignShift={assignShift}
+              onDelete={deleteProfile}
+              onClearAll={clearRegistry}
+              onToggleAdmin={toggleAdminRole}
+              onOpen={openProfile}
+            >
+              <div className="flex items-center gap-3 text-[9px] text-gray-600 font-bold uppercase tracking-tighter">
+                <Info className="w-3 h-3 text-blue-500" />
+                <span>Encrypted biometric vault</span>
+                {!showRotation && (
+                  <button
+                    onClick={() => setShowRotation(true)}
+                    title="Change Passphrase"
+                    className="ml-auto p-1 text-gray-600 hover:text-blue-400 transition-colors"
+                  >
+                    <KeyRound className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              {showRotation && (
+                <PassphraseRotation onRotate={rotatePassphrase} onClose={() => setShowRotation(false)} />
+              )}
+            </RegistryPanel>
+          </div>
+        )}
+      </div>
+
+      {inAdmin && (
+        <>
+          {/* Setup comes first until the device has a site */}
+          {!isDeviceConfigured(device) && deviceSetup}
+
+          {appState === AppState.CALIBRATION && (
+            <CalibrationPanel
+              profiles={activeProfiles}
+              settings={recognitionSettings}
+              onSave={saveRecognitionSettings}
+              onClose={() => setAppState(AppState.ADMIN)}
+            />
+          )}
+
+          {correctionTarget && (
+            <AttendanceCorrection
+              key={'record' in correctionTarget ? correctionTarget.record.id : correctionTarget.mode}
+              target={correctionTarget}
+              profiles={profiles}
+              timekeeping={timekeeping}
+              author={adminAuthor}
+              loadHistory={loadCorrectionHistory}
+              onSubmit={submitCorrection}
+              onClose={() => setCorrectionTarget(null)}
+            />
+          )}
+
+          {/* Attendance Log Table Section */}
+          <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+            <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <History className="w-5 h-5 text-blue-500" />
+                <h2 className="text-sm font-black text-white uppercase tracking-widest">Recent Attendance Logs</h2>
               </div>
-              <div className="flex items-center gap-2">
-                {profiles.length > 0 && (
+              <div className="flex items-center gap-6">
+                <button
+                  onClick={() => setCorrectionTarget({ mode: 'create' })}
+                  className="text-[10px] font-black text-gray-500 hover:text-blue-400 uppercase tracking-widest transition-colors flex items-center gap-2"
+                >
+                  <FilePenLine className="w-3 h-3" />
+                  Add Entry
+                </button>
+                {attendanceLogs.length > 0 && (
                   <button 
-                    onClick={clearRegistry}
-                    title="Clear All Staff"
-                    className="p-1.5 text-gray-600 hover:text-rose-500 transition-colors"
+                    onClick={clearLogs}
+                    className="text-[10px] font-black text-gray-500 hover:text-rose-500 uppercase tracking-widest transition-colors flex items-center gap-2"
                   >
-                    <UserMinus className="w-3 h-3" />
+                    <Trash2 className="w-3 h-3" />
+                    Clear History
                   </button>
                 )}
-                <span className="bg-blue-600 text-white text-[9px] px-2 py-0.5 rounded-lg font-black">{profiles.length}</span>
               </div>
             </div>
-            
-            <div className="flex-1 overflow-y-auto max-h-[420px] p-3 space-y-2 custom-scrollbar">
-              {profiles.length === 0 ? (
-                <div className="text-center py-16 opacity-30">
-                  <UserCheck className="w-8 h-8 text-gray-700 mx-auto mb-2" />
-                  <p className="text-[9px] font-black uppercase">Directory Empty</p>
-                </div>
-              ) : (
-                profiles.map((profile) => (
-                  <div key={profile.id} className="group flex items-center gap-3 bg-gray-800/20 p-3 rounded-xl border border-transparent hover:border-blue-600/30 transition-all">
-                    <div className="w-8 h-8 bg-blue-600/10 border border-blue-500/10 rounded-lg flex items-center justify-center shrink-0">
-                      <span className="text-blue-400 font-black text-xs">{profile.name.charAt(0).toUpperCase()}</span>
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <h4 className="font-bold text-gray-200 text-[11px] truncate uppercase">{profile.name}</h4>
-                      {profile.lastClockIn && (
-                        <p className="text-[8px] text-emerald-500/60 font-black uppercase mt-0.5">Active Today</p>
-                      )}
-                    </div>
-                    <button 
-                      onClick={() => deleteProfile(profile.id)} 
-                      className="p-1.5 text-gray-700 hover:text-rose-500 transition-all hover:bg-rose-500/10 rounded-lg"
-                      title="Delete Biometric"
-                    >
-                      <Trash2 className="w-3 h-3" />
-                    </button>
-                  </div>
-                ))
+
+            <div className="p-4 border-b border-gray-800/50 flex flex-wrap items-center gap-3">
+              <select
+                value={logFilter.profileId}
+                onChange={(e) => updateLogFilter({ profileId: e.target.value })}
+                className="bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 uppercase tracking-widest focus:outline-none focus:border-blue-500"
+              >
+                <option value="">All Staff</option>
+                {profiles.map(p => (
+                  <option key={p.id} value={p.id}>{profileLabel(p)}</option>
+                ))}
+              </select>
+              {sites.length > 0 && (
+                <select
+                  value={logFilter.siteId}
+                  onChange={(e) => updateLogFilter({ siteId: e.target.value })}
+                  className="bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 uppercase tracking-widest focus:outline-none focus:border-blue-500"
+                >
+                  <option value="">All Sites</option>
+                  {sites.map(site => (
+                    <option key={site.id} value={site.id}>{site.name}</option>
+                  ))}
+                </select>
+              )}
+              <input
+                type="date"
+                value={logFilter.from}
+                onChange={(e) => updateLogFilter({ from: e.target.value })}
+                className="bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500"
+              />
+              <span className="text-[10px] font-black text-gray-600 uppercase">to</span>
+              <input
+                type="date"
+                value={logFilter.to}
+                onChange={(e) => updateLogFilter({ to: e.target.value })}
+                className="bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500"
+              />
+              {(logFilter.profileId || logFilter.siteId || logFilter.from || logFilter.to) && (
+                <button
+                  onClick={() => updateLogFilter({ profileId: '', siteId: '', from: '', to: '' })}
+                  className="text-[10px] font-black text-gray-500 hover:text-white uppercase tracking-widest flex items-center gap-1"
+                >
+                  <X className="w-3 h-3" />
+                  Reset
+                </button>
               )}
             </div>
             
-            <div className="p-4 bg-gray-950/50 border-t border-gray-800/50">
-               <div className="flex items-center gap-3 text-[9px] text-gray-600 font-bold uppercase tracking-tighter">
-                 <Info className="w-3 h-3 text-blue-500" />
-                 <span>Local biometric vault</span>
-               </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left border-collapse">
+                <thead>
+                  <tr className="bg-gray-950/50">
+                    <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Staff Member</th>
+                    <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Event</th>
+                    <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Date</th>
+                    <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Time Recorded</th>
+                    <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Site</th>
+                    <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Hours Worked</th>
+                    <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Status</th>
+                    <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {attendanceLogs.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="p-16 text-center">
+                        <div className="opacity-20 flex flex-col items-center">
+                          <ListFilter className="w-10 h-10 mb-3" />
+                          <p className="text-[10px] font-black uppercase tracking-[0.2em]">No records found for the current period</p>
+                        </div>
+                      </td>
+                    </tr>
+                  ) : (
+                    attendanceLogs.map((log) => {
+                      const eventType = getEventType(log);
+                      const session = sessionsByOutLog.get(log.id);
+                      const owner = profileOf(log);
+                      return (
+                      <tr key={log.id} className="group hover:bg-gray-800/30 transition-colors">
+                        <td className="p-5 border-b border-gray-800/50">
+                          <div className="flex items-center gap-3">
+                            <div className="w-8 h-8 bg-blue-600/10 rounded-lg flex items-center justify-center text-[10px] font-black text-blue-400 overflow-hidden">
+                              {owner?.thumbnail
+                                ? <img src={owner.thumbnail} alt="" className="w-full h-full object-cover" />
+                                : log.name.charAt(0).toUpperCase()}
+                            </div>
+                            <div>
+                              <span className="text-xs font-bold text-gray-200 uppercase">{owner?.name ?? log.name}</span>
+                              {owner?.staffId && (
+                                <p className="text-[9px] font-bold text-gray-500 uppercase tracking-wider">{owner.staffId}</p>
+                              )}
+                            </div>
+                          </div>
+                        </td>
+                        <td className="p-5 border-b border-gray-800/50">
+                          <span className={`inline-flex items-center gap-1.5 px-3 py-1 border rounded-full text-[9px] font-black uppercase tracking-wider whitespace-nowrap ${EVENT_BADGES[eventType]}`}>
+                            {eventType === 'IN' ? <LogIn className="w-2.5 h-2.5" /> : eventType === 'OUT' ? <LogOut className="w-2.5 h-2.5" /> : <Coffee className="w-2.5 h-2.5" />}
+                            {EVENT_LABELS[eventType]}
+                          </span>
+                          {isManual(log) && (
+                            <span
+                              title={`${log.author ?? ''}: ${log.reason ?? ''}`}
+                              className="ml-2 inline-flex px-2 py-0.5 border border-amber-500/30 bg-amber-500/10 text-amber-400 rounded-full text-[9px] font-black uppercase tracking-wider"
+                            >
+                              Manual
+                            </span>
+                          )}
+                        </td>
+                        <td className="p-5 border-b border-gray-800/50">
+                          <span className="text-xs font-medium text-gray-400">{formatBusinessDate(log.businessDate)}</span>
+                        </td>
+                        <td className="p-5 border-b border-gray-800/50">
+                          <div className="flex items-center gap-2">
+                            <Clock className="w-3 h-3 text-gray-600" />
+                            <span className="text-xs font-black text-gray-300">{formatTime(log.timestamp, timekeeping)}</span>
+                          </div>
+                        </td>
+                        <td className="p-5 border-b border-gray-800/50" title={log.deviceId ? `Device ${log.deviceId}` : undefined}>
+                          <span className="text-xs font-medium text-gray-400">{log.siteId ? siteName(sites, log.siteId) : '—'}</span>
+                        </td>
+                        <td className="p-5 border-b border-gray-800/50">
+                          <span className="text-xs font-black text-gray-300">{session ? formatDuration(session.workedMs) : '—'}</span>
+                        </td>
+                        <td className="p-5 border-b border-gray-800/50">
+                          <PunctualityBadge punctuality={classifyEvent(log, shiftFor(log), timekeeping, tableLogs)} />
+                        </td>
+                        <td className="p-5 border-b border-gray-800/50 text-right whitespace-nowrap">
+                          <button
+                            onClick={() => setCorrectionTarget({ mode: 'edit', record: log })}
+                            className="p-2 text-gray-700 hover:text-blue-400 hover:bg-blue-500/10 rounded-xl transition-all opacity-0 group-hover:opacity-100"
+                            title="Correct Record"
+                          >
+                            <FilePenLine className="w-4 h-4" />
+                          </button>
+                          <button 
+                            onClick={() => setCorrectionTarget({ mode: 'delete', record: log })}
+                            className="p-2 text-gray-700 hover:text-rose-500 hover:bg-rose-500/10 rounded-xl transition-all opacity-0 group-hover:opacity-100"
+                            title="Delete Record"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
             </div>
-          </div>
-        </div>
-      </div>
+            
+            {attendanceLogs.length > 0 && (
+              <div className="p-4 bg-gray-950/20 text-center space-y-3">
+                 <p className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Showing {attendanceLogs.length} of {logTotal} records</p>
+                 {attendanceLogs.length < logTotal && (
+                   <button
+                     onClick={() => setLogLimit(limit => limit + LOG_PAGE_SIZE)}
+                     className="px-6 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all"
+                   >
+                     Load More
+                   </button>
+                 )}
+              </div>
+            )}
+          </section>
 
-      {/* Attendance Log Table Section */}
-      <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
-        <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
-          <div className="flex items-center gap-3">
-            <History className="w-5 h-5 text-blue-500" />
-            <h2 className="text-sm font-black text-white uppercase tracking-widest">Recent Attendance Logs</h2>
-          </div>
-          {attendanceLogs.length > 0 && (
-            <button 
-              onClick={clearLogs}
-              className="text-[10px] font-black text-gray-500 hover:text-rose-500 uppercase tracking-widest transition-colors flex items-center gap-2"
-            >
-              <Trash2 className="w-3 h-3" />
-              Clear History
-            </button>
+          <AbsenceList absences={absences} timekeeping={timekeeping} />
+
+          <WorkSessions sessions={sessions} timekeeping={timekeeping} />
+
+          <LivenessAlerts failures={livenessFailures} timekeeping={timekeeping} onClear={clearLivenessFailures} />
+
+          <AttemptReview
+            attempts={recognitionAttempts}
+            profiles={profiles}
+            settings={attemptLogSettings}
+            timekeeping={timekeeping}
+            onDismiss={dismissAttempt}
+            onAttach={attachAttempt}
+            onSaveSettings={saveAttemptLogSettings}
+            onClearResolved={clearResolvedAttempts}
+          />
+
+          <CorrectionLog entries={auditEntries} timekeeping={timekeeping} />
+
+          <MediaTestPanel profiles={activeProfiles} settings={recognitionSettings} />
+
+          <DuplicateAudit
+            profiles={profiles}
+            threshold={recognitionSettings.matchThreshold}
+            dismissed={duplicateDismissals}
+            onDismiss={(a, b) => dismissDuplicates([[a.id, b.id]])}
+            onOpen={openProfile}
+          />
+
+          <ShiftsPanel
+            shifts={shifts}
+            assignedCounts={profiles.reduce<Record<string, number>>((counts, p) => {
+              if (p.shiftId) counts[p.shiftId] = (counts[p.shiftId] ?? 0) + 1;
+              return counts;
+            }, {})}
+            onSave={saveShift}
+            onDelete={deleteShift}
+          />
+
+          {isDeviceConfigured(device) && deviceSetup}
+          <TimekeepingPanel settings={timekeeping} onSave={saveTimekeeping} />
+          <KioskPanel settings={kiosk} onSave={saveKioskSettings} />
+          <PrivacyPanel
+            settings={retention}
+            lastRun={retentionRun}
+            erasures={erasures}
+            missingConsent={profiles.filter(p => !hasCurrentConsent(p)).length}
+            timekeeping={timekeeping}
+            onSave={saveRetention}
+            onRunNow={runRetention}
+          />
+
+          {syncSettings && (
+            <SyncPanel
+              settings={syncSettings}
+              status={syncStatus}
+              timekeeping={timekeeping}
+              onSave={saveSyncSettings}
+              onSyncNow={runSync}
+              onRetryRejected={retryRejectedSync}
+            />
           )}
-        </div>
-        
-        <div className="overflow-x-auto">
-          <table className="w-full text-left border-collapse">
-            <thead>
-              <tr className="bg-gray-950/50">
-                <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Staff Member</th>
-                <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Clock-in Date</th>
-                <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Time Recorded</th>
-                <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Auth Status</th>
-                <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50 text-right">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {attendanceLogs.length === 0 ? (
-                <tr>
-                  <td colSpan={5} className="p-16 text-center">
-                    <div className="opacity-20 flex flex-col items-center">
-                      <ListFilter className="w-10 h-10 mb-3" />
-                      <p className="text-[10px] font-black uppercase tracking-[0.2em]">No records found for the current period</p>
-                    </div>
-                  </td>
-                </tr>
-              ) : (
-                attendanceLogs.map((log) => (
-                  <tr key={log.id} className="group hover:bg-gray-800/30 transition-colors">
-                    <td className="p-5 border-b border-gray-800/50">
-                      <div className="flex items-center gap-3">
-                        <div className="w-8 h-8 bg-blue-600/10 rounded-lg flex items-center justify-center text-[10px] font-black text-blue-400">
-                          {log.name.charAt(0).toUpperCase()}
-                        </div>
-                        <span className="text-xs font-bold text-gray-200 uppercase">{log.name}</span>
-                      </div>
-                    </td>
-                    <td className="p-5 border-b border-gray-800/50">
-                      <span className="text-xs font-medium text-gray-400">{log.date}</span>
-                    </td>
-                    <td className="p-5 border-b border-gray-800/50">
-                      <div className="flex items-center gap-2">
-                        <Clock className="w-3 h-3 text-gray-600" />
-                        <span className="text-xs font-black text-gray-300">{log.time}</span>
-                      </div>
-                    </td>
-                    <td className="p-5 border-b border-gray-800/50">
-                      <span className="inline-flex items-center gap-1.5 px-3 py-1 bg-emerald-500/10 border border-emerald-500/20 rounded-full text-[9px] font-black text-emerald-500 uppercase tracking-wider">
-                        <CheckCircle2 className="w-2.5 h-2.5" />
-                        Verified
-                      </span>
-                    </td>
-                    <td className="p-5 border-b border-gray-800/50 text-right">
-                      <button 
-                        onClick={() => deleteLogEntry(log.id)}
-                        className="p-2 text-gray-700 hover:text-rose-500 hover:bg-rose-500/10 rounded-xl transition-all opacity-0 group-hover:opacity-100"
-                        title="Delete Record"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </td>
-                  </tr>
-                ))
-              )}
-            </tbody>
-          </table>
-        </div>
-        
-        {attendanceLogs.length > 0 && (
-          <div className="p-4 bg-gray-950/20 text-center">
-             <p className="text-[9px] text-gray-600 font-bold uppercase tracking-widest">Showing last {attendanceLogs.length} verified scans</p>
-          </div>
-        )}
-      </section>
+
+          <WebhooksPanel
+            subscriptions={webhooks}
+            deliveries={webhookDeliveries}
+            timekeeping={timekeeping}
+            onSave={saveWebhook}
+            onDelete={deleteWebhook}
+            onRetry={retryWebhookDelivery}
+            onRefresh={pumpWebhooks}
+          />
+
+          <DataTransferPanel
+            profiles={profiles}
+            sites={sites}
+            onExportAttendance={exportAttendance}
+            onBackupRegistry={backupRegistry}
+            onRestoreRegistry={restoreRegistry}
+          />
+        </>
+      )}
       
       <style>{`
         .custom-scrollbar::-webkit-scrollbar { width: 3px; }
@@ -0,0 +1,37 @@
+import React from 'react';
+import { UserX } from 'lucide-react';
+import { TimekeepingSettings } from '../types';
+import { Absence } from '../services/shifts';
+import { formatTime } from '../services/timekeeping';
+
+interface AbsenceListProps {
+  absences: Absence[];
+  timekeeping: TimekeepingSettings;
+}
+
+const AbsenceList: React.FC<AbsenceListProps> = ({ absences, timekeeping }) => {
+  if (absences.length === 0) return null;
+
+  return (
+    <section className="bg-gray-900 border border-amber-900/40 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center gap-3">
+        <UserX className="w-5 h-5 text-amber-500" />
+        <h2 className="text-sm font-black text-white uppercase tracking-widest">Absent Today</h2>
+        <span className="bg-amber-600 text-white text-[9px] px-2 py-0.5 rounded-lg font-black">{absences.length}</span>
+      </div>
+
+      <div className="divide-y divide-gray-800/30">
+        {absences.map(({ profile, shift, shiftStart }) => (
+          <div key={profile.id} className="px-6 py-4 flex items-center justify-between">
+            <span className="text-xs font-bold text-gray-200 uppercase">{profile.name}</span>
+            <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+              {shift.name} · due {formatTime(shiftStart, timekeeping)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default AbsenceList;
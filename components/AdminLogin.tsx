@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ScanFace, RefreshCw } from 'lucide-react';
+import { MIN_PIN_LENGTH, MAX_PIN_ATTEMPTS, PIN_LOCKOUT_MS, isValidPin } from '../services/adminAuth';
+
+interface AdminLoginProps {
+  hasPin: boolean;
+  canUseFace: boolean;
+  faceStatus: string | null;
+  onPinLogin: (pin: string) => Promise<boolean>;
+  // Returns an error message, or null once the PIN is saved
+  onCreatePin: (pin: string, passphrase: string) => Promise<string | null>;
+  onFaceLogin: () => void;
+  onCancel: () => void;
+}
+
+const AdminLogin: React.FC<AdminLoginProps> = ({ hasPin, canUseFace, faceStatus, onPinLogin, onCreatePin, onFaceLogin, onCancel }) => {
+  const [pin, setPin] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (Date.now() < lockedUntil) {
+      setError(`Too many attempts. Try again in ${Math.ceil((lockedUntil - Date.now()) / 1000)}s`);
+      return;
+    }
+    if (!isValidPin(pin)) {
+      setError(`PIN must be ${MIN_PIN_LENGTH}-8 digits`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (!hasPin) {
+        setError(await onCreatePin(pin, passphrase));
+      } else if (!(await onPinLogin(pin))) {
+        const attempts = failedAttempts + 1;
+        if (attempts >= MAX_PIN_ATTEMPTS) {
+          setLockedUntil(Date.now() + PIN_LOCKOUT_MS);
+          setFailedAttempts(0);
+          setError(`Too many attempts. Locked for ${PIN_LOCKOUT_MS / 1000}s`);
+        } else {
+          setFailedAttempts(attempts);
+          setError(`Incorrect PIN (${MAX_PIN_ATTEMPTS - attempts} attempts left)`);
+        }
+      }
+    } finally {
+      setIsSubmitting(false);
+      setPin("");
+    }
+  };
+
+  const inputClass = "w-full bg-gray-800 border-2 border-gray-700 rounded-xl px-5 py-3 text-xs font-bold text-white focus:outline-none focus:border-blue-500";
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <div className="flex items-center gap-3">
+        <ShieldCheck className="w-4 h-4 text-blue-500" />
+        <h3 className="text-[11px] font-black text-gray-300 uppercase tracking-widest">
+          {hasPin ? 'Admin Sign-in' : 'Create Admin PIN'}
+        </h3>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="password"
+          inputMode="numeric"
+          autoFocus
+          placeholder="Admin PIN"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting || !pin || (!hasPin && !passphrase)}
+          className="flex items-center gap-2 bg-white text-black px-8 py-3 rounded-xl font-black text-xs uppercase hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+        >
+          {isSubmitting && <RefreshCw className="w-3 h-3 animate-spin" />}
+          {hasPin ? 'Unlock' : 'Save'}
+        </button>
+      </div>
+      {!hasPin && (
+        <input
+          type="password"
+          placeholder="Vault Passphrase (to authorize)"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className={inputClass}
+        />
+      )}
+
+      {error && <p className="text-[10px] font-black text-rose-400 uppercase tracking-wider">{error}</p>}
+      {faceStatus && <p className="text-[10px] font-black text-blue-400 uppercase tracking-wider">{faceStatus}</p>}
+
+      <div className="flex items-center justify-between">
+        {canUseFace ? (
+          <button
+            type="button"
+            onClick={onFaceLogin}
+            className="flex items-center gap-2 text-[10px] font-black text-gray-400 hover:text-white uppercase tracking-widest"
+          >
+            <ScanFace className="w-4 h-4" />
+            Use Admin Face
+          </button>
+        ) : <span />}
+        <button type="button" onClick={onCancel} className="text-gray-500 hover:text-white text-[10px] font-black uppercase underline decoration-gray-700">
+          Back to Kiosk
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default AdminLogin;
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { ScanFace, UserPlus, X, Trash2 } from 'lucide-react';
+import { RecognitionAttempt, TimekeepingSettings, UserFaceProfile } from '../types';
+import { AttemptLogSettings } from '../services/recognitionAttempts';
+import { profileLabel } from '../services/profiles';
+import { formatDateTime } from '../services/timekeeping';
+
+interface AttemptReviewProps {
+  attempts: RecognitionAttempt[];
+  profiles: UserFaceProfile[];
+  settings: AttemptLogSettings;
+  timekeeping: TimekeepingSettings;
+  onDismiss: (attempt: RecognitionAttempt) => Promise<void>;
+  onAttach: (attempt: RecognitionAttempt, profileId: string) => Promise<void>;
+  onSaveSettings: (settings: AttemptLogSettings) => Promise<void>;
+  onClearResolved: () => Promise<void>;
+}
+
+type AttemptView = 'near_miss' | 'pending' | 'all';
+
+const VIEWS: { view: AttemptView; label: string }[] = [
+  { view: 'near_miss', label: 'Near Misses' },
+  { view: 'pending', label: 'Pending' },
+  { view: 'all', label: 'All' }
+];
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-3 py-1.5 text-[10px] font-black text-gray-300 uppercase focus:outline-none focus:border-blue-500";
+const headerCell = "p-4 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50";
+
+const STATUS_STYLES: Record<RecognitionAttempt['status'], string> = {
+  pending: 'text-amber-400',
+  dismissed: 'text-gray-500',
+  attached: 'text-emerald-400'
+};
+
+const inView = (attempt: RecognitionAttempt, view: AttemptView) =>
+  view === 'all' || (attempt.status === 'pending' && (view === 'pending' || attempt.nearMiss));
+
+const AttemptReview: React.FC<AttemptReviewProps> = ({ attempts, profiles, settings, timekeeping, onDismiss, onAttach, onSaveSettings, onClearResolved }) => {
+  const [view, setView] = useState<AttemptView>('near_miss');
+  // Profile chosen per attempt; defaults to the closest candidate
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const visible = attempts.filter(attempt => inView(attempt, view));
+  const nearMisses = attempts.filter(attempt => inView(attempt, 'near_miss')).length;
+  const targetOf = (attempt: RecognitionAttempt) => targets[attempt.id] ?? attempt.candidateId ?? '';
+
+  const run = async (attempt: RecognitionAttempt, action: () => Promise<void>) => {
+    setBusyId(attempt.id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <ScanFace className="w-5 h-5 text-blue-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Unrecognised Faces</h2>
+          {nearMisses > 0 && (
+            <span className="bg-amber-600 text-white text-[9px] px-2 py-0.5 rounded-lg font-black">{nearMisses}</span>
+          )}
+        </div>
+        {attempts.some(attempt => attempt.status !== 'pending') && (
+          <button
+            onClick={onClearResolved}
+            className="text-[10px] font-black text-gray-500 hover:text-rose-500 uppercase tracking-widest transition-colors flex items-center gap-2"
+          >
+            <Trash2 className="w-3 h-3" />
+            Clear Reviewed
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 border-b border-gray-800/50 flex flex-wrap items-center gap-2">
+        {VIEWS.map(({ view: option, label }) => (
+          <button
+            key={option}
+            onClick={() => setView(option)}
+            className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+              view === option
+              ? 'bg-blue-600 border-blue-500 text-white'
+              : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.snapshots}
+            onChange={(e) => onSaveSettings({ ...settings, snapshots: e.target.checked })}
+            className="accent-blue-600"
+          />
+          <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Keep face snapshots</span>
+        </label>
+      </div>
+
+      <div className="overflow-x-auto max-h-[480px] overflow-y-auto custom-scrollbar">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-gray-950/50">
+              <th className={headerCell}>Face</th>
+              <th className={headerCell}>When</th>
+              <th className={headerCell}>Closest Profile</th>
+              <th className={headerCell}>Status</th>
+              <th className={headerCell}></th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="p-8 text-center">
+                  <p className="text-[10px] font-black uppercase tracking-[0.2em] opacity-20">Nothing to review</p>
+                </td>
+              </tr>
+            ) : (
+              visible.map(attempt => (
+                <tr key={attempt.id} className="hover:bg-gray-800/30 transition-colors">
+                  <td className="p-4 border-b border-gray-800/50">
+                    <div className="w-12 h-12 bg-gray-800 rounded-xl overflow-hidden flex items-center justify-center">
+                      {attempt.snapshot
+                        ? <img src={attempt.snapshot} alt="" className="w-full h-full object-cover" />
+                        : <ScanFace className="w-5 h-5 text-gray-600" />}
+                    </div>
+                  </td>
+                  <td className="p-4 border-b border-gray-800/50 text-xs text-gray-400">{formatDateTime(attempt.timestamp, timekeeping)}</td>
+                  <td className="p-4 border-b border-gray-800/50">
+                    <p className="text-xs font-bold text-gray-200 uppercase">{attempt.candidateName ?? 'None'}</p>
+                    <p className="text-[9px] font-bold text-gray-500 uppercase tracking-wider mt-0.5">
+                      {attempt.distance !== null && `Distance ${attempt.distance.toFixed(3)} · `}
+                      {attempt.outcome === 'ambiguous' ? 'Ambiguous' : 'No match'}
+                      {attempt.nearMiss && <span className="text-amber-400"> · Near miss</span>}
+                    </p>
+                  </td>
+                  <td className="p-4 border-b border-gray-800/50">
+                    <span className={`text-[10px] font-black uppercase ${STATUS_STYLES[attempt.status]}`}>{attempt.status}</span>
+                    {attempt.attachedProfileId && (
+                      <p className="text-[9px] font-bold text-gray-500 uppercase mt-0.5">
+                        To {profiles.find(p => p.id === attempt.attachedProfileId)?.name ?? 'removed profile'}
+                      </p>
+                    )}
+                  </td>
+                  <td className="p-4 border-b border-gray-800/50">
+                    {attempt.status === 'pending' && (
+                      <div className="flex items-center justify-end gap-2">
+                        <select
+                          value={targetOf(attempt)}
+                          onChange={(e) => setTargets(prev => ({ ...prev, [attempt.id]: e.target.value }))}
+                          className={inputClass}
+                        >
+                          <option value="">Choose profile</option>
+                          {profiles.map(p => <option key={p.id} value={p.id}>{profileLabel(p)}</option>)}
+                        </select>
+                        <button
+                          onClick={() => run(attempt, () => onAttach(attempt, targetOf(attempt)))}
+                          disabled={!targetOf(attempt) || busyId === attempt.id}
+                          title="Add as a template of the chosen profile"
+                          className="p-1.5 text-gray-500 hover:text-emerald-400 hover:bg-emerald-500/10 rounded-lg transition-all disabled:opacity-30"
+                        >
+                          <UserPlus className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => run(attempt, () => onDismiss(attempt))}
+                          disabled={busyId === attempt.id}
+                          title="Dismiss"
+                          className="p-1.5 text-gray-500 hover:text-rose-500 hover:bg-rose-500/10 rounded-lg transition-all disabled:opacity-30"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default AttemptReview;
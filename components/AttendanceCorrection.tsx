@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { FilePenLine, Save, Trash2, X } from 'lucide-react';
+import { AttendanceAuditEntry, AttendanceEventType, AttendanceRecord, TimekeepingSettings, UserFaceProfile } from '../types';
+import { EVENT_LABELS, getEventType } from '../services/attendance';
+import { validateCorrection } from '../services/corrections';
+import { profileLabel } from '../services/profiles';
+import { calendarDate, formatDateTime, formatTime, isValidTimeOfDay, zonedTimeToTimestamp } from '../services/timekeeping';
+
+export type CorrectionTarget =
+  | { mode: 'create' }
+  | { mode: 'edit' | 'delete'; record: AttendanceRecord }
+  | { mode: 'clear'; count: number };
+
+export interface CorrectionDraft {
+  profileId: string;
+  type: AttendanceEventType;
+  timestamp: number;
+  reason: string;
+}
+
+interface AttendanceCorrectionProps {
+  target: CorrectionTarget;
+  profiles: UserFaceProfile[];
+  timekeeping: TimekeepingSettings;
+  author: string;
+  loadHistory: (recordId: string) => Promise<AttendanceAuditEntry[]>;
+  onSubmit: (draft: CorrectionDraft) => Promise<void>;
+  onClose: () => void;
+}
+
+const TITLES: Record<CorrectionTarget['mode'], string> = {
+  create: 'Add Manual Entry',
+  edit: 'Correct Entry',
+  delete: 'Delete Entry',
+  clear: 'Clear All Logs'
+};
+
+const EVENT_TYPES = Object.keys(EVENT_LABELS) as AttendanceEventType[];
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+const labelClass = "block text-[10px] font-black text-gray-500 uppercase tracking-widest";
+
+const describeRecord = (record: AttendanceRecord, timekeeping: TimekeepingSettings) =>
+  `${EVENT_LABELS[getEventType(record)]} ${formatDateTime(record.timestamp, timekeeping)}`;
+
+const AttendanceCorrection: React.FC<AttendanceCorrectionProps> = ({ target, profiles, timekeeping, author, loadHistory, onSubmit, onClose }) => {
+  const record = 'record' in target ? target.record : undefined;
+  const initialDate = calendarDate(record?.timestamp ?? Date.now(), timekeeping.timeZone);
+  const initialTime = formatTime(record?.timestamp ?? Date.now(), timekeeping);
+  const [profileId, setProfileId] = useState(record?.profileId ?? '');
+  const [type, setType] = useState<AttendanceEventType>(record ? getEventType(record) : 'IN');
+  const [date, setDate] = useState(initialDate);
+  const [time, setTime] = useState(initialTime);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<AttendanceAuditEntry[]>([]);
+
+  useEffect(() => {
+    if (!record) return;
+    let cancelled = false;
+    loadHistory(record.id)
+      .then(entries => { if (!cancelled) setHistory(entries); })
+      .catch(err => console.error("Failed to load correction history", err));
+    return () => { cancelled = true; };
+  }, [record?.id]);
+
+  const editsEvent = target.mode === 'create' || target.mode === 'edit';
+  // Untouched date and time keep the original instant, seconds included
+  const timestamp = record && date === initialDate && time === initialTime
+    ? record.timestamp
+    : isValidTimeOfDay(time) ? zonedTimeToTimestamp(date, time, timekeeping.timeZone) : NaN;
+
+  const submit = async () => {
+    const problem = target.mode === 'create' && !profileId ? 'Choose a staff member'
+      : validateCorrection(reason, editsEvent ? timestamp : Date.now());
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({ profileId, type, timestamp, reason });
+    } catch {
+      setError('Could not save the correction');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <FilePenLine className="w-5 h-5 text-amber-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">{TITLES[target.mode]}</h2>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-500 hover:text-white transition-colors" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {record && (
+          <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+            {record.name} · {describeRecord(record, timekeeping)} · {record.source === 'manual' ? 'Manual' : 'Face verified'}
+          </p>
+        )}
+        {target.mode === 'clear' && (
+          <p className="text-[10px] font-black text-rose-400 uppercase tracking-wider">
+            All {target.count} record(s) will be deleted. They stay in the audit history.
+          </p>
+        )}
+
+        {editsEvent && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <label className="space-y-2">
+              <span className={labelClass}>Staff Member</span>
+              {target.mode === 'create' ? (
+                <select value={profileId} onChange={(e) => setProfileId(e.target.value)} className={`${inputClass} w-full`}>
+                  <option value="">Choose</option>
+                  {profiles.map(p => <option key={p.id} value={p.id}>{profileLabel(p)}</option>)}
+                </select>
+              ) : (
+                <p className="py-2 text-xs font-bold text-gray-200 uppercase">{record!.name}</p>
+              )}
+            </label>
+            <label className="space-y-2">
+              <span className={labelClass}>Event</span>
+              <select value={type} onChange={(e) => setType(e.target.value as AttendanceEventType)} className={`${inputClass} w-full`}>
+                {EVENT_TYPES.map(option => <option key={option} value={option}>{EVENT_LABELS[option]}</option>)}
+              </select>
+            </label>
+            <label className="space-y-2">
+              <span className={labelClass}>Date</span>
+              <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={`${inputClass} w-full`} />
+            </label>
+            <label className="space-y-2">
+              <span className={labelClass}>Time ({timekeeping.timeZone})</span>
+              <input type="time" value={time} onChange={(e) => setTime(e.target.value)} className={`${inputClass} w-full`} />
+            </label>
+          </div>
+        )}
+
+        <label className="block space-y-2">
+          <span className={labelClass}>Reason</span>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Camera offline, confirmed by supervisor"
+            className={`${inputClass} w-full`}
+          />
+        </label>
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">Recorded as {author}</p>
+          <button
+            onClick={submit}
+            disabled={saving}
+            className={editsEvent ? buttonClass : `${buttonClass} hover:bg-rose-600 hover:border-rose-500`}
+          >
+            {editsEvent ? <Save className="w-3 h-3" /> : <Trash2 className="w-3 h-3" />}
+            {editsEvent ? 'Save' : 'Delete'}
+          </button>
+        </div>
+        {error && <p className="text-[10px] font-black text-rose-400 uppercase tracking-wider">{error}</p>}
+
+        {history.length > 0 && (
+          <div className="space-y-2 pt-4 border-t border-gray-800/50">
+            <p className={labelClass}>History</p>
+            {history.map(entry => (
+              <div key={entry.id} className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                <span className="text-gray-300">{formatDateTime(entry.at, timekeeping)}</span>
+                {' · '}{entry.action} by {entry.author}
+                {entry.before && entry.action === 'edit' && ` · ${describeRecord(entry.before, timekeeping)} → ${describeRecord(entry.after, timekeeping)}`}
+                <p className="normal-case text-gray-500 mt-0.5">{entry.reason}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default AttendanceCorrection;
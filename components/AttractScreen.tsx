@@ -0,0 +1,40 @@
+import React, { useEffect, useState } from 'react';
+import { Clock, ScanFace } from 'lucide-react';
+import { TimekeepingSettings } from '../types';
+import { businessDate, formatBusinessDate, formatTime } from '../services/timekeeping';
+
+interface AttractScreenProps {
+  timekeeping: TimekeepingSettings;
+  onWake: () => void;
+}
+
+// Shown over the kiosk while nobody is in front of it; a touch also wakes it
+const AttractScreen: React.FC<AttractScreenProps> = ({ timekeeping, onWake }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div
+      onPointerDown={onWake}
+      className="fixed inset-0 z-50 bg-gray-950 flex flex-col items-center justify-center gap-10 cursor-pointer select-none"
+    >
+      <div className="bg-blue-600 p-4 rounded-3xl shadow-xl shadow-blue-900/20">
+        <Clock className="w-10 h-10 text-white" />
+      </div>
+      <div className="text-center">
+        <p className="text-8xl font-black text-white tabular-nums">{formatTime(now, timekeeping)}</p>
+        <p className="text-gray-500 text-xs font-black uppercase tracking-[0.3em] mt-4">{formatBusinessDate(businessDate(now, timekeeping))}</p>
+      </div>
+      <div className="flex items-center gap-3 text-blue-400 animate-pulse">
+        <ScanFace className="w-5 h-5" />
+        <p className="text-sm font-black uppercase tracking-widest">Step up to the camera to clock in</p>
+      </div>
+    </div>
+  );
+};
+
+export default AttractScreen;
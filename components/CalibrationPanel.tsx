@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { SlidersHorizontal, Save, X, RefreshCw } from 'lucide-react';
+import { RecognitionSettings, UserFaceProfile } from '../types';
+import { buildCalibrationReport, TARGET_FAR } from '../services/calibration';
+import { DEFAULT_RECOGNITION_SETTINGS } from '../services/matching';
+
+interface CalibrationPanelProps {
+  profiles: UserFaceProfile[];
+  settings: RecognitionSettings;
+  onSave: (settings: RecognitionSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+const headerCell = "p-3 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50";
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ profiles, settings, onSave, onClose }) => {
+  const report = useMemo(() => buildCalibrationReport(profiles), [profiles]);
+  const [threshold, setThreshold] = useState(settings.matchThreshold);
+  const [minMargin, setMinMargin] = useState(settings.minMargin);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  const peak = Math.max(1, ...report.histogram.map(bin => Math.max(bin.genuine, bin.impostor)));
+  const valid = threshold > 0 && threshold < 1 && minMargin >= 0 && minMargin < threshold;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave({ matchThreshold: threshold, minMargin });
+      setMessage({ tone: 'ok', text: 'Recognition settings saved' });
+    } catch {
+      setMessage({ tone: 'error', text: 'Could not save settings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <SlidersHorizontal className="w-5 h-5 text-blue-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Match Calibration</h2>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-500 hover:text-white transition-colors" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+          {report.genuine.length} genuine / {report.impostor.length} impostor comparisons from {profiles.length} profile(s)
+        </p>
+
+        {report.genuine.length === 0 || report.impostor.length === 0 ? (
+          <p className="text-[10px] font-black text-amber-400 uppercase tracking-wider">
+            Enroll at least two people with multi-sample capture to calibrate
+          </p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-end gap-1 h-32">
+                {report.histogram.map(bin => (
+                  <div key={bin.from} className="flex-1 flex items-end gap-px h-full" title={`${bin.from.toFixed(2)}–${bin.to.toFixed(2)}: ${bin.genuine} genuine, ${bin.impostor} impostor`}>
+                    <div className="flex-1 bg-emerald-500/70 rounded-t" style={{ height: `${(bin.genuine / peak) * 100}%` }} />
+                    <div className="flex-1 bg-rose-500/70 rounded-t" style={{ height: `${(bin.impostor / peak) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-[9px] font-black text-gray-600 uppercase">
+                <span>0.00</span>
+                <span className="flex gap-4">
+                  <span className="text-emerald-400">Genuine</span>
+                  <span className="text-rose-400">Impostor</span>
+                </span>
+                <span>1.00</span>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-left border-collapse">
+                <thead>
+                  <tr className="bg-gray-950/50">
+                    <th className={headerCell}>Threshold</th>
+                    <th className={headerCell}>False Accept</th>
+                    <th className={headerCell}>False Reject</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-800/30">
+                  {report.rates.map(r => (
+                    <tr key={r.threshold} className={r.threshold === report.recommendedThreshold ? 'bg-blue-600/10' : ''}>
+                      <td className="p-3 text-xs font-black text-white">{r.threshold.toFixed(2)}</td>
+                      <td className={`p-3 text-xs font-bold ${r.far > TARGET_FAR ? 'text-rose-400' : 'text-gray-400'}`}>{percent(r.far)}</td>
+                      <td className="p-3 text-xs font-bold text-gray-400">{percent(r.frr)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <p className="text-[10px] font-black text-gray-400 uppercase tracking-wider">
+              {report.recommendedThreshold !== undefined
+                ? `Recommended: ${report.recommendedThreshold.toFixed(2)} (FAR ≤ ${percent(TARGET_FAR)})`
+                : `No candidate keeps FAR under ${percent(TARGET_FAR)}`}
+              {report.equalErrorRate && ` · EER ≈ ${percent((report.equalErrorRate.far + report.equalErrorRate.frr) / 2)} at ${report.equalErrorRate.threshold.toFixed(2)}`}
+            </p>
+          </>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="space-y-1">
+            <span className="block text-[10px] font-black text-gray-500 uppercase tracking-widest">Match Threshold</span>
+            <input type="number" step={0.01} min={0.1} max={0.9} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} className={`${inputClass} w-full`} />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-[10px] font-black text-gray-500 uppercase tracking-widest">Min Margin</span>
+            <input type="number" step={0.01} min={0} max={0.3} value={minMargin} onChange={(e) => setMinMargin(Number(e.target.value))} className={`${inputClass} w-full`} />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {report.recommendedThreshold !== undefined && (
+            <button onClick={() => setThreshold(report.recommendedThreshold!)} className={buttonClass}>
+              Use Recommended
+            </button>
+          )}
+          <button
+            onClick={() => { setThreshold(DEFAULT_RECOGNITION_SETTINGS.matchThreshold); setMinMargin(DEFAULT_RECOGNITION_SETTINGS.minMargin); }}
+            className={buttonClass}
+          >
+            Defaults
+          </button>
+          <button onClick={save} disabled={!valid || saving} className={`${buttonClass} ml-auto`}>
+            {saving ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+            Save
+          </button>
+        </div>
+
+        {message && (
+          <p className={`text-[10px] font-black uppercase tracking-wider ${message.tone === 'ok' ? 'text-emerald-400' : 'text-rose-400'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,33 @@
+import React, { useEffect, useState } from 'react';
+import { Wifi, WifiOff } from 'lucide-react';
+
+// Attendance keeps working offline; this only tells staff whether the network is up
+const ConnectivityBadge: React.FC = () => {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return (
+    <span
+      className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-[10px] font-black uppercase tracking-widest ${
+        isOnline
+        ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-500'
+        : 'bg-amber-500/10 border-amber-500/20 text-amber-500'
+      }`}
+      title={isOnline ? 'Network available' : 'Working offline'}
+    >
+      {isOnline ? <Wifi className="w-3 h-3" /> : <WifiOff className="w-3 h-3" />}
+      {isOnline ? 'Online' : 'Offline'}
+    </span>
+  );
+};
+
+export default ConnectivityBadge;
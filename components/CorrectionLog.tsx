@@ -0,0 +1,71 @@
+import React from 'react';
+import { FilePenLine } from 'lucide-react';
+import { AttendanceAuditAction, AttendanceAuditEntry, TimekeepingSettings } from '../types';
+import { EVENT_LABELS, getEventType } from '../services/attendance';
+import { formatDateTime } from '../services/timekeeping';
+
+interface CorrectionLogProps {
+  entries: AttendanceAuditEntry[]; // Newest first
+  timekeeping: TimekeepingSettings;
+}
+
+const headerCell = "p-4 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50";
+
+const ACTION_STYLES: Record<AttendanceAuditAction, string> = {
+  create: 'text-emerald-400',
+  edit: 'text-amber-400',
+  delete: 'text-rose-400'
+};
+
+// Read-only view of the audit history; deleted records remain visible here
+const CorrectionLog: React.FC<CorrectionLogProps> = ({ entries, timekeeping }) => (
+  <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+    <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center gap-3">
+      <FilePenLine className="w-5 h-5 text-blue-500" />
+      <h2 className="text-sm font-black text-white uppercase tracking-widest">Correction History</h2>
+    </div>
+
+    <div className="overflow-x-auto max-h-[400px] overflow-y-auto custom-scrollbar">
+      <table className="w-full text-left border-collapse">
+        <thead>
+          <tr className="bg-gray-950/50">
+            <th className={headerCell}>When</th>
+            <th className={headerCell}>Staff</th>
+            <th className={headerCell}>Change</th>
+            <th className={headerCell}>By</th>
+            <th className={headerCell}>Reason</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.length === 0 ? (
+            <tr>
+              <td colSpan={5} className="p-8 text-center">
+                <p className="text-[10px] font-black uppercase tracking-[0.2em] opacity-20">No corrections yet</p>
+              </td>
+            </tr>
+          ) : (
+            entries.map(entry => (
+              <tr key={entry.id} className="hover:bg-gray-800/30 transition-colors">
+                <td className="p-4 border-b border-gray-800/50 text-xs text-gray-400 whitespace-nowrap">{formatDateTime(entry.at, timekeeping)}</td>
+                <td className="p-4 border-b border-gray-800/50 text-xs font-bold text-gray-200 uppercase">{entry.after.name}</td>
+                <td className="p-4 border-b border-gray-800/50">
+                  <span className={`text-[10px] font-black uppercase ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                  <p className="text-[9px] font-bold text-gray-500 uppercase tracking-wider mt-0.5">
+                    {entry.before && entry.action === 'edit' && (
+                      `${EVENT_LABELS[getEventType(entry.before)]} ${formatDateTime(entry.before.timestamp, timekeeping)} → `
+                    )}
+                    {EVENT_LABELS[getEventType(entry.after)]} {formatDateTime(entry.after.timestamp, timekeeping)}
+                  </p>
+                </td>
+                <td className="p-4 border-b border-gray-800/50 text-xs text-gray-400">{entry.author}</td>
+                <td className="p-4 border-b border-gray-800/50 text-xs text-gray-400">{entry.reason}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  </section>
+);
+
+export default CorrectionLog;
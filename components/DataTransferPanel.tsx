@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Download, Upload, FileSpreadsheet, FileJson, DatabaseBackup, RefreshCw } from 'lucide-react';
+import { Site, UserFaceProfile } from '../types';
+import { RestoreMode } from '../services/registryBackup';
+import { profileLabel } from '../services/profiles';
+
+export interface AttendanceExportFilter {
+  profileId: string; // Empty for everyone
+  siteId: string; // Empty for every site
+  from: string; // YYYY-MM-DD, empty for open-ended
+  to: string;
+}
+
+export interface RestoreSummary {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+interface DataTransferPanelProps {
+  profiles: UserFaceProfile[];
+  sites: Site[];
+  onExportAttendance: (format: 'csv' | 'json', filter: AttendanceExportFilter) => Promise<number>;
+  onBackupRegistry: (passphrase: string) => Promise<void>;
+  onRestoreRegistry: (content: string, passphrase: string, mode: RestoreMode) => Promise<RestoreSummary>;
+}
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+
+const DataTransferPanel: React.FC<DataTransferPanelProps> = ({ profiles, sites, onExportAttendance, onBackupRegistry, onRestoreRegistry }) => {
+  const [filter, setFilter] = useState<AttendanceExportFilter>({ profileId: '', siteId: '', from: '', to: '' });
+  const [backupPassphrase, setBackupPassphrase] = useState("");
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState("");
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  const run = async (task: string, action: () => Promise<string>) => {
+    setBusy(task);
+    setMessage(null);
+    try {
+      setMessage({ tone: 'ok', text: await action() });
+    } catch (err) {
+      setMessage({ tone: 'error', text: err instanceof Error ? err.message : 'Operation failed' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const exportAttendance = (format: 'csv' | 'json') =>
+    run(format, async () => {
+      const count = await onExportAttendance(format, filter);
+      return `Exported ${count} record(s) as ${format.toUpperCase()}`;
+    });
+
+  const backup = () =>
+    run('backup', async () => {
+      await onBackupRegistry(backupPassphrase);
+      setBackupPassphrase("");
+      return 'Registry backup downloaded';
+    });
+
+  const restore = () =>
+    run('restore', async () => {
+      if (restoreMode === 'replace' && !confirm("Replace the registry with the backup contents? Profiles missing from the backup are deleted here and, once synced, from the central server.")) {
+        return 'Restore cancelled';
+      }
+      const summary = await onRestoreRegistry(await restoreFile!.text(), restorePassphrase, restoreMode);
+      setRestorePassphrase("");
+      return `Restored: ${summary.added} added, ${summary.updated} updated, ${summary.removed} removed`;
+    });
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center gap-3">
+        <DatabaseBackup className="w-5 h-5 text-blue-500" />
+        <h2 className="text-sm font-black text-white uppercase tracking-widest">Export &amp; Backup</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-6">
+        <div className="space-y-3">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Attendance Export</h3>
+          <select value={filter.profileId} onChange={(e) => setFilter({ ...filter, profileId: e.target.value })} className={`${inputClass} w-full uppercase tracking-widest`}>
+            <option value="">All Staff</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{profileLabel(p)}</option>)}
+          </select>
+          {sites.length > 0 && (
+            <select value={filter.siteId} onChange={(e) => setFilter({ ...filter, siteId: e.target.value })} className={`${inputClass} w-full uppercase tracking-widest`}>
+              <option value="">All Sites</option>
+              {sites.map(site => <option key={site.id} value={site.id}>{site.name}</option>)}
+            </select>
+          )}
+          <div className="flex items-center gap-2">
+            <input type="date" value={filter.from} onChange={(e) => setFilter({ ...filter, from: e.target.value })} className={`${inputClass} flex-1`} />
+            <span className="text-[10px] font-black text-gray-600 uppercase">to</span>
+            <input type="date" value={filter.to} onChange={(e) => setFilter({ ...filter, to: e.target.value })} className={`${inputClass} flex-1`} />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => exportAttendance('csv')} disabled={!!busy} className={buttonClass}>
+              <FileSpreadsheet className="w-3 h-3" />
+              CSV
+            </button>
+            <button onClick={() => exportAttendance('json')} disabled={!!busy} className={buttonClass}>
+              <FileJson className="w-3 h-3" />
+              JSON
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-[10px] font-black text-gray-500 uppercase tracking-widest">Registry Backup</h3>
+          <div className="flex gap-2">
+            <input type="password" placeholder="Backup Passphrase" value={backupPassphrase} onChange={(e) => setBackupPassphrase(e.target.value)} className={`${inputClass} flex-1`} />
+            <button onClick={backup} disabled={!!busy || backupPassphrase.length < 8} className={buttonClass}>
+              {busy === 'backup' ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+              Backup
+            </button>
+          </div>
+
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => setRestoreFile(e.target.files?.[0] ?? null)}
+            className="w-full text-[10px] font-bold text-gray-400 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-800 file:text-gray-300 file:font-black file:uppercase"
+          />
+          <div className="flex gap-2">
+            <input type="password" placeholder="Backup Passphrase" value={restorePassphrase} onChange={(e) => setRestorePassphrase(e.target.value)} className={`${inputClass} flex-1`} />
+            <select value={restoreMode} onChange={(e) => setRestoreMode(e.target.value as RestoreMode)} className={`${inputClass} uppercase`}>
+              <option value="merge">Merge</option>
+              <option value="replace">Replace</option>
+            </select>
+          </div>
+          <button onClick={restore} disabled={!!busy || !restoreFile || !restorePassphrase} className={`${buttonClass} w-full`}>
+            {busy === 'restore' ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+            Restore Registry
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <p className={`px-6 pb-6 text-[10px] font-black uppercase tracking-wider ${message.tone === 'ok' ? 'text-emerald-400' : 'text-rose-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default DataTransferPanel;
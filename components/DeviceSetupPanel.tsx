@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Building2, Save, RefreshCw } from 'lucide-react';
+import { Site, TimekeepingSettings, UserFaceProfile } from '../types';
+import { DeviceSettings, isDeviceConfigured, normalizeSiteId, staffAllowedAt } from '../services/sites';
+import { isActiveProfile } from '../services/profiles';
+import { isValidTimeZone } from '../services/timekeeping';
+
+interface DeviceSetupPanelProps {
+  device: DeviceSettings;
+  deviceId: string;
+  sites: Site[];
+  profiles: UserFaceProfile[];
+  timekeeping: TimekeepingSettings;
+  matchThreshold: number;
+  onSave: (device: DeviceSettings, site: Site) => Promise<void>;
+}
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+const labelClass = "block text-[10px] font-black text-gray-500 uppercase tracking-widest";
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+const NEW_SITE = '__new';
+
+const DeviceSetupPanel: React.FC<DeviceSetupPanelProps> = ({ device, deviceId, sites, profiles, timekeeping, matchThreshold, onSave }) => {
+  const current = sites.find(site => site.id === device.siteId);
+  const [draft, setDraft] = useState({
+    deviceName: device.name,
+    siteId: device.siteId,
+    siteName: current?.name ?? '',
+    timeZone: timekeeping.timeZone,
+    matchThreshold
+  });
+  // Typing a code for a site this device has not seen yet
+  const [adding, setAdding] = useState(sites.length === 0);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  const code = normalizeSiteId(draft.siteId);
+  const taken = adding ? sites.find(site => site.id === code) : undefined;
+  const valid = code.length > 0 && draft.siteName.trim().length > 0 && !taken
+    && isValidTimeZone(draft.timeZone) && draft.matchThreshold >= 0.1 && draft.matchThreshold <= 0.9;
+  const active = profiles.filter(isActiveProfile).length;
+
+  const pickSite = (id: string) => {
+    if (id === NEW_SITE) {
+      setAdding(true);
+      setDraft({ ...draft, siteId: '', siteName: '' });
+      return;
+    }
+    const site = sites.find(s => s.id === id)!;
+    setAdding(false);
+    // A site's own settings win over whatever this device had before
+    setDraft({
+      ...draft,
+      siteId: site.id,
+      siteName: site.name,
+      timeZone: site.timeZone ?? draft.timeZone,
+      matchThreshold: site.matchThreshold ?? draft.matchThreshold
+    });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave(
+        { name: draft.deviceName.trim(), siteId: code },
+        { id: code, name: draft.siteName.trim(), timeZone: draft.timeZone, matchThreshold: draft.matchThreshold }
+      );
+      setAdding(false);
+      setDraft({ ...draft, siteId: code });
+      setMessage({ tone: 'ok', text: 'Device set up' });
+    } catch {
+      setMessage({ tone: 'error', text: 'Could not save device setup' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center gap-3">
+        <Building2 className="w-5 h-5 text-blue-500" />
+        <h2 className="text-sm font-black text-white uppercase tracking-widest">Device &amp; Site</h2>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {!isDeviceConfigured(device) && (
+          <p className="text-[10px] font-black text-amber-400 uppercase tracking-wider">
+            This device is not set up for a site. Its records carry no site and site restrictions are not enforced.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="space-y-1">
+            <span className={labelClass}>Device Name</span>
+            <input
+              type="text"
+              placeholder="e.g. Main Entrance"
+              value={draft.deviceName}
+              onChange={(e) => setDraft({ ...draft, deviceName: e.target.value })}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+          <div className="space-y-1">
+            <span className={labelClass}>Device ID</span>
+            <p className="px-4 py-2 text-[10px] font-black text-gray-500 truncate">{deviceId}</p>
+          </div>
+
+          <label className="space-y-1">
+            <span className={labelClass}>Site</span>
+            <select value={adding ? NEW_SITE : draft.siteId} onChange={(e) => pickSite(e.target.value)} className={`${inputClass} w-full uppercase tracking-widest`}>
+              {!adding && !draft.siteId && <option value="">Choose a site</option>}
+              {sites.map(site => <option key={site.id} value={site.id}>{site.name} ({site.id})</option>)}
+              <option value={NEW_SITE}>New Site…</option>
+            </select>
+          </label>
+          {adding ? (
+            <label className="space-y-1">
+              <span className={labelClass}>Site Code</span>
+              <input
+                type="text"
+                placeholder="e.g. KL-HQ"
+                value={draft.siteId}
+                onChange={(e) => setDraft({ ...draft, siteId: e.target.value })}
+                className={`${inputClass} w-full uppercase`}
+              />
+              {taken && (
+                <span className="block text-[9px] font-black text-rose-400 uppercase tracking-wider">Already used by {taken.name}</span>
+              )}
+            </label>
+          ) : <div />}
+
+          <label className="space-y-1">
+            <span className={labelClass}>Site Name</span>
+            <input type="text" value={draft.siteName} onChange={(e) => setDraft({ ...draft, siteName: e.target.value })} className={`${inputClass} w-full`} />
+          </label>
+          <label className="space-y-1">
+            <span className={labelClass}>Site Timezone</span>
+            <select value={draft.timeZone} onChange={(e) => setDraft({ ...draft, timeZone: e.target.value })} className={`${inputClass} w-full`}>
+              {!TIME_ZONES.includes(draft.timeZone) && <option value={draft.timeZone}>{draft.timeZone}</option>}
+              {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className={labelClass}>Match Threshold</span>
+            <input
+              type="number"
+              step={0.01}
+              min={0.1}
+              max={0.9}
+              value={draft.matchThreshold}
+              onChange={(e) => setDraft({ ...draft, matchThreshold: Number(e.target.value) })}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+        </div>
+
+        <p className="text-[10px] font-bold text-gray-600 uppercase tracking-wider">
+          Every device at a site uses the same code. Records from this device are stamped with its ID and site.
+          The site's timezone and threshold are shared with every device there, and later changes reach them on their next sync.
+          {code && ` ${staffAllowedAt(profiles, code).length} of ${active} active staff may clock in at this site.`}
+        </p>
+
+        <div className="flex items-center gap-4">
+          <button onClick={save} disabled={!valid || saving} className={buttonClass}>
+            {saving ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+            Save
+          </button>
+          {message && (
+            <p className={`text-[10px] font-black uppercase tracking-wider ${message.tone === 'ok' ? 'text-emerald-400' : 'text-rose-400'}`}>
+              {message.text}
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default DeviceSetupPanel;
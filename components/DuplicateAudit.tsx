@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Users, Search, Check } from 'lucide-react';
+import { UserFaceProfile } from '../types';
+import { DuplicatePair, auditRegistry, pairKey } from '../services/duplicates';
+import { profileLabel } from '../services/profiles';
+
+interface DuplicateAuditProps {
+  profiles: UserFaceProfile[];
+  threshold: number;
+  dismissed: string[]; // Pair keys confirmed as different people
+  onDismiss: (a: UserFaceProfile, b: UserFaceProfile) => Promise<void>;
+  onOpen: (profile: UserFaceProfile) => void;
+}
+
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+
+const Avatar: React.FC<{ profile: UserFaceProfile }> = ({ profile }) => (
+  <div className="w-8 h-8 bg-blue-600/10 border border-blue-500/10 rounded-lg flex items-center justify-center shrink-0 overflow-hidden">
+    {profile.thumbnail
+      ? <img src={profile.thumbnail} alt="" className="w-full h-full object-cover" />
+      : <span className="text-blue-400 font-black text-xs">{profile.name.charAt(0).toUpperCase()}</span>}
+  </div>
+);
+
+const DuplicateAudit: React.FC<DuplicateAuditProps> = ({ profiles, threshold, dismissed, onDismiss, onOpen }) => {
+  // Null until the audit has been run
+  const [pairs, setPairs] = useState<DuplicatePair[] | null>(null);
+
+  const visible = pairs?.filter(pair => !dismissed.includes(pairKey(pair.a.id, pair.b.id))) ?? null;
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Users className="w-5 h-5 text-blue-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Duplicate Audit</h2>
+        </div>
+        <button onClick={() => setPairs(auditRegistry(profiles, threshold, dismissed))} disabled={profiles.length < 2} className={buttonClass}>
+          <Search className="w-3 h-3" />
+          {pairs ? 'Run Again' : 'Run Audit'}
+        </button>
+      </div>
+
+      {visible === null ? (
+        <p className="p-6 text-[10px] font-black text-gray-600 uppercase tracking-widest">
+          Compares every enrolled face against the others to find people registered more than once.
+        </p>
+      ) : visible.length === 0 ? (
+        <p className="p-6 text-[10px] font-black text-emerald-400 uppercase tracking-widest">
+          No likely duplicates among {profiles.length} profiles
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-800/30">
+          {visible.map(({ a, b, distance }) => (
+            <div key={pairKey(a.id, b.id)} className="px-6 py-4 flex flex-wrap items-center gap-4">
+              {[a, b].map(profile => (
+                <button key={profile.id} onClick={() => onOpen(profile)} className="flex items-center gap-3 min-w-0 text-left hover:text-blue-400">
+                  <Avatar profile={profile} />
+                  <span className="text-xs font-bold text-gray-200 uppercase truncate">{profileLabel(profile)}</span>
+                </button>
+              ))}
+              <span className="text-[10px] font-black text-amber-400 uppercase tracking-wider">Distance {distance.toFixed(3)}</span>
+              <button onClick={() => onDismiss(a, b)} className={`${buttonClass} ml-auto`}>
+                <Check className="w-3 h-3" />
+                Different People
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DuplicateAudit;
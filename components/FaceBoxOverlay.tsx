@@ -0,0 +1,60 @@
+import React from 'react';
+import { RecognitionResult } from '../types';
+
+interface FaceBoxOverlayProps {
+  video: HTMLVideoElement | null;
+  results: RecognitionResult[];
+}
+
+const STATUS_COLORS: Record<NonNullable<RecognitionResult['clockInStatus']>, string> = {
+  success: 'border-emerald-400 bg-emerald-500',
+  already: 'border-amber-400 bg-amber-500',
+  invalid: 'border-rose-400 bg-rose-500',
+  liveness_failed: 'border-rose-400 bg-rose-500',
+  ambiguous: 'border-amber-400 bg-amber-500',
+  none: 'border-gray-400 bg-gray-600'
+};
+
+// Maps video frame pixels onto the element, through the same scale and crop as object-cover
+export const coverTransform = (video: HTMLVideoElement) => {
+  const scale = Math.max(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight);
+  return {
+    scale,
+    offsetX: (video.clientWidth - video.videoWidth * scale) / 2,
+    offsetY: (video.clientHeight - video.videoHeight * scale) / 2
+  };
+};
+
+// Labeled boxes drawn over the viewfinder for the latest recognition results
+const FaceBoxOverlay: React.FC<FaceBoxOverlayProps> = ({ video, results }) => {
+  if (!video || !video.videoWidth || results.length === 0) return null;
+
+  const { scale, offsetX, offsetY } = coverTransform(video);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {results.filter(result => result.box).map((result, i) => {
+        const box = result.box!;
+        const [border, background] = STATUS_COLORS[result.clockInStatus ?? 'none'].split(' ');
+        return (
+          <div
+            key={i}
+            className={`absolute border-2 rounded-xl ${border}`}
+            style={{
+              left: offsetX + box.x * scale,
+              top: offsetY + box.y * scale,
+              width: box.width * scale,
+              height: box.height * scale
+            }}
+          >
+            <span className={`absolute -top-6 left-0 px-2 py-0.5 rounded-md text-[9px] font-black text-white uppercase tracking-widest whitespace-nowrap ${background}`}>
+              {result.label}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FaceBoxOverlay;
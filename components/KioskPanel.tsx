@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { MonitorSmartphone, Save, RefreshCw, Volume2 } from 'lucide-react';
+import { FeedbackMode, KioskSettings, listCameras } from '../services/kiosk';
+import { playFeedback } from '../services/feedback';
+
+interface KioskPanelProps {
+  settings: KioskSettings;
+  onSave: (settings: KioskSettings) => Promise<void>;
+}
+
+const FEEDBACK_MODES: { mode: FeedbackMode; label: string }[] = [
+  { mode: 'off', label: 'Silent' },
+  { mode: 'chime', label: 'Chime' },
+  { mode: 'speech', label: 'Spoken' }
+];
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+const labelClass = "block text-[10px] font-black text-gray-500 uppercase tracking-widest";
+
+const KioskPanel: React.FC<KioskPanelProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState(settings);
+  const [cameras, setCameras] = useState<{ id: string; label: string }[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  const refreshCameras = () => {
+    listCameras().then(setCameras).catch(err => console.error("Could not list cameras", err));
+  };
+  useEffect(refreshCameras, []);
+
+  const update = (patch: Partial<KioskSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+  const valid = Number.isInteger(draft.idleAfterSeconds) && draft.idleAfterSeconds >= 0;
+  const changed = (Object.keys(draft) as (keyof KioskSettings)[]).some(key => draft[key] !== settings[key]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft);
+      setMessage({ tone: 'ok', text: 'Kiosk settings saved' });
+    } catch {
+      setMessage({ tone: 'error', text: 'Could not save settings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggle = (key: 'enabled' | 'fullscreen' | 'wakeLock', label: string) => (
+    <label className="flex items-center gap-2 cursor-pointer">
+      <input type="checkbox" checked={draft[key]} onChange={(e) => update({ [key]: e.target.checked })} className="accent-blue-600" />
+      <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{label}</span>
+    </label>
+  );
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center gap-3">
+        <MonitorSmartphone className="w-5 h-5 text-blue-500" />
+        <h2 className="text-sm font-black text-white uppercase tracking-widest">Kiosk</h2>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="space-y-1">
+            <span className={labelClass}>Camera</span>
+            <div className="flex gap-2">
+              <select value={draft.cameraId} onChange={(e) => update({ cameraId: e.target.value })} className={`${inputClass} flex-1 min-w-0`}>
+                <option value="">Default front camera</option>
+                {draft.cameraId && !cameras.some(c => c.id === draft.cameraId) && (
+                  <option value={draft.cameraId}>Saved camera (not connected)</option>
+                )}
+                {cameras.map(camera => <option key={camera.id} value={camera.id}>{camera.label}</option>)}
+              </select>
+              <button onClick={refreshCameras} title="Refresh camera list" className={buttonClass}>
+                <RefreshCw className="w-3 h-3" />
+              </button>
+            </div>
+          </label>
+          <label className="space-y-1">
+            <span className={labelClass}>Audio Feedback</span>
+            <div className="flex gap-2">
+              <select value={draft.feedback} onChange={(e) => update({ feedback: e.target.value as FeedbackMode })} className={`${inputClass} flex-1`}>
+                {FEEDBACK_MODES.map(({ mode, label }) => <option key={mode} value={mode}>{label}</option>)}
+              </select>
+              <button
+                onClick={() => playFeedback({ cue: 'success', text: 'Clock In, test' }, draft.feedback)}
+                disabled={draft.feedback === 'off'}
+                title="Play a sample"
+                className={buttonClass}
+              >
+                <Volume2 className="w-3 h-3" />
+              </button>
+            </div>
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-6">
+          {toggle('enabled', 'Kiosk mode')}
+          {toggle('fullscreen', 'Fullscreen')}
+          {toggle('wakeLock', 'Keep screen on')}
+          <label className="flex items-center gap-2">
+            <span className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Idle screen after</span>
+            <input
+              type="number"
+              min={0}
+              value={draft.idleAfterSeconds}
+              onChange={(e) => update({ idleAfterSeconds: Number(e.target.value) })}
+              className={`${inputClass} w-20`}
+            />
+            <span className="text-[10px] font-black text-gray-500 uppercase tracking-widest">s</span>
+          </label>
+        </div>
+
+        <p className="text-[10px] font-bold text-gray-600 uppercase tracking-wider">
+          In kiosk mode the scanner starts by itself and restarts the camera if it drops out.
+          Fullscreen, screen wake and the idle screen only apply in kiosk mode; 0 s disables the idle screen.
+        </p>
+
+        <div className="flex items-center gap-4">
+          <button onClick={save} disabled={!valid || !changed || saving} className={buttonClass}>
+            {saving ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+            Save
+          </button>
+          {message && (
+            <p className={`text-[10px] font-black uppercase tracking-wider ${message.tone === 'ok' ? 'text-emerald-400' : 'text-rose-400'}`}>
+              {message.text}
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default KioskPanel;
@@ -0,0 +1,63 @@
+import React, { useEffect, useRef } from 'react';
+import { FaceSample } from '../types';
+import { Guidance } from '../services/captureGuidance';
+import { coverTransform } from './FaceBoxOverlay';
+
+interface LiveFaceOverlayProps {
+  video: HTMLVideoElement | null;
+  faces: FaceSample[];
+  guidance: Guidance | null;
+  showMessage: boolean; // Off while another banner covers the bottom of the viewfinder
+}
+
+const READY_COLOR = '#34d399'; // emerald-400
+const GUIDE_COLOR = '#fbbf24'; // amber-400
+const LANDMARK_RADIUS = 1.5;
+
+// Live detection box and landmarks on a canvas over the viewfinder, with the current guidance
+const LiveFaceOverlay: React.FC<LiveFaceOverlayProps> = ({ video, faces, guidance, showMessage }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !video) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = video.clientWidth * ratio;
+    canvas.height = video.clientHeight * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, video.clientWidth, video.clientHeight);
+    if (!video.videoWidth) return;
+
+    const { scale, offsetX, offsetY } = coverTransform(video);
+    const color = guidance?.ready ? READY_COLOR : GUIDE_COLOR;
+    context.strokeStyle = color;
+    context.fillStyle = color;
+    context.lineWidth = 2;
+    for (const { box, landmarks } of faces) {
+      context.strokeRect(offsetX + box.x * scale, offsetY + box.y * scale, box.width * scale, box.height * scale);
+      for (const point of landmarks) {
+        context.beginPath();
+        context.arc(offsetX + point.x * scale, offsetY + point.y * scale, LANDMARK_RADIUS, 0, Math.PI * 2);
+        context.fill();
+      }
+    }
+  }, [video, faces, guidance]);
+
+  return (
+    <>
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+      {showMessage && guidance && (
+        <div className={`absolute bottom-6 left-1/2 -translate-x-1/2 px-5 py-2 rounded-full backdrop-blur-md pointer-events-none ${
+          guidance.ready ? 'bg-emerald-600/80' : 'bg-gray-950/80 border border-amber-500/30'
+        }`}>
+          <span className={`text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${guidance.ready ? 'text-white' : 'text-amber-400'}`}>
+            {guidance.message}
+          </span>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default LiveFaceOverlay;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { ShieldAlert, Trash2 } from 'lucide-react';
+import { LivenessFailure, TimekeepingSettings } from '../types';
+import { LIVENESS_INSTRUCTIONS } from '../services/liveness';
+import { formatDateTime } from '../services/timekeeping';
+
+interface LivenessAlertsProps {
+  failures: LivenessFailure[];
+  timekeeping: TimekeepingSettings;
+  onClear: () => void;
+}
+
+const LivenessAlerts: React.FC<LivenessAlertsProps> = ({ failures, timekeeping, onClear }) => {
+  if (failures.length === 0) return null;
+
+  return (
+    <section className="bg-gray-900 border border-rose-900/40 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <ShieldAlert className="w-5 h-5 text-rose-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Liveness Alerts</h2>
+          <span className="bg-rose-600 text-white text-[9px] px-2 py-0.5 rounded-lg font-black">{failures.length}</span>
+        </div>
+        <button
+          onClick={onClear}
+          className="text-[10px] font-black text-gray-500 hover:text-rose-500 uppercase tracking-widest transition-colors flex items-center gap-2"
+        >
+          <Trash2 className="w-3 h-3" />
+          Clear Alerts
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-gray-950/50">
+              <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Claimed Identity</th>
+              <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Challenge</th>
+              <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Reason</th>
+              <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">When</th>
+            </tr>
+          </thead>
+          <tbody>
+            {failures.map((failure) => (
+              <tr key={failure.id} className="hover:bg-gray-800/30 transition-colors">
+                <td className="p-5 border-b border-gray-800/50">
+                  <span className="text-xs font-bold text-gray-200 uppercase">{failure.name}</span>
+                  {!failure.profileId && (
+                    <span
+                      title="Recorded before alerts were linked to a profile; may belong to anyone with this name"
+                      className="ml-2 inline-flex px-2 py-0.5 border border-amber-500/30 bg-amber-500/10 text-amber-400 rounded-full text-[9px] font-black uppercase tracking-wider"
+                    >
+                      Unlinked
+                    </span>
+                  )}
+                </td>
+                <td className="p-5 border-b border-gray-800/50">
+                  <span className="text-xs font-medium text-gray-400">{LIVENESS_INSTRUCTIONS[failure.challenge]}</span>
+                </td>
+                <td className="p-5 border-b border-gray-800/50">
+                  <span className="text-xs font-black text-rose-400">{failure.reason}</span>
+                </td>
+                <td className="p-5 border-b border-gray-800/50">
+                  <span className="text-xs font-medium text-gray-400">{formatDateTime(failure.timestamp, timekeeping)}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default LivenessAlerts;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Film, Upload, RefreshCw } from 'lucide-react';
+import { RecognitionSettings, UserFaceProfile } from '../types';
+import { recognizeFaces } from '../services/recognitionPipeline';
+import { MEDIA_ACCEPT, mediaFrames, describeFrame } from '../services/mediaInput';
+import { profileLabel } from '../services/profiles';
+
+interface MediaTestPanelProps {
+  profiles: UserFaceProfile[];
+  settings: RecognitionSettings;
+}
+
+interface MediaTestRow {
+  source: string;
+  outcome: 'match' | 'ambiguous' | 'no_match' | 'no_face';
+  label: string;
+  distance: number | null;
+}
+
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all cursor-pointer";
+const headerCell = "p-3 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50";
+
+const OUTCOME_STYLES: Record<MediaTestRow['outcome'], string> = {
+  match: 'text-emerald-400',
+  ambiguous: 'text-amber-400',
+  no_match: 'text-rose-400',
+  no_face: 'text-gray-500'
+};
+
+/**
+ * Dry run of recognition over uploaded photos or a recorded video, against
+ * the live registry and thresholds. Nothing is written to the attendance log.
+ */
+const MediaTestPanel: React.FC<MediaTestPanelProps> = ({ profiles, settings }) => {
+  const [rows, setRows] = useState<MediaTestRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (files: File[]) => {
+    if (files.length === 0) return;
+    setRunning(true);
+    setError(null);
+    setRows([]);
+    try {
+      for (const file of files) {
+        for await (const frame of mediaFrames([file])) {
+          const source = describeFrame(file, frame);
+          const faces = await recognizeFaces(frame, profiles, settings, true);
+          const found: MediaTestRow[] = faces.length === 0
+            ? [{ source, outcome: 'no_face', label: 'No face', distance: null }]
+            : faces.map(({ match }) => ({
+              source,
+              outcome: match.outcome,
+              label: match.outcome === 'match' ? profileLabel(match.profile)
+                : match.outcome === 'ambiguous' ? `${match.profile.name} / ${match.runnerUp.name}`
+                : 'Unknown',
+              distance: Number.isFinite(match.distance) ? match.distance : null
+            }));
+          setRows(prev => [...prev, ...found]);
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not analyse the media');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Film className="w-5 h-5 text-blue-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Media Test</h2>
+        </div>
+        <label className={`${buttonClass} ${running || profiles.length === 0 ? 'opacity-30 pointer-events-none' : ''}`}>
+          {running ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+          Photos / Video
+          <input
+            type="file"
+            accept={MEDIA_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              run(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="p-4 border-b border-gray-800/50">
+        <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+          Recognises uploaded media against {profiles.length} active profile(s) without recording attendance
+        </p>
+        {error && <p className="text-[10px] font-black text-rose-400 uppercase tracking-wider mt-2">{error}</p>}
+      </div>
+
+      <div className="overflow-x-auto max-h-[360px] overflow-y-auto custom-scrollbar">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-gray-950/50">
+              <th className={headerCell}>Source</th>
+              <th className={headerCell}>Result</th>
+              <th className={headerCell}>Distance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={3} className="p-8 text-center">
+                  <p className="text-[10px] font-black uppercase tracking-[0.2em] opacity-20">
+                    {running ? 'Analysing…' : 'No media analysed'}
+                  </p>
+                </td>
+              </tr>
+            ) : (
+              rows.map((row, i) => (
+                <tr key={i} className="hover:bg-gray-800/30 transition-colors">
+                  <td className="p-3 border-b border-gray-800/50 text-xs text-gray-400 truncate max-w-[200px]">{row.source}</td>
+                  <td className="p-3 border-b border-gray-800/50">
+                    <span className={`text-xs font-bold uppercase ${OUTCOME_STYLES[row.outcome]}`}>{row.label}</span>
+                  </td>
+                  <td className="p-3 border-b border-gray-800/50 text-xs text-gray-400">{row.distance?.toFixed(3) ?? '—'}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default MediaTestPanel;
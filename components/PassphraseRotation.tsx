@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { InvalidPassphraseError, VaultChangedError } from '../services/vault';
+import { MIN_PASSPHRASE_LENGTH } from './VaultUnlock';
+
+interface PassphraseRotationProps {
+  onRotate: (currentPassphrase: string, nextPassphrase: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const PassphraseRotation: React.FC<PassphraseRotationProps> = ({ onRotate, onClose }) => {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (next.length < MIN_PASSPHRASE_LENGTH) return setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    if (next !== confirmation) return setError('Passphrases do not match');
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onRotate(current, next);
+      onClose();
+    } catch (err) {
+      setError(
+        err instanceof InvalidPassphraseError ? 'Current passphrase is incorrect'
+          : err instanceof VaultChangedError ? 'Records changed while re-encrypting, nothing was saved. Try again'
+          : 'Re-encryption failed'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = "w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-[10px] font-bold text-white focus:outline-none focus:border-blue-500";
+
+  return (
+    <form onSubmit={submit} className="space-y-2 mt-3">
+      <input type="password" placeholder="Current Passphrase" value={current} onChange={(e) => setCurrent(e.target.value)} className={inputClass} />
+      <input type="password" placeholder="New Passphrase" value={next} onChange={(e) => setNext(e.target.value)} className={inputClass} />
+      <input type="password" placeholder="Confirm New Passphrase" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} className={inputClass} />
+      {error && <p className="text-[9px] font-black text-rose-400 uppercase tracking-wider">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={isSubmitting || !current || !next}
+          className="flex-1 flex items-center justify-center gap-2 bg-white text-black py-2 rounded-lg font-black text-[10px] uppercase hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+        >
+          {isSubmitting && <RefreshCw className="w-3 h-3 animate-spin" />}
+          Re-encrypt
+        </button>
+        <button type="button" onClick={onClose} className="px-3 text-gray-500 hover:text-white text-[10px] font-black uppercase">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PassphraseRotation;
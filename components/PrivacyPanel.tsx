@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Save, RefreshCw, Eraser } from 'lucide-react';
+import { TimekeepingSettings } from '../types';
+import { CONSENT_VERSION, ErasureLogEntry, RetentionRun, RetentionSettings } from '../services/privacy';
+import { formatDateTime } from '../services/timekeeping';
+
+interface PrivacyPanelProps {
+  settings: RetentionSettings;
+  lastRun: RetentionRun | null;
+  erasures: ErasureLogEntry[];
+  missingConsent: number; // Profiles without consent to the current notice
+  timekeeping: TimekeepingSettings;
+  onSave: (settings: RetentionSettings) => Promise<void>;
+  onRunNow: () => Promise<void>;
+}
+
+const PERIODS: { key: keyof RetentionSettings; label: string }[] = [
+  { key: 'attendanceDays', label: 'Attendance Records' },
+  { key: 'inactiveTemplateDays', label: 'Inactive Staff Faces' },
+  { key: 'attemptDays', label: 'Unknown Faces & Alerts' }
+];
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+const labelClass = "block text-[10px] font-black text-gray-500 uppercase tracking-widest";
+
+const describeRun = (run: RetentionRun) => [
+  `${run.attendanceRecords} attendance records`,
+  `${run.auditEntries} correction entries`,
+  `${run.templates} face templates`,
+  `${run.recognitionAttempts} unknown faces`,
+  `${run.livenessFailures} liveness alerts`
+].join(' · ');
+
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ settings, lastRun, erasures, missingConsent, timekeeping, onSave, onRunNow }) => {
+  const [draft, setDraft] = useState(settings);
+  const [busy, setBusy] = useState<'save' | 'run' | null>(null);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  const valid = PERIODS.every(({ key }) => Number.isInteger(draft[key]) && draft[key] >= 0);
+  const changed = PERIODS.some(({ key }) => draft[key] !== settings[key]);
+
+  const run = async (task: 'save' | 'run', action: () => Promise<void>, done: string) => {
+    setBusy(task);
+    try {
+      await action();
+      setMessage({ tone: 'ok', text: done });
+    } catch {
+      setMessage({ tone: 'error', text: task === 'save' ? 'Could not save settings' : 'Retention run failed' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center gap-3">
+        <ShieldCheck className="w-5 h-5 text-blue-500" />
+        <h2 className="text-sm font-black text-white uppercase tracking-widest">Privacy & Retention</h2>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <p className={`text-[10px] font-black uppercase tracking-wider ${missingConsent > 0 ? 'text-amber-400' : 'text-gray-500'}`}>
+          Consent notice v{CONSENT_VERSION} · {missingConsent > 0
+            ? `${missingConsent} ${missingConsent === 1 ? 'profile has' : 'profiles have'} no consent to this version`
+            : 'every profile has consented'}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {PERIODS.map(({ key, label }) => (
+            <label key={key} className="space-y-1">
+              <span className={labelClass}>{label} (days)</span>
+              <input
+                type="number"
+                min={0}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value) })}
+                className={`${inputClass} w-full`}
+              />
+            </label>
+          ))}
+        </div>
+
+        <p className="text-[10px] font-bold text-gray-600 uppercase tracking-wider">
+          0 keeps data indefinitely. Retention runs when the vault is opened and every hour after that.
+          Inactive staff keep their profile and history but lose their face templates and photo.
+          While sync is on, attendance not yet sent is kept until it is.
+        </p>
+        {lastRun && (
+          <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+            Last run {formatDateTime(lastRun.ranAt, timekeeping)} removed {describeRun(lastRun)}
+          </p>
+        )}
+
+        <div className="flex items-center gap-4">
+          <button onClick={() => run('save', () => onSave(draft), 'Retention settings saved')} disabled={!valid || !changed || busy !== null} className={buttonClass}>
+            {busy === 'save' ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+            Save
+          </button>
+          <button onClick={() => run('run', onRunNow, 'Retention applied')} disabled={changed || busy !== null} className={buttonClass}>
+            {busy === 'run' ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Eraser className="w-3 h-3" />}
+            Run Now
+          </button>
+          {message && (
+            <p className={`text-[10px] font-black uppercase tracking-wider ${message.tone === 'ok' ? 'text-emerald-400' : 'text-rose-400'}`}>
+              {message.text}
+            </p>
+          )}
+        </div>
+
+        {erasures.length > 0 && (
+          <div className="space-y-2 pt-2">
+            <span className={labelClass}>Erasure Requests</span>
+            {erasures.map(entry => (
+              <p key={entry.requestId} className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+                {formatDateTime(entry.erasedAt, timekeeping)} · by {entry.erasedBy} · {entry.removed.attendanceRecords} records,
+                {' '}{entry.removed.faceTemplates} templates, {entry.removed.recognitionAttempts} unknown faces removed
+                <span className="text-gray-700"> · {entry.requestId.slice(0, 8)}</span>
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default PrivacyPanel;
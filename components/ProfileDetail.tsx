@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Save, Camera, Trash2, History, RefreshCw, Download, UserX, ShieldCheck } from 'lucide-react';
+import { AttendanceRecord, ShiftSchedule, Site, TimekeepingSettings, UserFaceProfile } from '../types';
+import { findStaffIdConflict, isActiveProfile, normalizeStaffId } from '../services/profiles';
+import { EVENT_LABELS, getEventType } from '../services/attendance';
+import { formatBusinessDate, formatDateTime, formatTime } from '../services/timekeeping';
+import { CONSENT_VERSION, hasCurrentConsent, hasTemplates } from '../services/privacy';
+
+interface ProfileDetailProps {
+  profile: UserFaceProfile;
+  profiles: UserFaceProfile[]; // Whole registry, for the staff ID uniqueness check
+  shifts: ShiftSchedule[];
+  sites: Site[];
+  timekeeping: TimekeepingSettings;
+  loadHistory: (profileId: string, limit: number) => Promise<{ records: AttendanceRecord[]; total: number }>;
+  onSave: (profile: UserFaceProfile) => Promise<void>;
+  onReenroll: (profile: UserFaceProfile) => void;
+  onDelete: (id: string) => void;
+  onRecordConsent: (profile: UserFaceProfile) => void;
+  onExportData: (profile: UserFaceProfile) => Promise<void>;
+  onErase: (profile: UserFaceProfile) => void;
+  onClose: () => void;
+}
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+const labelClass = "block text-[10px] font-black text-gray-500 uppercase tracking-widest";
+const headerCell = "p-4 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50";
+
+const HISTORY_PAGE_SIZE = 20;
+
+// Empty inputs clear the optional field rather than storing ''
+const optional = (value: string) => value.trim() || undefined;
+
+const ProfileDetail: React.FC<ProfileDetailProps> = ({
+  profile, profiles, shifts, sites, timekeeping, loadHistory, onSave, onReenroll, onDelete, onRecordConsent, onExportData, onErase, onClose
+}) => {
+  const [draft, setDraft] = useState({
+    name: profile.name,
+    staffId: profile.staffId ?? '',
+    department: profile.department ?? '',
+    jobTitle: profile.jobTitle ?? '',
+    role: profile.role ?? 'staff',
+    shiftId: profile.shiftId ?? '',
+    siteIds: profile.siteIds ?? [],
+    active: isActiveProfile(profile)
+  });
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+  const [history, setHistory] = useState<{ records: AttendanceRecord[]; total: number }>({ records: [], total: 0 });
+  const [historyLimit, setHistoryLimit] = useState(HISTORY_PAGE_SIZE);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadHistory(profile.id, historyLimit)
+      .then(page => { if (!cancelled) setHistory(page); })
+      .catch(err => console.error("Failed to load profile history", err));
+    return () => { cancelled = true; };
+  }, [profile.id, historyLimit]);
+
+  const toggleSite = (siteId: string, allowed: boolean) => setDraft({
+    ...draft,
+    siteIds: allowed ? [...draft.siteIds, siteId] : draft.siteIds.filter(id => id !== siteId)
+  });
+
+  const conflict = findStaffIdConflict(profiles, draft.staffId, profile.id);
+  // A profile whose templates were removed could never be recognised again
+  const needsFace = draft.active && !hasTemplates(profile);
+  const valid = draft.name.trim().length > 0 && !conflict && !needsFace;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        ...profile,
+        name: draft.name.trim(),
+        staffId: optional(normalizeStaffId(draft.staffId)),
+        department: optional(draft.department),
+        jobTitle: optional(draft.jobTitle),
+        role: draft.role,
+        shiftId: draft.shiftId || undefined,
+        siteIds: draft.siteIds.length > 0 ? draft.siteIds : undefined,
+        active: draft.active
+      });
+      setMessage({ tone: 'ok', text: 'Profile saved' });
+    } catch {
+      setMessage({ tone: 'error', text: 'Could not save profile' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+        <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="w-16 h-16 bg-blue-600/10 border border-blue-500/10 rounded-2xl flex items-center justify-center overflow-hidden shrink-0">
+              {profile.thumbnail
+                ? <img src={profile.thumbnail} alt={profile.name} className="w-full h-full object-cover" />
+                : <span className="text-blue-400 font-black text-xl">{profile.name.charAt(0).toUpperCase()}</span>}
+            </div>
+            <div>
+              <h2 className="text-sm font-black text-white uppercase tracking-widest">{profile.name}</h2>
+              <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mt-1">
+                {[profile.staffId, profile.department, profile.jobTitle].filter(Boolean).join(' · ') || 'No employee details'}
+              </p>
+              <p className="text-[9px] font-bold text-gray-600 uppercase tracking-wider mt-1">
+                {profile.templatesPurgedAt
+                  ? `Face removed by retention ${formatDateTime(profile.templatesPurgedAt, timekeeping)}`
+                  : `Face enrolled ${formatDateTime(profile.capturedAt, timekeeping)}`}
+              </p>
+              <p className={`text-[9px] font-bold uppercase tracking-wider mt-1 ${hasCurrentConsent(profile) ? 'text-gray-600' : 'text-amber-400'}`}>
+                {profile.consent
+                  ? `Consent v${profile.consent.version} ${formatDateTime(profile.consent.acceptedAt, timekeeping)} · ${profile.consent.recordedBy}`
+                  : 'No consent on record'}
+                {profile.consent && !hasCurrentConsent(profile) && ` · notice is now v${CONSENT_VERSION}`}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className={buttonClass}>
+            <ArrowLeft className="w-3 h-3" />
+            Back
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="space-y-1">
+              <span className={labelClass}>Name</span>
+              <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={`${inputClass} w-full`} />
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Staff ID</span>
+              <input type="text" value={draft.staffId} onChange={(e) => setDraft({ ...draft, staffId: e.target.value })} className={`${inputClass} w-full uppercase`} />
+              {conflict && (
+                <span className="block text-[9px] font-black text-rose-400 uppercase tracking-wider">Already used by {conflict.name}</span>
+              )}
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Department</span>
+              <input type="text" value={draft.department} onChange={(e) => setDraft({ ...draft, department: e.target.value })} className={`${inputClass} w-full`} />
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Job Title</span>
+              <input type="text" value={draft.jobTitle} onChange={(e) => setDraft({ ...draft, jobTitle: e.target.value })} className={`${inputClass} w-full`} />
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Role</span>
+              <select value={draft.role} onChange={(e) => setDraft({ ...draft, role: e.target.value as 'staff' | 'admin' })} className={`${inputClass} w-full uppercase tracking-widest`}>
+                <option value="staff">Staff</option>
+                <option value="admin">Admin</option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Shift</span>
+              <select value={draft.shiftId} onChange={(e) => setDraft({ ...draft, shiftId: e.target.value })} className={`${inputClass} w-full uppercase tracking-widest`}>
+                <option value="">No Shift</option>
+                {shifts.map(shift => <option key={shift.id} value={shift.id}>{shift.name}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {sites.length > 0 && (
+            <div className="space-y-2">
+              <span className={labelClass}>Allowed Sites. None ticked means every site.</span>
+              <div className="flex flex-wrap gap-4">
+                {sites.map(site => (
+                  <label key={site.id} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={draft.siteIds.includes(site.id)}
+                      onChange={(e) => toggleSite(site.id, e.target.checked)}
+                      className="accent-blue-600"
+                    />
+                    <span className="text-[10px] font-black text-gray-300 uppercase tracking-widest">{site.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input type="checkbox" checked={draft.active} onChange={(e) => setDraft({ ...draft, active: e.target.checked })} className="accent-blue-600" />
+            <span className={labelClass}>Active. Inactive staff keep their history but are no longer recognised.</span>
+          </label>
+          {needsFace && (
+            <p className="text-[10px] font-black text-amber-400 uppercase tracking-wider">Re-enroll the face to reactivate this profile</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={save} disabled={!valid || saving} className={buttonClass}>
+              {saving ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+              Save
+            </button>
+            <button onClick={() => onReenroll(profile)} className={buttonClass}>
+              <Camera className="w-3 h-3" />
+              Re-enroll Face
+            </button>
+            {!hasCurrentConsent(profile) && (
+              <button onClick={() => onRecordConsent(profile)} className={buttonClass}>
+                <ShieldCheck className="w-3 h-3" />
+                Record Consent
+              </button>
+            )}
+            <button onClick={() => onExportData(profile)} title="Everything held about this person, for an access request" className={buttonClass}>
+              <Download className="w-3 h-3" />
+              Export Data
+            </button>
+            <button onClick={() => onDelete(profile.id)} className={`${buttonClass} hover:bg-rose-600 hover:border-rose-500`}>
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+            <button onClick={() => onErase(profile)} title="Erase the profile and all attendance, for an erasure request" className={`${buttonClass} hover:bg-rose-600 hover:border-rose-500`}>
+              <UserX className="w-3 h-3" />
+              Erase
+            </button>
+            {message && (
+              <p className={`text-[10px] font-black uppercase tracking-wider ${message.tone === 'ok' ? 'text-emerald-400' : 'text-rose-400'}`}>
+                {message.text}
+              </p>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+        <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center gap-3">
+          <History className="w-5 h-5 text-blue-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Attendance History</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-gray-950/50">
+                <th className={headerCell}>Date</th>
+                <th className={headerCell}>Event</th>
+                <th className={headerCell}>Time</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.records.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="p-8 text-center">
+                    <p className="text-[10px] font-black uppercase tracking-[0.2em] opacity-20">No attendance recorded</p>
+                  </td>
+                </tr>
+              ) : (
+                history.records.map(record => (
+                  <tr key={record.id} className="hover:bg-gray-800/30 transition-colors">
+                    <td className="p-4 border-b border-gray-800/50 text-xs text-gray-400">{formatBusinessDate(record.businessDate)}</td>
+                    <td className="p-4 border-b border-gray-800/50 text-xs font-bold text-gray-300 uppercase">{EVENT_LABELS[getEventType(record)]}</td>
+                    <td className="p-4 border-b border-gray-800/50 text-xs font-black text-gray-300">{formatTime(record.timestamp, timekeeping)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        {history.records.length < history.total && (
+          <div className="p-4 bg-gray-950/20 text-center">
+            <button onClick={() => setHistoryLimit(limit => limit + HISTORY_PAGE_SIZE)} className={`${buttonClass} mx-auto`}>
+              Load More
+            </button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ProfileDetail;
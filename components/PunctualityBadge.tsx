@@ -0,0 +1,36 @@
+import React from 'react';
+import { CheckCircle2, Clock, LogOut } from 'lucide-react';
+import { Punctuality } from '../types';
+import { describePunctuality } from '../services/shifts';
+
+interface PunctualityBadgeProps {
+  punctuality: Punctuality | null;
+}
+
+const STYLES: Record<Punctuality['status'], string> = {
+  on_time: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-500',
+  late: 'bg-amber-500/10 border-amber-500/20 text-amber-500',
+  early_leave: 'bg-rose-500/10 border-rose-500/20 text-rose-500'
+};
+
+const ICONS: Record<Punctuality['status'], React.ElementType> = {
+  on_time: CheckCircle2,
+  late: Clock,
+  early_leave: LogOut
+};
+
+const PunctualityBadge: React.FC<PunctualityBadgeProps> = ({ punctuality }) => {
+  if (!punctuality) {
+    return <span className="text-[9px] font-black text-gray-600 uppercase tracking-wider">Unscheduled</span>;
+  }
+
+  const Icon = ICONS[punctuality.status];
+  return (
+    <span className={`inline-flex items-center gap-1.5 px-3 py-1 border rounded-full text-[9px] font-black uppercase tracking-wider whitespace-nowrap ${STYLES[punctuality.status]}`}>
+      <Icon className="w-2.5 h-2.5" />
+      {describePunctuality(punctuality)}
+    </span>
+  );
+};
+
+export default PunctualityBadge;
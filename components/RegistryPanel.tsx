@@ -0,0 +1,114 @@
+import React from 'react';
+import { UserCheck, Trash2, UserMinus, ShieldCheck } from 'lucide-react';
+import { UserFaceProfile, ShiftSchedule } from '../types';
+import { isActiveProfile } from '../services/profiles';
+import { hasCurrentConsent } from '../services/privacy';
+
+interface RegistryPanelProps {
+  profiles: UserFaceProfile[];
+  today: string; // Current business date, for the clocked-in marker
+  shifts: ShiftSchedule[];
+  onAssignShift: (profile: UserFaceProfile, shiftId: string | undefined) => void;
+  onDelete: (id: string) => void;
+  onClearAll: () => void;
+  onToggleAdmin: (profile: UserFaceProfile) => void;
+  onOpen: (profile: UserFaceProfile) => void; // Detail and edit screen
+  children?: React.ReactNode; // Footer content
+}
+
+const RegistryPanel: React.FC<RegistryPanelProps> = ({ profiles, today, shifts, onAssignShift, onDelete, onClearAll, onToggleAdmin, onOpen, children }) => (
+  <div className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden flex flex-col h-full shadow-lg">
+    <div className="p-5 border-b border-gray-800/50 bg-gray-950/40 flex justify-between items-center">
+      <div>
+        <h2 className="text-[11px] font-black text-gray-400 uppercase tracking-widest">Registry</h2>
+      </div>
+      <div className="flex items-center gap-2">
+        {profiles.length > 0 && (
+          <button
+            onClick={onClearAll}
+            title="Clear All Staff"
+            className="p-1.5 text-gray-600 hover:text-rose-500 transition-colors"
+          >
+            <UserMinus className="w-3 h-3" />
+          </button>
+        )}
+        <span className="bg-blue-600 text-white text-[9px] px-2 py-0.5 rounded-lg font-black">{profiles.length}</span>
+      </div>
+    </div>
+
+    <div className="flex-1 overflow-y-auto max-h-[420px] p-3 space-y-2 custom-scrollbar">
+      {profiles.length === 0 ? (
+        <div className="text-center py-16 opacity-30">
+          <UserCheck className="w-8 h-8 text-gray-700 mx-auto mb-2" />
+          <p className="text-[9px] font-black uppercase">Directory Empty</p>
+        </div>
+      ) : (
+        profiles.map((profile) => (
+          <div key={profile.id} className="group flex items-center gap-3 bg-gray-800/20 p-3 rounded-xl border border-transparent hover:border-blue-600/30 transition-all">
+            <button
+              onClick={() => onOpen(profile)}
+              title="Open Profile"
+              className="w-8 h-8 bg-blue-600/10 border border-blue-500/10 rounded-lg flex items-center justify-center shrink-0 overflow-hidden"
+            >
+              {profile.thumbnail
+                ? <img src={profile.thumbnail} alt="" className="w-full h-full object-cover" />
+                : <span className="text-blue-400 font-black text-xs">{profile.name.charAt(0).toUpperCase()}</span>}
+            </button>
+            <div className="flex-1 min-w-0">
+              <button onClick={() => onOpen(profile)} className="block max-w-full text-left">
+                <h4 className={`font-bold text-[11px] truncate uppercase hover:text-blue-400 ${isActiveProfile(profile) ? 'text-gray-200' : 'text-gray-600'}`}>{profile.name}</h4>
+              </button>
+              {(profile.staffId || profile.department) && (
+                <p className="text-[8px] text-gray-500 font-black uppercase mt-0.5 truncate">
+                  {[profile.staffId, profile.department].filter(Boolean).join(' · ')}
+                </p>
+              )}
+              {!isActiveProfile(profile) && (
+                <p className="text-[8px] text-rose-400/80 font-black uppercase mt-0.5">Inactive</p>
+              )}
+              {!hasCurrentConsent(profile) && (
+                <p className="text-[8px] text-amber-400/80 font-black uppercase mt-0.5">Consent Needed</p>
+              )}
+              {profile.role === 'admin' && (
+                <p className="text-[8px] text-blue-400/80 font-black uppercase mt-0.5">Admin</p>
+              )}
+              {profile.lastClockIn === today && (
+                <p className="text-[8px] text-emerald-500/60 font-black uppercase mt-0.5">Active Today</p>
+              )}
+              {shifts.length > 0 && (
+                <select
+                  value={profile.shiftId ?? ''}
+                  onChange={(e) => onAssignShift(profile, e.target.value || undefined)}
+                  className="mt-1 w-full bg-transparent text-[8px] font-black text-gray-500 uppercase focus:outline-none hover:text-gray-300"
+                >
+                  <option value="">No Shift</option>
+                  {shifts.map(shift => <option key={shift.id} value={shift.id}>{shift.name}</option>)}
+                </select>
+              )}
+            </div>
+            <button
+              onClick={() => onToggleAdmin(profile)}
+              className={`p-1.5 transition-all rounded-lg ${profile.role === 'admin' ? 'text-blue-400 hover:bg-blue-500/10' : 'text-gray-700 hover:text-blue-400 hover:bg-blue-500/10'}`}
+              title={profile.role === 'admin' ? 'Revoke Admin' : 'Grant Admin'}
+            >
+              <ShieldCheck className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => onDelete(profile.id)}
+              className="p-1.5 text-gray-700 hover:text-rose-500 transition-all hover:bg-rose-500/10 rounded-lg"
+              title="Delete Biometric"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))
+      )}
+    </div>
+
+    <div className="p-4 bg-gray-950/50 border-t border-gray-800/50">
+      {children}
+    </div>
+  </div>
+);
+
+export default RegistryPanel;
@@ -0,0 +1,48 @@
+import React, { useRef } from 'react';
+import { Printer } from 'lucide-react';
+
+interface ReportSectionProps {
+  title: string;
+  subtitle?: string;
+  icon: React.ElementType;
+  children: React.ReactNode;
+}
+
+// Only the marked section is visible while printing; see the print rules in index.css
+const PRINT_TARGET_CLASS = 'print-target';
+
+const ReportSection: React.FC<ReportSectionProps> = ({ title, subtitle, icon: Icon, children }) => {
+  const sectionRef = useRef<HTMLElement>(null);
+
+  const print = () => {
+    const section = sectionRef.current;
+    if (!section) return;
+    section.classList.add(PRINT_TARGET_CLASS);
+    window.addEventListener('afterprint', () => section.classList.remove(PRINT_TARGET_CLASS), { once: true });
+    window.print();
+  };
+
+  return (
+    <section ref={sectionRef} className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Icon className="w-5 h-5 text-blue-500" />
+          <div>
+            <h2 className="text-sm font-black text-white uppercase tracking-widest">{title}</h2>
+            {subtitle && <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mt-0.5">{subtitle}</p>}
+          </div>
+        </div>
+        <button
+          onClick={print}
+          className="no-print text-[10px] font-black text-gray-500 hover:text-blue-400 uppercase tracking-widest transition-colors flex items-center gap-2"
+        >
+          <Printer className="w-3 h-3" />
+          Print
+        </button>
+      </div>
+      {children}
+    </section>
+  );
+};
+
+export default ReportSection;
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart3, CalendarDays, Users, UserX, Printer, ArrowLeft, RefreshCw } from 'lucide-react';
+import { AttendanceRecord, ShiftSchedule, TimekeepingSettings, UserFaceProfile } from '../types';
+import {
+  ReportFilter, CalendarCellStatus, monthToDate, dailyHeadcount, employeeMonthSummaries,
+  attendanceCalendar, notClockedIn, datesInRange
+} from '../services/reports';
+import { formatBusinessDate, parseDateKey } from '../services/timekeeping';
+import { formatDuration, isRecordOf } from '../services/attendance';
+import { isActiveProfile, profileLabel } from '../services/profiles';
+import ReportSection from './ReportSection';
+
+interface ReportsViewProps {
+  profiles: UserFaceProfile[];
+  shifts: ShiftSchedule[];
+  timekeeping: TimekeepingSettings;
+  today: string;
+  // Records whose business date falls within the inclusive range
+  loadRecords: (from: string, to: string) => Promise<AttendanceRecord[]>;
+  onClose: () => void;
+}
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+const headerCell = "p-4 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50";
+const cell = "p-4 border-b border-gray-800/50 text-xs";
+
+// Longest range rendered day by day, to keep the heatmap and headcount readable
+const MAX_RANGE_DAYS = 93;
+
+const CELL_COLORS: Record<CalendarCellStatus, string> = {
+  present: 'bg-emerald-500',
+  late: 'bg-amber-500',
+  missing_out: 'bg-rose-500',
+  none: 'bg-gray-800'
+};
+
+const FULL_DAY_MS = 8 * 60 * 60 * 1000;
+
+const shortDate = (date: string) => {
+  const { month, day } = parseDateKey(date);
+  return `${day}/${month}`;
+};
+
+const ReportsView: React.FC<ReportsViewProps> = ({ profiles, shifts, timekeeping, today, loadRecords, onClose }) => {
+  const [filter, setFilter] = useState<ReportFilter>({ ...monthToDate(today), profileId: '' });
+  const [records, setRecords] = useState<AttendanceRecord[]>([]);
+  const [todayRecords, setTodayRecords] = useState<AttendanceRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const rangeValid = !!filter.from && !!filter.to && filter.from <= filter.to
+    && datesInRange(filter.from, filter.to).length <= MAX_RANGE_DAYS;
+
+  useEffect(() => {
+    if (!rangeValid) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([loadRecords(filter.from, filter.to), loadRecords(today, today)])
+      .then(([range, current]) => {
+        if (cancelled) return;
+        setRecords(range);
+        setTodayRecords(current);
+      })
+      .catch(err => console.error("Failed to load report data", err))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [filter.from, filter.to, today, rangeValid]);
+
+  const selected = profiles.find(p => p.id === filter.profileId);
+  const people = selected ? [selected] : profiles.filter(isActiveProfile);
+  const filtered = selected ? records.filter(r => isRecordOf(r, selected)) : records;
+  const headcount = rangeValid ? dailyHeadcount(records, profiles, filter.from, filter.to, timekeeping) : [];
+  const peakHeadcount = Math.max(1, ...headcount.map(day => day.registry));
+  const summaries = employeeMonthSummaries(filtered, profiles, shifts, timekeeping);
+  const missing = notClockedIn(people, todayRecords, today);
+  const rangeLabel = `${formatBusinessDate(filter.from)} – ${formatBusinessDate(filter.to)}${selected ? ` · ${profileLabel(selected)}` : ''}`;
+
+  return (
+    <div className="space-y-10">
+      <div className="no-print flex flex-wrap items-center gap-3">
+        <button onClick={onClose} className={buttonClass}>
+          <ArrowLeft className="w-3 h-3" />
+          Back
+        </button>
+        <select value={filter.profileId} onChange={(e) => setFilter({ ...filter, profileId: e.target.value })} className={`${inputClass} uppercase tracking-widest`}>
+          <option value="">All Staff</option>
+          {profiles.map(p => <option key={p.id} value={p.id}>{profileLabel(p)}</option>)}
+        </select>
+        <input type="date" value={filter.from} onChange={(e) => setFilter({ ...filter, from: e.target.value })} className={inputClass} />
+        <span className="text-[10px] font-black text-gray-600 uppercase">to</span>
+        <input type="date" value={filter.to} onChange={(e) => setFilter({ ...filter, to: e.target.value })} className={inputClass} />
+        {loading && <RefreshCw className="w-4 h-4 text-blue-500 animate-spin" />}
+        <button onClick={() => window.print()} className={`${buttonClass} ml-auto`}>
+          <Printer className="w-3 h-3" />
+          Print All
+        </button>
+      </div>
+
+      {!rangeValid && (
+        <p className="text-[10px] font-black text-amber-400 uppercase tracking-wider">
+          Choose a date range of at most {MAX_RANGE_DAYS} days
+        </p>
+      )}
+
+      <ReportSection title="Daily Headcount" subtitle={rangeLabel} icon={BarChart3}>
+        <div className="p-6 flex items-end gap-1 h-48 overflow-x-auto">
+          {headcount.map(day => (
+            <div
+              key={day.date}
+              className="flex-1 min-w-[10px] h-full flex flex-col justify-end relative"
+              title={`${formatBusinessDate(day.date)}: ${day.present} of ${day.registry}`}
+            >
+              <div className="w-full bg-gray-800 rounded-t relative" style={{ height: `${(day.registry / peakHeadcount) * 100}%` }}>
+                <div className="absolute bottom-0 inset-x-0 bg-blue-500 rounded-t" style={{ height: day.registry ? `${(day.present / day.registry) * 100}%` : 0 }} />
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="px-6 pb-6 flex justify-between text-[9px] font-black text-gray-600 uppercase">
+          <span>{headcount.length > 0 && shortDate(headcount[0].date)}</span>
+          <span className="flex gap-4">
+            <span className="text-blue-400">Present</span>
+            <span>Registry</span>
+          </span>
+          <span>{headcount.length > 0 && shortDate(headcount[headcount.length - 1].date)}</span>
+        </div>
+      </ReportSection>
+
+      <ReportSection title="Monthly Summary" subtitle={rangeLabel} icon={Users}>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-gray-950/50">
+                <th className={headerCell}>Staff Member</th>
+                <th className={headerCell}>Month</th>
+                <th className={headerCell}>Days Present</th>
+                <th className={headerCell}>Late</th>
+                <th className={headerCell}>Early Leave</th>
+                <th className={headerCell}>Total Hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summaries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="p-12 text-center">
+                    <p className="text-[10px] font-black uppercase tracking-[0.2em] opacity-20">No attendance in range</p>
+                  </td>
+                </tr>
+              ) : (
+                summaries.map(summary => (
+                  <tr key={`${summary.profileId ?? summary.name}-${summary.month}`}>
+                    <td className={`${cell} font-bold text-gray-200 uppercase`}>{summary.name}</td>
+                    <td className={`${cell} text-gray-400`}>{summary.month}</td>
+                    <td className={`${cell} font-black text-gray-300`}>{summary.daysPresent}</td>
+                    <td className={`${cell} font-black ${summary.lateCount > 0 ? 'text-amber-400' : 'text-gray-500'}`}>{summary.lateCount}</td>
+                    <td className={`${cell} font-black ${summary.earlyLeaveCount > 0 ? 'text-rose-400' : 'text-gray-500'}`}>{summary.earlyLeaveCount}</td>
+                    <td className={`${cell} font-black text-gray-300`}>{formatDuration(summary.workedMs)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </ReportSection>
+
+      <ReportSection title="Attendance Calendar" subtitle={rangeLabel} icon={CalendarDays}>
+        <div className="p-6 space-y-2 overflow-x-auto">
+          {people.map(profile => {
+            const shift = shifts.find(s => s.id === profile.shiftId);
+            const cells = rangeValid ? attendanceCalendar(filtered, profile, filter.from, filter.to, shift, timekeeping) : [];
+            return (
+              <div key={profile.id} className="flex items-center gap-3">
+                <span className="w-32 shrink-0 truncate text-[10px] font-black text-gray-300 uppercase" title={profileLabel(profile)}>{profile.name}</span>
+                <div className="flex gap-0.5">
+                  {cells.map(c => (
+                    <div
+                      key={c.date}
+                      className={`w-3 h-3 rounded-sm ${CELL_COLORS[c.status]}`}
+                      style={{ opacity: c.status === 'none' ? 1 : 0.35 + 0.65 * Math.min(1, c.workedMs / FULL_DAY_MS) }}
+                      title={`${formatBusinessDate(c.date)}: ${c.status === 'none' ? 'No record' : formatDuration(c.workedMs)}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex gap-4 pt-2 text-[9px] font-black uppercase">
+            <span className="text-emerald-400">Present</span>
+            <span className="text-amber-400">Late</span>
+            <span className="text-rose-400">No Clock-out</span>
+            <span className="text-gray-600">Darker = more hours</span>
+          </div>
+        </div>
+      </ReportSection>
+
+      <ReportSection title="Not Clocked In Today" subtitle={formatBusinessDate(today)} icon={UserX}>
+        {missing.length === 0 ? (
+          <p className="p-6 text-[10px] font-black text-emerald-400 uppercase tracking-widest">Everyone has clocked in</p>
+        ) : (
+          <div className="divide-y divide-gray-800/30">
+            {missing.map(profile => (
+              <div key={profile.id} className="px-6 py-3 flex items-center justify-between">
+                <span className="text-xs font-bold text-gray-200 uppercase">{profileLabel(profile)}</span>
+                <span className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+                  {shifts.find(s => s.id === profile.shiftId)?.name ?? 'Unscheduled'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </ReportSection>
+    </div>
+  );
+};
+
+export default ReportsView;
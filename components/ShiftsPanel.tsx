@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { CalendarClock, Plus, Save, Trash2, X } from 'lucide-react';
+import { ShiftSchedule } from '../types';
+import { DEFAULT_SHIFT, WEEKDAY_LABELS } from '../services/shifts';
+import { isValidTimeOfDay } from '../services/timekeeping';
+
+interface ShiftsPanelProps {
+  shifts: ShiftSchedule[];
+  assignedCounts: Record<string, number>;
+  onSave: (shift: ShiftSchedule) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+const labelClass = "block text-[10px] font-black text-gray-500 uppercase tracking-widest";
+
+const ShiftsPanel: React.FC<ShiftsPanelProps> = ({ shifts, assignedCounts, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<ShiftSchedule | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const valid = !!draft
+    && draft.name.trim().length > 0
+    && isValidTimeOfDay(draft.start)
+    && isValidTimeOfDay(draft.end)
+    && draft.graceMinutes >= 0
+    && draft.absentAfterMinutes > 0
+    && draft.days.length > 0;
+
+  const toggleDay = (day: number) => {
+    if (!draft) return;
+    const days = draft.days.includes(day) ? draft.days.filter(d => d !== day) : [...draft.days, day].sort((a, b) => a - b);
+    setDraft({ ...draft, days });
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await onSave({ ...draft, name: draft.name.trim() });
+      setDraft(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (shift: ShiftSchedule) => {
+    const assigned = assignedCounts[shift.id] ?? 0;
+    const warning = assigned > 0 ? ` ${assigned} staff member(s) will become unscheduled.` : '';
+    if (!confirm(`Delete shift "${shift.name}"?${warning}`)) return;
+    await onDelete(shift.id);
+  };
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <CalendarClock className="w-5 h-5 text-blue-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Shift Schedules</h2>
+        </div>
+        {!draft && (
+          <button onClick={() => setDraft({ ...DEFAULT_SHIFT, id: crypto.randomUUID() })} className={buttonClass}>
+            <Plus className="w-3 h-3" />
+            New Shift
+          </button>
+        )}
+      </div>
+
+      {shifts.length > 0 && (
+        <div className="divide-y divide-gray-800/30">
+          {shifts.map(shift => (
+            <div key={shift.id} className="px-6 py-4 flex items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold text-gray-200 uppercase truncate">{shift.name}</p>
+                <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mt-0.5">
+                  {shift.start}–{shift.end} · {shift.graceMinutes} min grace · absent after {shift.absentAfterMinutes} min · {shift.days.map(d => WEEKDAY_LABELS[d]).join(' ')}
+                </p>
+              </div>
+              <span className="text-[9px] font-black text-gray-500 uppercase">{assignedCounts[shift.id] ?? 0} staff</span>
+              <button onClick={() => setDraft(shift)} className="text-[10px] font-black text-gray-500 hover:text-blue-400 uppercase tracking-widest transition-colors">
+                Edit
+              </button>
+              <button onClick={() => remove(shift)} title="Delete Shift" className="p-1.5 text-gray-700 hover:text-rose-500 hover:bg-rose-500/10 rounded-lg transition-all">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {shifts.length === 0 && !draft && (
+        <p className="p-6 text-[10px] font-black text-gray-600 uppercase tracking-widest">
+          No shifts defined. Staff without a shift are never marked late or absent.
+        </p>
+      )}
+
+      {draft && (
+        <div className="p-6 space-y-4 border-t border-gray-800/50">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <label className="space-y-1 col-span-2 md:col-span-1">
+              <span className={labelClass}>Name</span>
+              <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={`${inputClass} w-full`} />
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Start</span>
+              <input type="time" value={draft.start} onChange={(e) => setDraft({ ...draft, start: e.target.value })} className={`${inputClass} w-full`} />
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>End</span>
+              <input type="time" value={draft.end} onChange={(e) => setDraft({ ...draft, end: e.target.value })} className={`${inputClass} w-full`} />
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Grace (min)</span>
+              <input type="number" min={0} value={draft.graceMinutes} onChange={(e) => setDraft({ ...draft, graceMinutes: Number(e.target.value) })} className={`${inputClass} w-full`} />
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Absent After (min)</span>
+              <input type="number" min={1} value={draft.absentAfterMinutes} onChange={(e) => setDraft({ ...draft, absentAfterMinutes: Number(e.target.value) })} className={`${inputClass} w-full`} />
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                onClick={() => toggleDay(day)}
+                className={`flex-1 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                  draft.days.includes(day)
+                  ? 'bg-blue-600 border-blue-500 text-white'
+                  : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={save} disabled={!valid || saving} className={buttonClass}>
+              <Save className="w-3 h-3" />
+              Save Shift
+            </button>
+            <button onClick={() => setDraft(null)} className={buttonClass}>
+              <X className="w-3 h-3" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ShiftsPanel;
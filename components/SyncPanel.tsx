@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { CloudUpload, Save, RefreshCw, RotateCcw } from 'lucide-react';
+import { SyncSettings, SyncStatus, TimekeepingSettings } from '../types';
+import { isValidEndpoint } from '../services/sync';
+import { formatDateTime } from '../services/timekeeping';
+
+interface SyncPanelProps {
+  settings: SyncSettings;
+  status: SyncStatus;
+  timekeeping: TimekeepingSettings;
+  onSave: (settings: SyncSettings) => Promise<void>;
+  onSyncNow: () => Promise<void>;
+  onRetryRejected: () => Promise<void>;
+}
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+const labelClass = "block text-[10px] font-black text-gray-500 uppercase tracking-widest";
+
+const SyncPanel: React.FC<SyncPanelProps> = ({ settings, status, timekeeping, onSave, onSyncNow, onRetryRejected }) => {
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [endpoint, setEndpoint] = useState(settings.endpoint);
+  const [token, setToken] = useState(settings.token);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  const valid = !enabled || isValidEndpoint(endpoint.trim());
+  const changed = enabled !== settings.enabled || endpoint.trim() !== settings.endpoint || token !== settings.token;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave({ ...settings, enabled, endpoint: endpoint.trim(), token });
+      setMessage({ tone: 'ok', text: 'Sync settings saved' });
+    } catch {
+      setMessage({ tone: 'error', text: 'Could not save settings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <CloudUpload className="w-5 h-5 text-blue-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Central Sync</h2>
+        </div>
+        <button onClick={onSyncNow} disabled={!settings.enabled || status.syncing} className={buttonClass}>
+          <RefreshCw className={`w-3 h-3 ${status.syncing ? 'animate-spin' : ''}`} />
+          Sync Now
+        </button>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-gray-950/50 border border-gray-800 rounded-2xl p-4">
+            <p className={labelClass}>Queued</p>
+            <p className="text-xl font-black text-white mt-1">{status.pending}</p>
+          </div>
+          <div className="bg-gray-950/50 border border-gray-800 rounded-2xl p-4">
+            <p className={labelClass}>Rejected</p>
+            <p className={`text-xl font-black mt-1 ${status.rejected > 0 ? 'text-rose-400' : 'text-white'}`}>{status.rejected}</p>
+          </div>
+          <div className="bg-gray-950/50 border border-gray-800 rounded-2xl p-4">
+            <p className={labelClass}>Last Sync</p>
+            <p className="text-[10px] font-black text-gray-300 mt-2 uppercase">
+              {status.lastSyncAt ? formatDateTime(status.lastSyncAt, timekeeping) : 'Never'}
+            </p>
+          </div>
+        </div>
+
+        {status.lastError && (
+          <p className="text-[10px] font-black text-amber-400 uppercase tracking-wider break-all">
+            Last attempt failed: {status.lastError}. Queued items are retried automatically.
+          </p>
+        )}
+        {status.rejected > 0 && (
+          <button onClick={onRetryRejected} className={buttonClass}>
+            <RotateCcw className="w-3 h-3" />
+            Retry Rejected
+          </button>
+        )}
+
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} className="accent-blue-600" />
+          <span className={labelClass}>Sync with central server</span>
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="space-y-1">
+            <span className={labelClass}>API Base URL</span>
+            <input
+              type="url"
+              value={endpoint}
+              placeholder="https://attendance.example.com/api"
+              onChange={(e) => setEndpoint(e.target.value)}
+              className={`${inputClass} w-full`}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className={labelClass}>Access Token</span>
+            <input type="password" value={token} onChange={(e) => setToken(e.target.value)} className={`${inputClass} w-full`} />
+          </label>
+        </div>
+        <p className="text-[10px] font-bold text-gray-600 uppercase tracking-wider">
+          Device ID {settings.deviceId}. Attendance is always saved on this kiosk first and sent when the server is reachable.
+        </p>
+
+        <div className="flex items-center gap-4">
+          <button onClick={save} disabled={!valid || !changed || saving} className={buttonClass}>
+            {saving ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+            Save
+          </button>
+          {message && (
+            <p className={`text-[10px] font-black uppercase tracking-wider ${message.tone === 'ok' ? 'text-emerald-400' : 'text-rose-400'}`}>
+              {message.text}
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default SyncPanel;
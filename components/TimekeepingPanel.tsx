@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Globe, Save, RefreshCw } from 'lucide-react';
+import { TimekeepingSettings } from '../types';
+import { isValidTimeOfDay, isValidTimeZone, formatDateTime, businessDate, formatBusinessDate } from '../services/timekeeping';
+
+interface TimekeepingPanelProps {
+  settings: TimekeepingSettings;
+  onSave: (settings: TimekeepingSettings) => Promise<void>;
+}
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+const TimekeepingPanel: React.FC<TimekeepingPanelProps> = ({ settings, onSave }) => {
+  const [timeZone, setTimeZone] = useState(settings.timeZone);
+  const [dayStartsAt, setDayStartsAt] = useState(settings.dayStartsAt);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+
+  const valid = isValidTimeZone(timeZone) && isValidTimeOfDay(dayStartsAt);
+  const changed = timeZone !== settings.timeZone || dayStartsAt !== settings.dayStartsAt;
+  const preview = valid ? { timeZone, dayStartsAt } : settings;
+  const now = Date.now();
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave({ timeZone, dayStartsAt });
+      setMessage({ tone: 'ok', text: 'Timekeeping settings saved' });
+    } catch {
+      setMessage({ tone: 'error', text: 'Could not save settings' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center gap-3">
+        <Globe className="w-5 h-5 text-blue-500" />
+        <h2 className="text-sm font-black text-white uppercase tracking-widest">Timekeeping</h2>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="space-y-1">
+            <span className="block text-[10px] font-black text-gray-500 uppercase tracking-widest">Site Timezone</span>
+            <select value={timeZone} onChange={(e) => setTimeZone(e.target.value)} className={`${inputClass} w-full`}>
+              {!TIME_ZONES.includes(timeZone) && <option value={timeZone}>{timeZone}</option>}
+              {TIME_ZONES.map(zone => <option key={zone} value={zone}>{zone}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="block text-[10px] font-black text-gray-500 uppercase tracking-widest">Business Day Starts At</span>
+            <input type="time" value={dayStartsAt} onChange={(e) => setDayStartsAt(e.target.value)} className={`${inputClass} w-full`} />
+          </label>
+        </div>
+
+        <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">
+          Site time now {formatDateTime(now, preview)} · counts towards {formatBusinessDate(businessDate(now, preview))}
+        </p>
+        <p className="text-[10px] font-bold text-gray-600 uppercase tracking-wider">
+          Events before the start time count towards the previous day, so night shifts stay on one date.
+          Existing records keep the business date they were recorded with.
+        </p>
+
+        <div className="flex items-center gap-4">
+          <button onClick={save} disabled={!valid || !changed || saving} className={buttonClass}>
+            {saving ? <RefreshCw className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />}
+            Save
+          </button>
+          {message && (
+            <p className={`text-[10px] font-black uppercase tracking-wider ${message.tone === 'ok' ? 'text-emerald-400' : 'text-rose-400'}`}>
+              {message.text}
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default TimekeepingPanel;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Lock, KeyRound, RefreshCw } from 'lucide-react';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+interface VaultUnlockProps {
+  mode: 'setup' | 'unlock';
+  error: string | null;
+  onSubmit: (passphrase: string) => Promise<void>;
+}
+
+const VaultUnlock: React.FC<VaultUnlockProps> = ({ mode, error, onSubmit }) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const validationError = mode === 'setup'
+    ? passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+      : passphrase !== confirmation ? 'Passphrases do not match' : null
+    : passphrase.length === 0 ? 'Enter the admin passphrase' : null;
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (validationError) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(passphrase);
+    } finally {
+      setIsSubmitting(false);
+      setPassphrase("");
+      setConfirmation("");
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="max-w-md mx-auto bg-gray-900 border border-gray-800 rounded-[2rem] p-8 shadow-2xl space-y-6">
+      <div className="flex items-center gap-4">
+        <div className="bg-blue-600/10 border border-blue-500/20 p-3 rounded-2xl">
+          {mode === 'setup' ? <KeyRound className="w-6 h-6 text-blue-400" /> : <Lock className="w-6 h-6 text-blue-400" />}
+        </div>
+        <div>
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">
+            {mode === 'setup' ? 'Secure Biometric Vault' : 'Vault Locked'}
+          </h2>
+          <p className="text-[10px] font-bold text-gray-500 uppercase tracking-wider mt-0.5">
+            {mode === 'setup'
+              ? 'Choose an admin passphrase to encrypt face templates'
+              : 'Enter the admin passphrase to unlock face templates'}
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <input
+          type="password"
+          autoFocus
+          placeholder="Admin Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="w-full bg-gray-800 border-2 border-gray-700 rounded-xl px-5 py-3 text-xs font-bold text-white focus:outline-none focus:border-blue-500"
+        />
+        {mode === 'setup' && (
+          <input
+            type="password"
+            placeholder="Confirm Passphrase"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            className="w-full bg-gray-800 border-2 border-gray-700 rounded-xl px-5 py-3 text-xs font-bold text-white focus:outline-none focus:border-blue-500"
+          />
+        )}
+      </div>
+
+      {error && (
+        <p className="text-[10px] font-black text-rose-400 uppercase tracking-wider">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting || !!validationError}
+        className="w-full flex items-center justify-center gap-2 bg-white text-black py-3 rounded-xl font-black text-xs uppercase hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30"
+      >
+        {isSubmitting && <RefreshCw className="w-4 h-4 animate-spin" />}
+        {mode === 'setup' ? 'Create Vault' : 'Unlock'}
+      </button>
+      {mode === 'setup' && (
+        <p className="text-[9px] font-bold text-gray-600 uppercase tracking-wider text-center">
+          The passphrase cannot be recovered. Losing it means re-enrolling all staff.
+        </p>
+      )}
+    </form>
+  );
+};
+
+export default VaultUnlock;
@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { Webhook, Plus, Save, Trash2, X, RotateCcw, RefreshCw } from 'lucide-react';
+import { TimekeepingSettings, WebhookDelivery, WebhookSubscription } from '../types';
+import { KIOSK_EVENT_TYPES } from '../services/events';
+import { createWebhookSecret } from '../services/webhooks';
+import { isValidEndpoint } from '../services/sync';
+import { formatDateTime } from '../services/timekeeping';
+
+interface WebhooksPanelProps {
+  subscriptions: WebhookSubscription[];
+  deliveries: WebhookDelivery[];
+  timekeeping: TimekeepingSettings;
+  onSave: (subscription: WebhookSubscription) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onRetry: (delivery: WebhookDelivery) => Promise<void>;
+  onRefresh: () => Promise<void>;
+}
+
+const inputClass = "bg-gray-800 border border-gray-700 rounded-xl px-4 py-2 text-[10px] font-black text-gray-300 focus:outline-none focus:border-blue-500";
+const buttonClass = "flex items-center justify-center gap-2 px-4 py-2 bg-gray-800 hover:bg-blue-600 text-white border border-gray-700 hover:border-blue-500 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30";
+const labelClass = "block text-[10px] font-black text-gray-500 uppercase tracking-widest";
+const headerCell = "p-4 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50";
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'text-amber-400',
+  delivered: 'text-emerald-400',
+  failed: 'text-rose-400'
+};
+
+const WebhooksPanel: React.FC<WebhooksPanelProps> = ({ subscriptions, deliveries, timekeeping, onSave, onDelete, onRetry, onRefresh }) => {
+  const [draft, setDraft] = useState<WebhookSubscription | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const valid = !!draft && draft.name.trim().length > 0 && isValidEndpoint(draft.url.trim()) && draft.secret.length > 0;
+  const nameOf = (id: string) => subscriptions.find(s => s.id === id)?.name ?? 'Removed';
+
+  const toggleEvent = (type: string) => {
+    if (!draft) return;
+    const events = draft.events.includes(type) ? draft.events.filter(e => e !== type) : [...draft.events, type];
+    setDraft({ ...draft, events });
+  };
+
+  const save = async () => {
+    if (!draft) return;
+    setSaving(true);
+    try {
+      await onSave({ ...draft, name: draft.name.trim(), url: draft.url.trim() });
+      setDraft(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (subscription: WebhookSubscription) => {
+    if (!confirm(`Delete webhook "${subscription.name}"? Pending deliveries to it will be dropped.`)) return;
+    await onDelete(subscription.id);
+  };
+
+  const newSubscription = (): WebhookSubscription => ({
+    id: crypto.randomUUID(),
+    name: '',
+    url: '',
+    secret: createWebhookSecret(),
+    events: [],
+    enabled: true
+  });
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Webhook className="w-5 h-5 text-blue-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Webhooks</h2>
+        </div>
+        {!draft && (
+          <button onClick={() => setDraft(newSubscription())} className={buttonClass}>
+            <Plus className="w-3 h-3" />
+            New Webhook
+          </button>
+        )}
+      </div>
+
+      {subscriptions.length > 0 && (
+        <div className="divide-y divide-gray-800/30">
+          {subscriptions.map(subscription => (
+            <div key={subscription.id} className="px-6 py-4 flex items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className={`text-xs font-bold uppercase truncate ${subscription.enabled ? 'text-gray-200' : 'text-gray-600 line-through'}`}>{subscription.name}</p>
+                <p className="text-[10px] font-bold text-gray-500 tracking-wider mt-0.5 truncate">
+                  {subscription.url} · {subscription.events.length === 0 ? 'all events' : subscription.events.join(', ')}
+                </p>
+              </div>
+              <button onClick={() => setDraft(subscription)} className="text-[10px] font-black text-gray-500 hover:text-blue-400 uppercase tracking-widest transition-colors">
+                Edit
+              </button>
+              <button onClick={() => remove(subscription)} title="Delete Webhook" className="p-1.5 text-gray-700 hover:text-rose-500 hover:bg-rose-500/10 rounded-lg transition-all">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {subscriptions.length === 0 && !draft && (
+        <p className="p-6 text-[10px] font-black text-gray-600 uppercase tracking-widest">
+          No webhooks. Add one to notify door relays, chat or payroll when staff clock in.
+        </p>
+      )}
+
+      {draft && (
+        <div className="p-6 space-y-4 border-t border-gray-800/50">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="space-y-1">
+              <span className={labelClass}>Name</span>
+              <input type="text" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={`${inputClass} w-full`} />
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>URL</span>
+              <input type="url" value={draft.url} placeholder="https://hooks.example.com/attendance" onChange={(e) => setDraft({ ...draft, url: e.target.value })} className={`${inputClass} w-full`} />
+            </label>
+          </div>
+          <label className="space-y-1 block">
+            <span className={labelClass}>Signing Secret</span>
+            <div className="flex gap-2">
+              <input type="text" readOnly value={draft.secret} className={`${inputClass} flex-1 font-mono`} />
+              <button onClick={() => setDraft({ ...draft, secret: createWebhookSecret() })} className={buttonClass}>
+                <RefreshCw className="w-3 h-3" />
+                Regenerate
+              </button>
+            </div>
+          </label>
+
+          <div className="space-y-1">
+            <span className={labelClass}>Events (none selected = all)</span>
+            <div className="flex flex-wrap gap-2">
+              {KIOSK_EVENT_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => toggleEvent(type)}
+                  className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                    draft.events.includes(type)
+                    ? 'bg-blue-600 border-blue-500 text-white'
+                    : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input type="checkbox" checked={draft.enabled} onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })} className="accent-blue-600" />
+            <span className={labelClass}>Enabled</span>
+          </label>
+
+          <div className="flex gap-2">
+            <button onClick={save} disabled={!valid || saving} className={buttonClass}>
+              <Save className="w-3 h-3" />
+              Save Webhook
+            </button>
+            <button onClick={() => setDraft(null)} className={buttonClass}>
+              <X className="w-3 h-3" />
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {subscriptions.length > 0 && (
+        <div className="border-t border-gray-800/50">
+          <div className="px-6 py-4 flex items-center justify-between">
+            <span className={labelClass}>Delivery Log</span>
+            <button onClick={onRefresh} className="text-[10px] font-black text-gray-500 hover:text-blue-400 uppercase tracking-widest transition-colors flex items-center gap-2">
+              <RefreshCw className="w-3 h-3" />
+              Refresh
+            </button>
+          </div>
+          <div className="overflow-x-auto max-h-[400px] overflow-y-auto custom-scrollbar">
+            <table className="w-full text-left border-collapse">
+              <thead>
+                <tr className="bg-gray-950/50">
+                  <th className={headerCell}>Queued</th>
+                  <th className={headerCell}>Event</th>
+                  <th className={headerCell}>Webhook</th>
+                  <th className={headerCell}>Status</th>
+                  <th className={headerCell}>Attempts</th>
+                  <th className={headerCell}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="p-8 text-center">
+                      <p className="text-[10px] font-black uppercase tracking-[0.2em] opacity-20">No deliveries yet</p>
+                    </td>
+                  </tr>
+                ) : (
+                  deliveries.map(delivery => (
+                    <tr key={delivery.id} className="hover:bg-gray-800/30 transition-colors">
+                      <td className="p-4 border-b border-gray-800/50 text-xs text-gray-400">{formatDateTime(delivery.createdAt, timekeeping)}</td>
+                      <td className="p-4 border-b border-gray-800/50 text-xs font-bold text-gray-300">{delivery.eventType}</td>
+                      <td className="p-4 border-b border-gray-800/50 text-xs font-bold text-gray-300 uppercase">{nameOf(delivery.subscriptionId)}</td>
+                      <td className="p-4 border-b border-gray-800/50">
+                        <span className={`text-[10px] font-black uppercase ${STATUS_STYLES[delivery.status]}`}>{delivery.status}</span>
+                        {delivery.lastError && <p className="text-[9px] font-bold text-gray-500 mt-0.5 break-all">{delivery.lastError}</p>}
+                      </td>
+                      <td className="p-4 border-b border-gray-800/50 text-xs font-black text-gray-400">{delivery.attempts}</td>
+                      <td className="p-4 border-b border-gray-800/50 text-right">
+                        {delivery.status === 'failed' && (
+                          <button onClick={() => onRetry(delivery)} title="Retry Delivery" className="p-1.5 text-gray-500 hover:text-blue-400 hover:bg-blue-500/10 rounded-lg transition-all">
+                            <RotateCcw className="w-3 h-3" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default WebhooksPanel;
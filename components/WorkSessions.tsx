@@ -0,0 +1,90 @@
+import React from 'react';
+import { Timer, AlertTriangle } from 'lucide-react';
+import { WorkSession, TimekeepingSettings } from '../types';
+import { formatDuration } from '../services/attendance';
+import { formatBusinessDate, formatTime } from '../services/timekeeping';
+
+interface WorkSessionsProps {
+  sessions: WorkSession[];
+  timekeeping: TimekeepingSettings;
+}
+
+const STATUS_STYLES: Record<WorkSession['status'], { label: string; className: string }> = {
+  closed: { label: 'Completed', className: 'bg-emerald-500/10 border-emerald-500/20 text-emerald-500' },
+  open: { label: 'In Progress', className: 'bg-blue-500/10 border-blue-500/20 text-blue-400' },
+  missing_out: { label: 'No Clock-out', className: 'bg-rose-500/10 border-rose-500/20 text-rose-500' }
+};
+
+const WorkSessions: React.FC<WorkSessionsProps> = ({ sessions, timekeeping }) => {
+  const unclosed = sessions.filter(s => s.status === 'missing_out').length;
+
+  return (
+    <section className="bg-gray-900 border border-gray-800 rounded-[2rem] overflow-hidden shadow-2xl">
+      <div className="p-6 border-b border-gray-800/50 bg-gray-950/40 flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Timer className="w-5 h-5 text-blue-500" />
+          <h2 className="text-sm font-black text-white uppercase tracking-widest">Work Sessions</h2>
+        </div>
+        {unclosed > 0 && (
+          <span className="flex items-center gap-2 text-[10px] font-black text-rose-500 uppercase tracking-widest">
+            <AlertTriangle className="w-3 h-3" />
+            {unclosed} open at day end
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-gray-950/50">
+              <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Staff Member</th>
+              <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Date</th>
+              <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">In / Out</th>
+              <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Breaks</th>
+              <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Hours Worked</th>
+              <th className="p-5 text-[10px] font-black text-gray-500 uppercase tracking-widest border-b border-gray-800/50">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sessions.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="p-12 text-center">
+                  <p className="text-[10px] font-black uppercase tracking-[0.2em] opacity-20">No sessions yet</p>
+                </td>
+              </tr>
+            ) : (
+              sessions.map((session) => (
+                <tr key={session.inLogId} className="hover:bg-gray-800/30 transition-colors">
+                  <td className="p-5 border-b border-gray-800/50">
+                    <span className="text-xs font-bold text-gray-200 uppercase">{session.name}</span>
+                  </td>
+                  <td className="p-5 border-b border-gray-800/50">
+                    <span className="text-xs font-medium text-gray-400">{formatBusinessDate(session.businessDate)}</span>
+                  </td>
+                  <td className="p-5 border-b border-gray-800/50">
+                    <span className="text-xs font-black text-gray-300">
+                      {formatTime(session.clockIn, timekeeping)} – {session.clockOut ? formatTime(session.clockOut, timekeeping) : '··:··'}
+                    </span>
+                  </td>
+                  <td className="p-5 border-b border-gray-800/50">
+                    <span className="text-xs font-medium text-gray-400">{session.breakMs > 0 ? formatDuration(session.breakMs) : '—'}</span>
+                  </td>
+                  <td className="p-5 border-b border-gray-800/50">
+                    <span className="text-xs font-black text-gray-300">{session.status === 'missing_out' ? '—' : formatDuration(session.workedMs)}</span>
+                  </td>
+                  <td className="p-5 border-b border-gray-800/50">
+                    <span className={`inline-flex items-center px-3 py-1 border rounded-full text-[9px] font-black uppercase tracking-wider whitespace-nowrap ${STATUS_STYLES[session.status].className}`}>
+                      {STATUS_STYLES[session.status].label}
+                    </span>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default WorkSessions;
@@ -1,7 +1,12 @@
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { registerSW } from 'virtual:pwa-register';
 import App from './App';
+import './index.css';
+
+// Precache the app shell and model weights so the kiosk starts without network
+registerSW({ immediate: true });
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
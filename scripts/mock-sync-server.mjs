@@ -0,0 +1,194 @@
+// Local stand-in for the central attendance API (docs/sync-api.md), for testing sync without a backend.
+// Also receives webhooks at /webhooks (docs/webhooks.md) and checks their signatures.
+//
+//   npm run mock-server
+//
+// Environment:
+//   PORT       listen port (default 8787)
+//   MOCK_TOKEN require "Authorization: Bearer <token>" when set
+//   FAIL_RATE  fraction of requests answered with 503, to exercise retries (default 0)
+//   DATA_FILE  persist state to this JSON file between runs (default: memory only)
+//   WEBHOOK_SECRET  verify X-Webhook-Signature on /webhooks with this secret
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const TOKEN = process.env.MOCK_TOKEN ?? '';
+const FAIL_RATE = Number(process.env.FAIL_RATE ?? 0);
+const DATA_FILE = process.env.DATA_FILE ?? '';
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET ?? '';
+// Signatures older than this are treated as replays
+const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+const DESCRIPTOR_LENGTH = 128;
+
+// attendance: id -> record; profiles: id -> { profile, seq }; deleted: id -> seq; sites: id -> site
+const state = { seq: 0, attendance: {}, profiles: {}, deleted: {}, sites: {} };
+if (DATA_FILE && fs.existsSync(DATA_FILE)) Object.assign(state, JSON.parse(fs.readFileSync(DATA_FILE, 'utf8')));
+const save = () => DATA_FILE && fs.writeFileSync(DATA_FILE, JSON.stringify(state, null, 2));
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Device-Id, X-Webhook-Id, X-Webhook-Event, X-Webhook-Signature',
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' })
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readText = (req) => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+const readBody = async (req) => {
+  const text = await readText(req);
+  return text ? JSON.parse(text) : undefined;
+};
+
+const verifySignature = (header, body) => {
+  const parts = Object.fromEntries(String(header ?? '').split(',').map(part => part.split('=')));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp) || Math.abs(Date.now() - timestamp) > WEBHOOK_TOLERANCE_MS) return false;
+  const expected = crypto.createHmac('sha256', WEBHOOK_SECRET).update(`${timestamp}.${body}`).digest('hex');
+  return expected.length === parts.v1.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+};
+
+const isDescriptor = (value) => Array.isArray(value) && value.length === DESCRIPTOR_LENGTH && value.every(Number.isFinite);
+
+const attendanceProblem = (record) => {
+  if (!record || typeof record.id !== 'string' || !record.id) return 'id is required';
+  if (typeof record.name !== 'string' || !record.name) return 'name is required';
+  if (!Number.isFinite(record.timestamp)) return 'timestamp must be epoch milliseconds';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(record.businessDate ?? '')) return 'businessDate must be YYYY-MM-DD';
+  if (record.type !== undefined && !['IN', 'OUT', 'BREAK_START', 'BREAK_END'].includes(record.type)) return 'unknown event type';
+  if (record.source === 'manual' && !record.reason) return 'manual records need a reason';
+  if (record.siteId !== undefined && (typeof record.siteId !== 'string' || !record.siteId)) return 'siteId must be a site code';
+  return null;
+};
+
+const profileProblem = (id, profile) => {
+  if (!profile || profile.id !== id) return 'profile id must match the URL';
+  if (typeof profile.name !== 'string' || !profile.name) return 'name is required';
+  const purged = Number.isFinite(profile.templatesPurgedAt) && Array.isArray(profile.descriptor) && profile.descriptor.length === 0;
+  if (!purged && !isDescriptor(profile.descriptor)) return `descriptor must be ${DESCRIPTOR_LENGTH} numbers`;
+  if (profile.descriptors !== undefined && !(Array.isArray(profile.descriptors) && profile.descriptors.every(isDescriptor))) {
+    return 'descriptors must be a list of descriptors';
+  }
+  if (profile.siteIds !== undefined && !(Array.isArray(profile.siteIds) && profile.siteIds.every(id => typeof id === 'string' && id))) {
+    return 'siteIds must be a list of site codes';
+  }
+  if (profile.staffId !== undefined) {
+    const owner = Object.values(state.profiles).find(entry => entry.profile.id !== id && entry.profile.staffId === profile.staffId);
+    if (owner) return `staffId ${profile.staffId} already belongs to ${owner.profile.id}`;
+  }
+  return null;
+};
+
+const handle = async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const deviceId = req.headers['x-device-id'] ?? 'unknown';
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  // Webhook receiver: signed with the subscription secret rather than the API token
+  if (url.pathname === '/webhooks' && req.method === 'POST') {
+    const body = await readText(req);
+    if (WEBHOOK_SECRET && !verifySignature(req.headers['x-webhook-signature'], body)) {
+      console.log(`webhook ${req.headers['x-webhook-id']}: bad signature`);
+      return send(res, 401, { error: 'bad signature' });
+    }
+    const event = JSON.parse(body);
+    console.log(`webhook ${req.headers['x-webhook-id']}: ${event.type} ${JSON.stringify(event.data)}`);
+    return send(res, 204);
+  }
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) return send(res, 401, { error: 'invalid token' });
+  if (Math.random() < FAIL_RATE) return send(res, 503, { error: 'injected failure' });
+
+  if (url.pathname === '/api/attendance' && req.method === 'POST') {
+    const body = await readBody(req);
+    if (!Array.isArray(body?.records)) return send(res, 400, { error: 'records must be an array' });
+    const accepted = [];
+    const rejected = [];
+    for (const record of body.records) {
+      const problem = attendanceProblem(record);
+      if (problem) {
+        rejected.push({ id: record?.id ?? '', reason: problem });
+        continue;
+      }
+      // The record id is the idempotency key: a replay is accepted without a second copy,
+      // and only a higher revision (an admin correction) replaces what is stored
+      const stored = state.attendance[record.id];
+      if (!stored || (record.revision ?? 0) > (stored.revision ?? 0)) {
+        // Records carry the device that made them; older ones fall back to the sender
+        state.attendance[record.id] = { deviceId, ...record, receivedAt: Date.now() };
+      }
+      accepted.push(record.id);
+    }
+    save();
+    console.log(`[${deviceId}] attendance: ${accepted.length} accepted, ${rejected.length} rejected`);
+    return send(res, 200, { accepted, rejected });
+  }
+
+  if (url.pathname === '/api/attendance' && req.method === 'GET') {
+    const records = Object.values(state.attendance).sort((a, b) => a.timestamp - b.timestamp);
+    return send(res, 200, { records });
+  }
+
+  if (url.pathname === '/api/profiles' && req.method === 'GET') {
+    const since = Number(url.searchParams.get('since') ?? 0) || 0;
+    const profiles = Object.values(state.profiles).filter(entry => entry.seq > since).map(entry => entry.profile);
+    const deleted = Object.entries(state.deleted).filter(([, seq]) => seq > since).map(([id]) => id);
+    return send(res, 200, { profiles, deleted, cursor: String(state.seq) });
+  }
+
+  if (url.pathname === '/api/sites' && req.method === 'GET') {
+    return send(res, 200, { sites: Object.values(state.sites) });
+  }
+
+  const siteMatch = url.pathname.match(/^\/api\/sites\/([^/]+)$/);
+  if (siteMatch && req.method === 'PUT') {
+    const id = decodeURIComponent(siteMatch[1]);
+    const site = await readBody(req);
+    if (!site || site.id !== id) return send(res, 422, { error: 'site id must match the URL' });
+    if (typeof site.name !== 'string' || !site.name) return send(res, 422, { error: 'name is required' });
+    state.sites[id] = site;
+    save();
+    console.log(`[${deviceId}] site saved: ${site.name} (${id})`);
+    return send(res, 200, site);
+  }
+
+  const profileMatch = url.pathname.match(/^\/api\/profiles\/([^/]+)$/);
+  if (profileMatch) {
+    const id = decodeURIComponent(profileMatch[1]);
+    if (req.method === 'PUT') {
+      const profile = await readBody(req);
+      const problem = profileProblem(id, profile);
+      if (problem) return send(res, 422, { error: problem });
+      state.profiles[id] = { profile, seq: ++state.seq };
+      delete state.deleted[id];
+      save();
+      console.log(`[${deviceId}] profile saved: ${profile.name}`);
+      return send(res, 200, profile);
+    }
+    if (req.method === 'DELETE') {
+      if (!state.profiles[id]) return send(res, 404, { error: 'unknown profile' });
+      delete state.profiles[id];
+      state.deleted[id] = ++state.seq;
+      save();
+      console.log(`[${deviceId}] profile deleted: ${id}`);
+      return send(res, 204);
+    }
+  }
+
+  send(res, 404, { error: 'not found' });
+};
+
+http.createServer((req, res) => {
+  handle(req, res).catch(err => send(res, 400, { error: err.message }));
+}).listen(PORT, () => {
+  console.log(`Mock attendance API on http://localhost:${PORT}/api${TOKEN ? ' (token required)' : ''}`);
+});
@@ -0,0 +1,47 @@
+import { toBase64, fromBase64 } from './vault';
+
+/**
+ * Admin PIN handling. Only a salted PBKDF2 hash of the PIN is persisted
+ * (in the settings store under ADMIN_PIN_SETTING).
+ */
+
+export const ADMIN_PIN_SETTING = 'admin_pin';
+export const ADMIN_IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 60 * 1000;
+
+const PIN_ITERATIONS = 100000;
+
+export interface AdminPinCredential {
+  salt: string; // base64
+  iterations: number;
+  hash: string; // base64
+}
+
+const hashPin = async (pin: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const material = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, 256
+  );
+  return new Uint8Array(bits);
+};
+
+export const createPinCredential = async (pin: string): Promise<AdminPinCredential> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await hashPin(pin, salt, PIN_ITERATIONS);
+  return { salt: toBase64(salt), iterations: PIN_ITERATIONS, hash: toBase64(hash) };
+};
+
+export const verifyPin = async (pin: string, credential: AdminPinCredential): Promise<boolean> => {
+  const expected = fromBase64(credential.hash);
+  const actual = await hashPin(pin, fromBase64(credential.salt), credential.iterations);
+  // Compare every byte so timing does not leak how much of the PIN matched
+  let diff = expected.length ^ actual.length;
+  for (let i = 0; i < Math.min(expected.length, actual.length); i++) diff |= expected[i] ^ actual[i];
+  return diff === 0;
+};
+
+export const isValidPin = (pin: string) => /^\d+$/.test(pin) && pin.length >= MIN_PIN_LENGTH && pin.length <= 8;
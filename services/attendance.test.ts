@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceEventType, AttendanceRecord, TimekeepingSettings } from '../types';
+import { MIN_EVENT_GAP_MS, buildWorkSessions, resolveNextEvent } from './attendance';
+import { businessDate } from './timekeeping';
+
+const timekeeping: TimekeepingSettings = { timeZone: 'UTC', dayStartsAt: '00:00' };
+const alice = { id: 'id-alice', name: 'alice' };
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const at = (iso: string) => new Date(`${iso}Z`);
+
+const record = (type: AttendanceEventType, iso: string, owner: Partial<typeof alice> = alice, settings = timekeeping): AttendanceRecord => {
+  const timestamp = at(iso).getTime();
+  return {
+    id: `${owner.name}-${type}-${iso}`,
+    profileId: owner.id,
+    name: owner.name!,
+    timestamp,
+    businessDate: businessDate(timestamp, settings),
+    type
+  };
+};
+
+// Newest first, as the kiosk keeps them
+const history = (...records: AttendanceRecord[]) => [...records].sort((a, b) => b.timestamp - a.timestamp);
+
+describe('resolveNextEvent', () => {
+  it('clocks in on the first scan of the day', () => {
+    expect(resolveNextEvent([], alice, 'AUTO', at('2024-03-04T08:00'), timekeeping))
+      .toEqual({ outcome: 'accepted', type: 'IN' });
+  });
+
+  it('alternates IN and OUT in auto mode', () => {
+    const logs = history(record('IN', '2024-03-04T08:00'));
+    expect(resolveNextEvent(logs, alice, 'AUTO', at('2024-03-04T17:00'), timekeeping))
+      .toEqual({ outcome: 'accepted', type: 'OUT' });
+  });
+
+  it('ends a break before anything else in auto mode', () => {
+    const logs = history(record('IN', '2024-03-04T08:00'), record('BREAK_START', '2024-03-04T12:00'));
+    expect(resolveNextEvent(logs, alice, 'AUTO', at('2024-03-04T12:45'), timekeeping))
+      .toEqual({ outcome: 'accepted', type: 'BREAK_END' });
+  });
+
+  it('rejects a repeat scan inside the minimum gap', () => {
+    const last = record('IN', '2024-03-04T08:00');
+    const now = new Date(last.timestamp + MIN_EVENT_GAP_MS - 1);
+    expect(resolveNextEvent([last], alice, 'AUTO', now, timekeeping))
+      .toEqual({ outcome: 'rejected', reason: 'too_soon', last });
+  });
+
+  it('rejects an explicit event that does not follow the last one', () => {
+    const logs = history(record('IN', '2024-03-04T08:00'));
+    expect(resolveNextEvent(logs, alice, 'BREAK_END', at('2024-03-04T10:00'), timekeeping))
+      .toMatchObject({ outcome: 'rejected', reason: 'invalid_transition' });
+    expect(resolveNextEvent(logs, alice, 'BREAK_START', at('2024-03-04T10:00'), timekeeping))
+      .toEqual({ outcome: 'accepted', type: 'BREAK_START' });
+  });
+
+  it('starts over after a session left open on a previous business day', () => {
+    const logs = history(record('IN', '2024-03-03T08:00'));
+    expect(resolveNextEvent(logs, alice, 'AUTO', at('2024-03-04T08:00'), timekeeping))
+      .toEqual({ outcome: 'accepted', type: 'IN' });
+  });
+
+  it('keeps a night shift on its business day until the cutoff', () => {
+    const nightShift: TimekeepingSettings = { timeZone: 'UTC', dayStartsAt: '06:00' };
+    const logs = history(record('IN', '2024-03-04T22:00', alice, nightShift));
+    expect(resolveNextEvent(logs, alice, 'AUTO', at('2024-03-05T05:30'), nightShift))
+      .toEqual({ outcome: 'accepted', type: 'OUT' });
+    expect(resolveNextEvent(logs, alice, 'AUTO', at('2024-03-05T06:30'), nightShift))
+      .toEqual({ outcome: 'accepted', type: 'IN' });
+  });
+
+  it('tells apart two people with the same name by profile', () => {
+    const namesake = { id: 'id-alice-2', name: 'alice' };
+    const logs = history(record('IN', '2024-03-04T08:00', namesake));
+    expect(resolveNextEvent(logs, alice, 'AUTO', at('2024-03-04T09:00'), timekeeping))
+      .toEqual({ outcome: 'accepted', type: 'IN' });
+  });
+
+  it('attributes legacy records without a profile by name', () => {
+    const logs = history(record('IN', '2024-03-04T08:00', { name: 'alice' }));
+    expect(resolveNextEvent(logs, alice, 'AUTO', at('2024-03-04T09:00'), timekeeping))
+      .toEqual({ outcome: 'accepted', type: 'OUT' });
+  });
+});
+
+describe('buildWorkSessions', () => {
+  it('subtracts breaks from a closed session', () => {
+    const logs = history(
+      record('IN', '2024-03-04T08:00'),
+      record('BREAK_START', '2024-03-04T12:00'),
+      record('BREAK_END', '2024-03-04T12:30'),
+      record('OUT', '2024-03-04T17:00')
+    );
+    const [session] = buildWorkSessions(logs, at('2024-03-04T18:00'), timekeeping);
+    expect(session).toMatchObject({ status: 'closed', breakMs: 30 * MINUTE, workedMs: 8.5 * HOUR });
+  });
+
+  it('counts an open session up to now, excluding a break in progress', () => {
+    const logs = history(record('IN', '2024-03-04T08:00'), record('BREAK_START', '2024-03-04T12:00'));
+    const [session] = buildWorkSessions(logs, at('2024-03-04T12:20'), timekeeping);
+    expect(session).toMatchObject({ status: 'open', workedMs: 4 * HOUR });
+  });
+
+  it('flags a session never closed on its business day', () => {
+    const logs = history(record('IN', '2024-03-03T08:00'), record('IN', '2024-03-04T08:00'), record('OUT', '2024-03-04T16:00'));
+    const sessions = buildWorkSessions(logs, at('2024-03-04T18:00'), timekeeping);
+    expect(sessions.map(s => [s.businessDate, s.status])).toEqual([
+      ['2024-03-04', 'closed'],
+      ['2024-03-03', 'missing_out']
+    ]);
+  });
+
+  it('keeps sessions of different people apart', () => {
+    const bob = { id: 'id-bob', name: 'bob' };
+    const logs = history(
+      record('IN', '2024-03-04T08:00'),
+      record('IN', '2024-03-04T09:00', bob),
+      record('OUT', '2024-03-04T16:00')
+    );
+    const sessions = buildWorkSessions(logs, at('2024-03-04T17:00'), timekeeping);
+    expect(sessions.map(s => [s.name, s.status])).toEqual([['bob', 'open'], ['alice', 'closed']]);
+  });
+});
@@ -0,0 +1,157 @@
+import { AttendanceRecord, AttendanceEventType, AttendanceEventMode, WorkSession, TimekeepingSettings, UserFaceProfile } from '../types';
+import { businessDate, DEFAULT_TIMEKEEPING_SETTINGS } from './timekeeping';
+
+/**
+ * Clock-in / clock-out rules and work session computation.
+ * Everything here is pure so it can be reused by reports and exports.
+ */
+
+// Scans of the same person closer together than this are treated as duplicates
+export const MIN_EVENT_GAP_MS = 60 * 1000;
+
+export const EVENT_LABELS: Record<AttendanceEventType, string> = {
+  IN: 'Clock In',
+  OUT: 'Clock Out',
+  BREAK_START: 'Break Start',
+  BREAK_END: 'Break End'
+};
+
+// Events allowed after the person's previous event (NONE = no open session this business day)
+const ALLOWED_TRANSITIONS: Record<AttendanceEventType | 'NONE', AttendanceEventType[]> = {
+  NONE: ['IN'],
+  IN: ['OUT', 'BREAK_START'],
+  BREAK_START: ['BREAK_END', 'OUT'],
+  BREAK_END: ['OUT', 'BREAK_START'],
+  OUT: ['IN']
+};
+
+export const getEventType = (record: AttendanceRecord): AttendanceEventType => record.type ?? 'IN';
+
+// Who a record belongs to; records never linked to a profile fall back to their name
+export const recordOwner = (record: AttendanceRecord): string => record.profileId ?? record.name;
+
+export const isRecordOf = (record: AttendanceRecord, profile: Pick<UserFaceProfile, 'id' | 'name'>) =>
+  record.profileId ? record.profileId === profile.id : record.name === profile.name;
+
+// Whether any of the records belongs to the profile, given their owners
+export const hasOwner = (owners: Set<string>, profile: Pick<UserFaceProfile, 'id' | 'name'>) =>
+  owners.has(profile.id) || owners.has(profile.name);
+
+export type EventResolution =
+  | { outcome: 'accepted'; type: AttendanceEventType }
+  | { outcome: 'rejected'; reason: 'too_soon' | 'invalid_transition'; last?: AttendanceRecord };
+
+/**
+ * Decide which event a scan should record for a person.
+ * Logs are expected newest first, as kept in state.
+ */
+export const resolveNextEvent = (
+  logs: AttendanceRecord[],
+  profile: Pick<UserFaceProfile, 'id' | 'name'>,
+  mode: AttendanceEventMode,
+  now: Date = new Date(),
+  timekeeping: TimekeepingSettings = DEFAULT_TIMEKEEPING_SETTINGS
+): EventResolution => {
+  const last = logs.find(log => isRecordOf(log, profile));
+
+  if (last && now.getTime() - last.timestamp < MIN_EVENT_GAP_MS) {
+    return { outcome: 'rejected', reason: 'too_soon', last };
+  }
+
+  // A session left open on a previous business day does not carry over
+  const lastState: AttendanceEventType | 'NONE' =
+    last && last.businessDate === businessDate(now.getTime(), timekeeping) ? getEventType(last) : 'NONE';
+  const allowed = ALLOWED_TRANSITIONS[lastState];
+
+  if (mode === 'AUTO') {
+    if (lastState === 'BREAK_START') return { outcome: 'accepted', type: 'BREAK_END' };
+    return { outcome: 'accepted', type: allowed[0] };
+  }
+
+  return allowed.includes(mode)
+    ? { outcome: 'accepted', type: mode }
+    : { outcome: 'rejected', reason: 'invalid_transition', last };
+};
+
+/**
+ * Pair IN/OUT events per person into sessions, subtracting breaks.
+ * Sessions still open after their business day ended are flagged as missing_out.
+ */
+export const buildWorkSessions = (
+  logs: AttendanceRecord[],
+  now: Date = new Date(),
+  timekeeping: TimekeepingSettings = DEFAULT_TIMEKEEPING_SETTINGS
+): WorkSession[] => {
+  const today = businessDate(now.getTime(), timekeeping);
+  const byOwner = new Map<string, AttendanceRecord[]>();
+  for (const log of logs) {
+    const list = byOwner.get(recordOwner(log)) ?? [];
+    list.push(log);
+    byOwner.set(recordOwner(log), list);
+  }
+
+  const sessions: WorkSession[] = [];
+
+  const closeOpen = (session: WorkSession, breakStart: number | null) => {
+    if (session.businessDate === today) {
+      const pendingBreak = breakStart !== null ? now.getTime() - breakStart : 0;
+      session.workedMs = now.getTime() - session.clockIn - session.breakMs - pendingBreak;
+      session.status = 'open';
+    } else {
+      session.workedMs = 0;
+      session.status = 'missing_out';
+    }
+    sessions.push(session);
+  };
+
+  for (const events of byOwner.values()) {
+    events.sort((a, b) => a.timestamp - b.timestamp);
+    let current: WorkSession | null = null;
+    let breakStart: number | null = null;
+
+    for (const event of events) {
+      const type = getEventType(event);
+      if (type === 'IN') {
+        if (current) closeOpen(current, breakStart);
+        current = {
+          profileId: event.profileId,
+          name: event.name,
+          businessDate: event.businessDate,
+          inLogId: event.id,
+          clockIn: event.timestamp,
+          breakMs: 0,
+          workedMs: 0,
+          status: 'open'
+        };
+        breakStart = null;
+      } else if (!current) {
+        continue;
+      } else if (type === 'BREAK_START') {
+        breakStart = event.timestamp;
+      } else if (type === 'BREAK_END') {
+        if (breakStart !== null) current.breakMs += event.timestamp - breakStart;
+        breakStart = null;
+      } else {
+        if (breakStart !== null) current.breakMs += event.timestamp - breakStart;
+        current.outLogId = event.id;
+        current.clockOut = event.timestamp;
+        current.workedMs = event.timestamp - current.clockIn - current.breakMs;
+        current.status = 'closed';
+        sessions.push(current);
+        current = null;
+        breakStart = null;
+      }
+    }
+
+    if (current) closeOpen(current, breakStart);
+  }
+
+  return sessions.sort((a, b) => b.clockIn - a.clockIn);
+};
+
+export const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+};
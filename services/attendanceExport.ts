@@ -0,0 +1,103 @@
+import { AttendanceRecord, Site, TimekeepingSettings, UserFaceProfile } from '../types';
+import { getEventType } from './attendance';
+import { calendarDate, formatTime } from './timekeeping';
+import { siteName } from './sites';
+
+/**
+ * Attendance exports for HR. Timestamps are written as ISO 8601 (UTC) so the
+ * files do not depend on the kiosk's locale settings; local columns use the
+ * configured site timezone.
+ */
+
+export interface AttendanceExportRow {
+  id: string;
+  profileId: string; // Empty for records never linked to a profile
+  staffId: string; // Current employee number of the profile
+  name: string; // As recorded at the time of the event
+  event: string;
+  source: string; // face or manual
+  siteId: string; // Empty for records from before devices were attributed
+  site: string; // Site name as known on this device
+  deviceId: string;
+  timestamp: string; // ISO 8601, UTC
+  businessDate: string; // YYYY-MM-DD business day the event counts towards
+  localDate: string; // YYYY-MM-DD calendar date in site time
+  localTime: string; // HH:mm in site time
+}
+
+export const toExportRows = (
+  records: AttendanceRecord[],
+  timekeeping: TimekeepingSettings,
+  profiles: UserFaceProfile[] = [],
+  sites: Site[] = []
+): AttendanceExportRow[] => {
+  const staffIds = new Map(profiles.map(p => [p.id, p.staffId ?? '']));
+  return [...records]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(record => ({
+      id: record.id,
+      profileId: record.profileId ?? '',
+      staffId: (record.profileId && staffIds.get(record.profileId)) || '',
+      name: record.name,
+      event: getEventType(record),
+      source: record.source ?? 'face',
+      siteId: record.siteId ?? '',
+      site: record.siteId ? siteName(sites, record.siteId) : '',
+      deviceId: record.deviceId ?? '',
+      timestamp: new Date(record.timestamp).toISOString(),
+      businessDate: record.businessDate,
+      localDate: calendarDate(record.timestamp, timekeeping.timeZone),
+      localTime: formatTime(record.timestamp, timekeeping)
+    }));
+};
+
+const CSV_COLUMNS: (keyof AttendanceExportRow)[] = ['id', 'profileId', 'staffId', 'name', 'event', 'source', 'siteId', 'site', 'deviceId', 'timestamp', 'businessDate', 'localDate', 'localTime'];
+
+const escapeCsv = (value: string) => {
+  // Leading formula characters are neutralised so spreadsheets do not evaluate names
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * CSV with a UTF-8 BOM and CRLF line endings so Excel opens it directly.
+ */
+export const attendanceToCsv = (
+  records: AttendanceRecord[],
+  timekeeping: TimekeepingSettings,
+  profiles: UserFaceProfile[] = [],
+  sites: Site[] = []
+): string => {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...toExportRows(records, timekeeping, profiles, sites).map(row => CSV_COLUMNS.map(col => escapeCsv(row[col])).join(','))
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+export const attendanceToJson = (
+  records: AttendanceRecord[],
+  filter: { profileId?: string; siteId?: string; from?: string; to?: string },
+  timekeeping: TimekeepingSettings,
+  profiles: UserFaceProfile[] = [],
+  sites: Site[] = []
+): string =>
+  JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    timeZone: timekeeping.timeZone,
+    dayStartsAt: timekeeping.dayStartsAt,
+    filter,
+    count: records.length,
+    records: toExportRows(records, timekeeping, profiles, sites)
+  }, null, 2);
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
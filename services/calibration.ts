@@ -0,0 +1,90 @@
+import { UserFaceProfile } from '../types';
+import { calculateDistance } from './faceApi';
+import { getTemplates, profileDistance } from './matching';
+
+/**
+ * Threshold calibration from the enrolled registry itself. Genuine distances
+ * compare each stored template against the person's other templates; impostor
+ * distances compare it against every other profile the way the matcher would.
+ */
+
+export const CANDIDATE_THRESHOLDS = [0.3, 0.35, 0.4, 0.45, 0.5, 0.55, 0.6, 0.65, 0.7];
+export const TARGET_FAR = 0.01;
+const HISTOGRAM_BIN_WIDTH = 0.05;
+const HISTOGRAM_MAX = 1;
+
+export interface ThresholdRate {
+  threshold: number;
+  far: number; // impostor pairs accepted at this threshold
+  frr: number; // genuine pairs rejected at this threshold
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  genuine: number;
+  impostor: number;
+}
+
+export interface CalibrationReport {
+  genuine: number[];
+  impostor: number[];
+  rates: ThresholdRate[];
+  histogram: HistogramBin[];
+  // Highest candidate whose FAR stays at or under TARGET_FAR
+  recommendedThreshold?: number;
+  // Candidate where FAR and FRR are closest (equal error rate)
+  equalErrorRate?: ThresholdRate;
+}
+
+export const collectDistances = (profiles: UserFaceProfile[]) => {
+  const genuine: number[] = [];
+  const impostor: number[] = [];
+
+  for (const profile of profiles) {
+    const templates = getTemplates(profile);
+    // The first template is the mean of the rest, so leave-one-out skips it
+    const samples = templates.length > 1 ? templates.slice(1) : templates;
+    for (let i = 0; i < samples.length; i++) {
+      for (let j = i + 1; j < samples.length; j++) {
+        genuine.push(calculateDistance(samples[i], samples[j]));
+      }
+      for (const other of profiles) {
+        if (other.id !== profile.id) impostor.push(profileDistance(samples[i], other));
+      }
+    }
+  }
+  return { genuine, impostor };
+};
+
+const rate = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+export const buildCalibrationReport = (profiles: UserFaceProfile[]): CalibrationReport => {
+  const { genuine, impostor } = collectDistances(profiles);
+
+  const rates = CANDIDATE_THRESHOLDS.map(threshold => ({
+    threshold,
+    far: rate(impostor.filter(d => d < threshold).length, impostor.length),
+    frr: rate(genuine.filter(d => d >= threshold).length, genuine.length)
+  }));
+
+  const histogram: HistogramBin[] = [];
+  for (let from = 0; from < HISTOGRAM_MAX - 1e-9; from += HISTOGRAM_BIN_WIDTH) {
+    const to = from + HISTOGRAM_BIN_WIDTH;
+    const inBin = (d: number) => d >= from && (d < to || (to >= HISTOGRAM_MAX && d >= HISTOGRAM_MAX));
+    histogram.push({ from, to, genuine: genuine.filter(inBin).length, impostor: impostor.filter(inBin).length });
+  }
+
+  const hasData = genuine.length > 0 && impostor.length > 0;
+  const acceptable = rates.filter(r => r.far <= TARGET_FAR);
+  return {
+    genuine,
+    impostor,
+    rates,
+    histogram,
+    recommendedThreshold: hasData && acceptable.length > 0 ? acceptable[acceptable.length - 1].threshold : undefined,
+    equalErrorRate: hasData
+      ? rates.reduce((best, r) => (Math.abs(r.far - r.frr) < Math.abs(best.far - best.frr) ? r : best))
+      : undefined
+  };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { FaceSample } from '../types';
+import { createFakeRecognitionEngine, FakeFace } from './fakeRecognitionEngine';
+import { FrameSource } from './recognitionEngine';
+import { NO_FACE_GUIDANCE, assessFrame, mostProminent } from './captureGuidance';
+
+const frame = {} as FrameSource;
+const WELL_LIT = 128;
+
+const sampleOf = async (face: FakeFace): Promise<FaceSample> => {
+  const engine = createFakeRecognitionEngine();
+  engine.show(face);
+  const [sample] = await engine.detect(frame, false);
+  return sample;
+};
+
+describe('assessFrame', () => {
+  it('is ready for a steady, centred, well-lit face', async () => {
+    const sample = await sampleOf({ identity: 'alice' });
+    expect(assessFrame(sample, WELL_LIT, sample.box)).toEqual({ message: 'Looking good. Hold still.', ready: true });
+    expect(assessFrame(null, null, null)).toBe(NO_FACE_GUIDANCE);
+  });
+
+  it('guides on distance, pose, light and movement', async () => {
+    const far = await sampleOf({ identity: 'alice', box: { x: 290, y: 200, width: 60, height: 72 } });
+    const near = await sampleOf({ identity: 'alice', box: { x: 60, y: 0, width: 520, height: 600 } });
+    const turned = await sampleOf({ identity: 'alice', yaw: 0.2 });
+    const offCentre = await sampleOf({ identity: 'alice', box: { x: 10, y: 100, width: 200, height: 240 } });
+    const centred = await sampleOf({ identity: 'alice' });
+
+    expect(assessFrame(far, WELL_LIT, null).message).toBe('Move closer to the camera.');
+    expect(assessFrame(near, WELL_LIT, null).message).toBe('Move back a little.');
+    expect(assessFrame(turned, WELL_LIT, null).message).toBe('Face the camera directly.');
+    expect(assessFrame(offCentre, WELL_LIT, null).message).toBe('Move to the middle of the frame.');
+    expect(assessFrame(centred, 20, null).message).toBe('Too dark. Face a light source.');
+    expect(assessFrame(centred, 240, null).message).toBe('Too bright. Move out of direct light.');
+    expect(assessFrame(centred, WELL_LIT, { ...centred.box, x: centred.box.x + 40 })).toEqual({ message: 'Hold still.', ready: false });
+  });
+
+  it('guides the largest face in a group', async () => {
+    const small = await sampleOf({ identity: 'bob', box: { x: 0, y: 0, width: 120, height: 140 } });
+    const large = await sampleOf({ identity: 'alice' });
+    expect(mostProminent([small, large])).toBe(large);
+    expect(mostProminent([])).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import { FaceBox, FaceSample } from '../types';
+import { assessSample } from './faceQuality';
+
+/**
+ * Live guidance for whoever is in front of the camera, worked out from each
+ * detection: distance from the box size, pose from the landmarks, light from
+ * the brightness of the face and steadiness from how far the box moved.
+ * Enrollment captures on its own once the guidance has read ready for a while.
+ */
+
+export interface Guidance {
+  message: string;
+  ready: boolean; // Good enough for an enrollment sample
+}
+
+// How often the viewfinder is checked while waiting to enroll
+export const GUIDANCE_INTERVAL_MS = 400;
+// Consecutive ready checks before enrollment starts by itself
+export const AUTO_CAPTURE_STREAK = 3;
+
+// Face box width relative to frame width; assessSample covers too far away
+const MAX_FACE_WIDTH_RATIO = 0.6;
+// Distance of the face centre from the frame centre, relative to frame width
+const MAX_CENTER_OFFSET = 0.25;
+// Mean luminance (0-255) of the face
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 215;
+// Movement of the face centre between checks, relative to face width
+const MAX_MOVEMENT = 0.08;
+
+const center = (box: FaceBox) => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+export const NO_FACE_GUIDANCE: Guidance = { message: 'Step in front of the camera', ready: false };
+
+/**
+ * Guidance for the most prominent face. Brightness is null when it could not
+ * be measured; previous is the face box from the last check.
+ */
+export const assessFrame = (sample: FaceSample | null, brightness: number | null, previous: FaceBox | null): Guidance => {
+  if (!sample) return NO_FACE_GUIDANCE;
+  if (brightness !== null && brightness < MIN_BRIGHTNESS) return { message: 'Too dark. Face a light source.', ready: false };
+  if (brightness !== null && brightness > MAX_BRIGHTNESS) return { message: 'Too bright. Move out of direct light.', ready: false };
+  if (sample.box.width / sample.frameWidth > MAX_FACE_WIDTH_RATIO) return { message: 'Move back a little.', ready: false };
+
+  const verdict = assessSample(sample, 'center');
+  if (!verdict.accepted) return { message: verdict.reason!, ready: false };
+
+  if (Math.abs(center(sample.box).x - sample.frameWidth / 2) / sample.frameWidth > MAX_CENTER_OFFSET) {
+    return { message: 'Move to the middle of the frame.', ready: false };
+  }
+  if (previous) {
+    const now = center(sample.box);
+    const before = center(previous);
+    if (Math.hypot(now.x - before.x, now.y - before.y) / sample.box.width > MAX_MOVEMENT) {
+      return { message: 'Hold still.', ready: false };
+    }
+  }
+  return { message: 'Looking good. Hold still.', ready: true };
+};
+
+// The face with the largest box, which is the one guidance is given for
+export const mostProminent = (samples: FaceSample[]): FaceSample | null =>
+  samples.reduce<FaceSample | null>((best, sample) => !best || sample.box.width > best.box.width ? sample : best, null);
+
+const BRIGHTNESS_SAMPLE_SIZE = 16;
+let brightnessCanvas: HTMLCanvasElement | null = null;
+
+// Mean luminance of the face box, scaled down to a few pixels
+export const measureBrightness = (video: HTMLVideoElement, box: FaceBox): number | null => {
+  if (!video.videoWidth || box.width <= 0 || box.height <= 0) return null;
+  brightnessCanvas ??= document.createElement('canvas');
+  brightnessCanvas.width = BRIGHTNESS_SAMPLE_SIZE;
+  brightnessCanvas.height = BRIGHTNESS_SAMPLE_SIZE;
+  const context = brightnessCanvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(video, box.x, box.y, box.width, box.height, 0, 0, BRIGHTNESS_SAMPLE_SIZE, BRIGHTNESS_SAMPLE_SIZE);
+  const { data } = context.getImageData(0, 0, BRIGHTNESS_SAMPLE_SIZE, BRIGHTNESS_SAMPLE_SIZE);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) total += (data[i] * 299 + data[i + 1] * 587 + data[i + 2] * 114) / 1000;
+  return total / (data.length / 4);
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceRecord, TimekeepingSettings } from '../types';
+import { createManualRecord, deleteRecord, editRecord, isTombstone, validateCorrection } from './corrections';
+
+const timekeeping: TimekeepingSettings = { timeZone: 'UTC', dayStartsAt: '06:00' };
+const alice = { id: 'id-alice', name: 'alice' };
+const NOW = Date.parse('2024-03-05T12:00Z');
+
+const scanned: AttendanceRecord = {
+  id: 'r1',
+  profileId: alice.id,
+  name: alice.name,
+  timestamp: Date.parse('2024-03-05T08:00Z'),
+  businessDate: '2024-03-05',
+  type: 'IN'
+};
+
+describe('corrections', () => {
+  it('creates a manual record dated by the business-day cutoff', () => {
+    const { record, audit } = createManualRecord(alice, 'OUT', Date.parse('2024-03-05T05:00Z'), timekeeping, 'Admin PIN', ' Camera offline ', NOW);
+    expect(record).toMatchObject({ source: 'manual', businessDate: '2024-03-04', revision: 1, reason: 'Camera offline' });
+    expect(audit).toMatchObject({ action: 'create', recordId: record.id, author: 'Admin PIN', before: undefined, after: record });
+  });
+
+  it('keeps the original on the audit entry when editing', () => {
+    const { record, audit } = editRecord(scanned, 'IN', Date.parse('2024-03-05T07:45Z'), timekeeping, 'SITI', 'Forgot to scan', NOW);
+    expect(record).toMatchObject({ id: 'r1', source: 'manual', revision: 1, author: 'SITI' });
+    expect(audit.before).toBe(scanned);
+    expect(editRecord(record, 'IN', record.timestamp, timekeeping, 'SITI', 'Again', NOW).record.revision).toBe(2);
+  });
+
+  it('turns a deletion into a tombstone', () => {
+    const { record, audit } = deleteRecord(scanned, 'SITI', 'Duplicate', NOW);
+    expect(isTombstone(record)).toBe(true);
+    expect(record).toMatchObject({ deletedAt: NOW, type: 'IN', timestamp: scanned.timestamp });
+    expect(audit).toMatchObject({ action: 'delete', before: scanned, after: record });
+  });
+
+  it('requires a reason and a time that is not in the future', () => {
+    expect(validateCorrection('  ', NOW - 1, NOW)).toBe('A reason is required');
+    expect(validateCorrection('Late', NOW + 1, NOW)).toBe('Events cannot be recorded in the future');
+    expect(validateCorrection('Late', NaN, NOW)).toBe('Enter a valid date and time');
+    expect(validateCorrection('Late', NOW, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import { AttendanceAuditAction, AttendanceAuditEntry, AttendanceEventType, AttendanceRecord, TimekeepingSettings, UserFaceProfile } from '../types';
+import { businessDate } from './timekeeping';
+import { RecordOrigin } from './sites';
+
+/**
+ * Admin corrections to attendance. Every change yields the updated record and
+ * an audit entry holding the record before and after; deletions leave a
+ * tombstone rather than removing the record.
+ */
+
+export interface AttendanceChange {
+  record: AttendanceRecord;
+  audit: AttendanceAuditEntry;
+}
+
+export const isTombstone = (record: AttendanceRecord) => record.deletedAt !== undefined;
+
+export const isManual = (record: AttendanceRecord) => record.source === 'manual';
+
+// Admins signed in by face are named; the PIN is shared, so it stays anonymous
+export const PIN_AUTHOR = 'Admin PIN';
+
+const change = (
+  action: AttendanceAuditAction,
+  before: AttendanceRecord | undefined,
+  next: AttendanceRecord,
+  author: string,
+  reason: string,
+  now: number
+): AttendanceChange => {
+  const record: AttendanceRecord = { ...next, revision: (before?.revision ?? 0) + 1, author, reason };
+  return {
+    record,
+    audit: { id: crypto.randomUUID(), recordId: record.id, action, at: now, author, reason, before, after: record }
+  };
+};
+
+// Reason and time are checked here so the form and any other caller agree
+export const validateCorrection = (reason: string, timestamp: number, now: number = Date.now()): string | null => {
+  if (!reason.trim()) return 'A reason is required';
+  if (!Number.isFinite(timestamp)) return 'Enter a valid date and time';
+  if (timestamp > now) return 'Events cannot be recorded in the future';
+  return null;
+};
+
+export const createManualRecord = (
+  profile: Pick<UserFaceProfile, 'id' | 'name'>,
+  type: AttendanceEventType,
+  timestamp: number,
+  timekeeping: TimekeepingSettings,
+  author: string,
+  reason: string,
+  now: number = Date.now(),
+  origin: RecordOrigin = {} // Device the entry was made on; edits keep the original
+): AttendanceChange => change('create', undefined, {
+  id: crypto.randomUUID(),
+  profileId: profile.id,
+  name: profile.name,
+  timestamp,
+  businessDate: businessDate(timestamp, timekeeping),
+  type,
+  source: 'manual',
+  ...origin
+}, author, reason.trim(), now);
+
+// An edited record is no longer what the camera saw, so it becomes manual
+export const editRecord = (
+  record: AttendanceRecord,
+  type: AttendanceEventType,
+  timestamp: number,
+  timekeeping: TimekeepingSettings,
+  author: string,
+  reason: string,
+  now: number = Date.now()
+): AttendanceChange => change('edit', record, {
+  ...record,
+  type,
+  timestamp,
+  businessDate: businessDate(timestamp, timekeeping),
+  source: 'manual'
+}, author, reason.trim(), now);
+
+export const deleteRecord = (
+  record: AttendanceRecord,
+  author: string,
+  reason: string,
+  now: number = Date.now()
+): AttendanceChange => change('delete', record, { ...record, deletedAt: now }, author, reason.trim(), now);
@@ -0,0 +1,85 @@
+/**
+ * Flat nearest-neighbour index over face templates. Every template lives in one
+ * Float32Array so a search is a tight loop over contiguous memory, and a
+ * template is abandoned as soon as its partial distance can no longer change
+ * the best or runner-up profile. This keeps a 2,000-person registry well under
+ * a millisecond per probe.
+ */
+
+export const DESCRIPTOR_LENGTH = 128;
+// Partial distances are checked against the bound once per block of dimensions
+const ABANDON_BLOCK = 16;
+
+export interface DescriptorIndex {
+  ids: string[]; // Profile id for each owner slot
+  owners: Int32Array; // Owner slot of each template row
+  data: Float32Array; // Template rows, DESCRIPTOR_LENGTH floats each
+}
+
+export interface Neighbour {
+  id: string;
+  distance: number;
+}
+
+// Closest two distinct profiles; the runner-up drives the ambiguity margin
+export interface NearestNeighbours {
+  best?: Neighbour;
+  runnerUp?: Neighbour;
+}
+
+export const buildDescriptorIndex = (entries: { id: string; templates: ArrayLike<number>[] }[]): DescriptorIndex => {
+  const rows = entries.reduce((count, entry) => count + entry.templates.length, 0);
+  const data = new Float32Array(rows * DESCRIPTOR_LENGTH);
+  const owners = new Int32Array(rows);
+  let row = 0;
+  entries.forEach((entry, slot) => {
+    for (const template of entry.templates) {
+      data.set(template, row * DESCRIPTOR_LENGTH);
+      owners[row++] = slot;
+    }
+  });
+  return { ids: entries.map(entry => entry.id), owners, data };
+};
+
+export const searchNearest = (index: DescriptorIndex, descriptor: ArrayLike<number>): NearestNeighbours => {
+  const probe = descriptor instanceof Float32Array ? descriptor : Float32Array.from(descriptor);
+  const { owners, data } = index;
+  // Squared distances throughout; the square root is only taken for the result
+  let bestSlot = -1;
+  let bestSq = Infinity;
+  let secondSlot = -1;
+  let secondSq = Infinity;
+
+  for (let row = 0; row < owners.length; row++) {
+    const slot = owners[row];
+    // Another template of the leading profile only matters if it improves on it
+    const bound = slot === bestSlot ? bestSq : secondSq;
+    const offset = row * DESCRIPTOR_LENGTH;
+    let sum = 0;
+    for (let block = 0; block < DESCRIPTOR_LENGTH && sum < bound; block += ABANDON_BLOCK) {
+      for (let k = block; k < block + ABANDON_BLOCK; k++) {
+        const diff = data[offset + k] - probe[k];
+        sum += diff * diff;
+      }
+    }
+    if (sum >= bound) continue;
+
+    if (slot === bestSlot) {
+      bestSq = sum;
+    } else if (sum < bestSq) {
+      // The previous leader becomes runner-up, whether or not this profile was it
+      secondSlot = bestSlot;
+      secondSq = bestSq;
+      bestSlot = slot;
+      bestSq = sum;
+    } else {
+      secondSlot = slot;
+      secondSq = sum;
+    }
+  }
+
+  return {
+    best: bestSlot >= 0 ? { id: index.ids[bestSlot], distance: Math.sqrt(bestSq) } : undefined,
+    runnerUp: secondSlot >= 0 ? { id: index.ids[secondSlot], distance: Math.sqrt(secondSq) } : undefined
+  };
+};
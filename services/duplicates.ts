@@ -0,0 +1,63 @@
+import { UserFaceProfile } from '../types';
+import { getTemplates, profileDistance } from './matching';
+
+/**
+ * Duplicate-identity checks. A face that matches another profile under the
+ * recognition threshold is most likely the same person enrolled twice.
+ */
+
+// Pairs an admin has confirmed are different people, so the audit stops flagging them
+export const DUPLICATE_DISMISSALS_SETTING = 'duplicate_dismissals';
+
+export interface DuplicateCandidate {
+  profile: UserFaceProfile;
+  distance: number;
+}
+
+export interface DuplicatePair {
+  a: UserFaceProfile;
+  b: UserFaceProfile;
+  distance: number;
+}
+
+// Order-independent key for a pair of profiles
+export const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+/**
+ * Existing profiles any of the new templates would match, closest first.
+ * Inactive profiles are included: re-enrolling a leaver under a new name is
+ * still a duplicate.
+ */
+export const findDuplicateCandidates = (
+  templates: number[][],
+  profiles: UserFaceProfile[],
+  threshold: number,
+  exceptId?: string
+): DuplicateCandidate[] =>
+  profiles
+    .filter(profile => profile.id !== exceptId)
+    .map(profile => ({ profile, distance: Math.min(...templates.map(t => profileDistance(t, profile))) }))
+    .filter(candidate => candidate.distance < threshold)
+    .sort((x, y) => x.distance - y.distance);
+
+/**
+ * Every pair of profiles whose templates match each other, closest first.
+ * Quadratic in the registry size, so it runs on demand rather than on load.
+ */
+export const auditRegistry = (
+  profiles: UserFaceProfile[],
+  threshold: number,
+  dismissed: string[] = []
+): DuplicatePair[] => {
+  const skip = new Set(dismissed);
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < profiles.length; i++) {
+    const templates = getTemplates(profiles[i]);
+    for (let j = i + 1; j < profiles.length; j++) {
+      if (skip.has(pairKey(profiles[i].id, profiles[j].id))) continue;
+      const distance = Math.min(...templates.map(t => profileDistance(t, profiles[j])));
+      if (distance < threshold) pairs.push({ a: profiles[i], b: profiles[j], distance });
+    }
+  }
+  return pairs.sort((x, y) => x.distance - y.distance);
+};
@@ -0,0 +1,103 @@
+import { AttendanceEventType, AttendanceRecord, Punctuality } from '../types';
+
+/**
+ * In-process event bus for things other systems react to. Everything the
+ * kiosk reports goes through emit(); subscribers (webhooks, notifiers) never
+ * run inside the scan loop and cannot break it.
+ */
+
+export interface AttendanceEventData {
+  record: AttendanceRecord;
+  profileId: string;
+  distance: number;
+  punctuality?: Punctuality; // Only for staff with a shift
+}
+
+export interface DuplicateScanData {
+  profileId: string;
+  name: string;
+  lastRecord: AttendanceRecord; // The event the scan repeated
+}
+
+export interface UnknownFaceData {
+  reason: 'no_match' | 'ambiguous';
+  distance: number | null; // To the closest profile; null with an empty registry
+}
+
+export interface ProfileEventData {
+  profileId: string;
+  name: string;
+  role?: 'staff' | 'admin';
+}
+
+export interface KioskEventMap {
+  clock_in: AttendanceEventData;
+  clock_out: AttendanceEventData;
+  break_start: AttendanceEventData;
+  break_end: AttendanceEventData;
+  duplicate_scan: DuplicateScanData;
+  unknown_face: UnknownFaceData;
+  profile_enrolled: ProfileEventData;
+  profile_deleted: ProfileEventData;
+}
+
+export type KioskEventType = keyof KioskEventMap;
+
+export type KioskEvent<K extends KioskEventType = KioskEventType> = {
+  [T in K]: {
+    id: string;
+    type: T;
+    occurredAt: number;
+    data: KioskEventMap[T];
+  }
+}[K];
+
+export const KIOSK_EVENT_TYPES: KioskEventType[] = [
+  'clock_in', 'clock_out', 'break_start', 'break_end',
+  'duplicate_scan', 'unknown_face', 'profile_enrolled', 'profile_deleted'
+];
+
+export const ATTENDANCE_EVENTS: Record<AttendanceEventType, 'clock_in' | 'clock_out' | 'break_start' | 'break_end'> = {
+  IN: 'clock_in',
+  OUT: 'clock_out',
+  BREAK_START: 'break_start',
+  BREAK_END: 'break_end'
+};
+
+type Handler<K extends KioskEventType> = (event: KioskEvent<K>) => void | Promise<void>;
+
+// Keyed by event type so each set keeps the payload type of its events
+const handlers: { [K in KioskEventType]: Set<Handler<K>> } = {
+  clock_in: new Set(),
+  clock_out: new Set(),
+  break_start: new Set(),
+  break_end: new Set(),
+  duplicate_scan: new Set(),
+  unknown_face: new Set(),
+  profile_enrolled: new Set(),
+  profile_deleted: new Set()
+};
+
+// Subscribe to one event type. Returns the unsubscribe function.
+export const subscribe = <K extends KioskEventType>(type: K, handler: Handler<K>): (() => void) => {
+  const set = handlers[type];
+  set.add(handler);
+  return () => { set.delete(handler); };
+};
+
+// Subscribe to every event type with one handler
+export const subscribeAll = (handler: Handler<KioskEventType>): (() => void) => {
+  const unsubscribes = KIOSK_EVENT_TYPES.map(type => subscribe(type, handler));
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
+
+// Handlers run on a later microtask, so emit never waits for or throws from a subscriber
+export const emit = <K extends KioskEventType>(type: K, data: KioskEventMap[K]): KioskEvent<K> => {
+  const event = { id: crypto.randomUUID(), type, occurredAt: Date.now(), data } as KioskEvent<K>;
+  for (const handler of handlers[type]) {
+    Promise.resolve()
+      .then(() => handler(event))
+      .catch(err => console.error(`Event handler for ${type} failed`, err));
+  }
+  return event;
+};
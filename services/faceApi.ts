@@ -1,39 +1,151 @@
-
 /**
- * Using face-api.js via CDN for browser-side facial recognition.
- * Models are loaded from a public repository to ensure functionality in any environment.
+ * Browser-side facial recognition with face-api (the maintained
+ * @vladmandic/face-api build, which bundles TensorFlow.js).
+ * Inference runs in services/faceWorker.ts so the UI thread only grabs frames;
+ * this module is the promise-based client for it, wrapped as a
+ * RecognitionEngine. The helpers at the bottom go through whichever engine is
+ * active, so tests can swap in the fake one.
+ * Model weights are served from the app's own origin under /models/ so the
+ * kiosk works without internet; see the face-api-models plugin in vite.config.ts.
  */
 
-// We import the browser-ready bundle of face-api.js
-// Note: In a production environment, you'd usually npm install and bundle these.
-// For this standalone app, we use the script approach to ensure model loading works.
+import { FaceSample } from '../types';
+import { DescriptorIndex } from './descriptorIndex';
+import { FrameSource, RecognitionEngine, ScannedFace, euclideanDistance } from './recognitionEngine';
+import type { WorkerRequest, WorkerResponse } from './faceWorker';
+
+// Number of recent scans kept for the latency readout
+const METRICS_WINDOW = 50;
 
-const MODEL_URL = 'https://cdn.jsdelivr.net/gh/justadudewhohacks/face-api.js/weights/';
+// Omit distributed over the union so each request keeps its own fields
+type RequestBody = WorkerRequest extends infer R ? (R extends WorkerRequest ? Omit<R, 'id'> : never) : never;
 
-export const loadModels = async () => {
-  // @ts-ignore - faceapi is attached to window when loaded via script
-  const faceapi = window.faceapi;
-  if (!faceapi) throw new Error('face-api.js not loaded');
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, { resolve: (response: WorkerResponse) => void; reject: (err: Error) => void }>();
 
-  await Promise.all([
-    faceapi.nets.ssdMobilenetv1.loadFromUri(MODEL_URL),
-    faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
-    faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL)
-  ]);
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./faceWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+      if (event.data.type === 'error') request.reject(new Error(event.data.message));
+      else request.resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      const err = new Error(event.message || 'Inference worker crashed');
+      pending.forEach(request => request.reject(err));
+      pending.clear();
+    };
+  }
+  return worker;
 };
 
-export const getFaceDescriptor = async (input: HTMLVideoElement | HTMLImageElement) => {
-  // @ts-ignore
-  const faceapi = window.faceapi;
-  const detection = await faceapi.detectSingleFace(input)
-    .withFaceLandmarks()
-    .withFaceDescriptor();
-  
-  return detection ? detection.descriptor : null;
+const send = (body: RequestBody, transfer: Transferable[] = []): Promise<WorkerResponse> =>
+  new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ ...body, id }, transfer);
+  });
+
+
+export interface ScanMetrics {
+  captureMs: number; // Grabbing the video frame on the main thread
+  detectMs: number; // Detection, landmarks and descriptors in the worker
+  matchMs: number; // Nearest-neighbour search in the worker
+  totalMs: number; // End to end, including messaging
+  faces: number;
+}
+
+export interface ScanStats {
+  last: ScanMetrics;
+  averageMs: number;
+  p95Ms: number;
+  scans: number;
+}
+
+const recentScans: ScanMetrics[] = [];
+
+export const getScanStats = (): ScanStats | null => {
+  if (recentScans.length === 0) return null;
+  const totals = recentScans.map(scan => scan.totalMs).sort((a, b) => a - b);
+  return {
+    last: recentScans[recentScans.length - 1],
+    averageMs: totals.reduce((sum, ms) => sum + ms, 0) / totals.length,
+    p95Ms: totals[Math.min(totals.length - 1, Math.floor(totals.length * 0.95))],
+    scans: totals.length
+  };
 };
 
-export const calculateDistance = (descriptor1: number[] | Float32Array, descriptor2: number[] | Float32Array): number => {
-  // @ts-ignore
-  const faceapi = window.faceapi;
-  return faceapi.euclideanDistance(descriptor1, descriptor2);
+const runDetection = async (input: FrameSource, all: boolean, match: boolean): Promise<ScannedFace[]> => {
+  const startedAt = performance.now();
+  const frame = await createImageBitmap(input);
+  const capturedAt = performance.now();
+  const response = await send({ type: 'detect', frame, all, match }, [frame]);
+  if (response.type !== 'detected') throw new Error('Unexpected inference response');
+
+  if (match) {
+    recentScans.push({
+      captureMs: capturedAt - startedAt,
+      detectMs: response.detectMs,
+      matchMs: response.matchMs,
+      totalMs: performance.now() - startedAt,
+      faces: response.faces.length
+    });
+    if (recentScans.length > METRICS_WINDOW) recentScans.shift();
+  }
+  return response.faces;
+};
+
+export const faceApiEngine: RecognitionEngine = {
+  load: async () => {
+    // Absolute, because the worker resolves relative URLs against its own script
+    const modelUrl = new URL(`${import.meta.env.BASE_URL}models/`, window.location.href).href;
+    await send({ type: 'load', modelUrl });
+  },
+  detect: async (input, all) => (await runDetection(input, all, false)).map(face => face.sample),
+  describe: async (input) => {
+    const [face] = await runDetection(input, false, false);
+    return face ? face.sample.descriptor : null;
+  },
+  compare: euclideanDistance,
+  // The index is copied rather than transferred because the main thread keeps using it
+  setRegistry: async (index) => {
+    await send({ type: 'registry', index });
+  },
+  // One worker round trip; neighbours refer to the registry last passed to setRegistry
+  scan: (input, all) => runDetection(input, all, true)
+};
+
+let activeEngine: RecognitionEngine = faceApiEngine;
+
+export const setRecognitionEngine = (engine: RecognitionEngine) => {
+  activeEngine = engine;
 };
+
+export const loadModels = () => activeEngine.load();
+
+/**
+ * Hands the registry index to the engine so scans can match in place.
+ */
+export const syncRegistry = (index: DescriptorIndex) => activeEngine.setRegistry(index);
+
+/**
+ * Detect and match in one pass. Neighbours refer to the registry last passed to syncRegistry.
+ */
+export const scanFrame = (input: FrameSource, all: boolean): Promise<ScannedFace[]> => activeEngine.scan(input, all);
+
+export const getFaceDescriptor = (input: FrameSource) => activeEngine.describe(input);
+
+export const calculateDistance = (descriptor1: ArrayLike<number>, descriptor2: ArrayLike<number>): number =>
+  activeEngine.compare(descriptor1, descriptor2);
+
+export const detectFaceSample = async (input: FrameSource): Promise<FaceSample | null> =>
+  (await activeEngine.detect(input, false))[0] ?? null;
+
+/**
+ * Every face in the frame, for group entrances where several people arrive together.
+ */
+export const detectAllFaceSamples = (input: FrameSource): Promise<FaceSample[]> => activeEngine.detect(input, true);
@@ -0,0 +1,94 @@
+import { FaceSample, Point } from '../types';
+
+/**
+ * Quality gating for enrollment frames.
+ * Pose is estimated from the 68-point landmarks, which is rough but enough
+ * to reject frames where the person is looking away or tilting heavily.
+ */
+
+export type EnrollmentPose = 'center' | 'left' | 'right';
+
+export const ENROLLMENT_STEPS: { pose: EnrollmentPose; instruction: string }[] = [
+  { pose: 'center', instruction: 'Look straight at the camera' },
+  { pose: 'left', instruction: 'Turn your head slightly left' },
+  { pose: 'right', instruction: 'Turn your head slightly right' },
+  { pose: 'center', instruction: 'Look straight again' }
+];
+
+export const MIN_DETECTION_SCORE = 0.8;
+export const MIN_FACE_WIDTH_RATIO = 0.18; // Face box width relative to frame width
+
+// Yaw is the nose offset from the jaw midpoint, normalised by jaw width
+const CENTER_MAX_YAW = 0.08;
+const TURN_MIN_YAW = 0.1;
+const TURN_MAX_YAW = 0.3;
+// Pitch is where the nose sits between the eye line (0) and the chin (1)
+const PITCH_RANGE: [number, number] = [0.25, 0.65];
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+export const estimatePose = (landmarks: Point[]) => {
+  const jawLeft = landmarks[0];
+  const jawRight = landmarks[16];
+  const chin = landmarks[8];
+  const nose = landmarks[30];
+  const eyes = midpoint(landmarks[36], landmarks[45]);
+
+  const jawWidth = jawRight.x - jawLeft.x || 1;
+  const yaw = (nose.x - midpoint(jawLeft, jawRight).x) / jawWidth;
+  const pitch = (nose.y - eyes.y) / ((chin.y - eyes.y) || 1);
+  return { yaw, pitch };
+};
+
+export const assessSample = (
+  sample: FaceSample,
+  pose: EnrollmentPose
+): { accepted: boolean; reason?: string } => {
+  if (sample.score < MIN_DETECTION_SCORE) {
+    return { accepted: false, reason: 'Face unclear. Improve lighting.' };
+  }
+  if (sample.box.width / sample.frameWidth < MIN_FACE_WIDTH_RATIO) {
+    return { accepted: false, reason: 'Move closer to the camera.' };
+  }
+
+  const { yaw, pitch } = estimatePose(sample.landmarks);
+  if (pitch < PITCH_RANGE[0] || pitch > PITCH_RANGE[1]) {
+    return { accepted: false, reason: 'Keep your head level.' };
+  }
+
+  // The video is not mirrored, so turning to the person's left moves the nose to the image right
+  if (pose === 'center' && Math.abs(yaw) > CENTER_MAX_YAW) {
+    return { accepted: false, reason: 'Face the camera directly.' };
+  }
+  if (pose === 'left' && (yaw < TURN_MIN_YAW || yaw > TURN_MAX_YAW)) {
+    return { accepted: false, reason: yaw > TURN_MAX_YAW ? 'Turn back a little.' : 'Turn a bit more to your left.' };
+  }
+  if (pose === 'right' && (yaw > -TURN_MIN_YAW || yaw < -TURN_MAX_YAW)) {
+    return { accepted: false, reason: yaw < -TURN_MAX_YAW ? 'Turn back a little.' : 'Turn a bit more to your right.' };
+  }
+
+  return { accepted: true };
+};
+
+const euclidean = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+const mean = (vectors: number[][]): number[] =>
+  vectors[0].map((_, i) => vectors.reduce((acc, v) => acc + v[i], 0) / vectors.length);
+
+/**
+ * Mean of the templates after dropping samples far from the initial centroid,
+ * so one odd frame does not drag the profile descriptor away.
+ */
+export const robustMeanDescriptor = (descriptors: number[][]): number[] => {
+  if (descriptors.length <= 2) return mean(descriptors);
+
+  const centroid = mean(descriptors);
+  const distances = descriptors.map(d => euclidean(d, centroid));
+  const median = [...distances].sort((a, b) => a - b)[Math.floor(distances.length / 2)];
+  const inliers = descriptors.filter((_, i) => distances[i] <= median * 1.5);
+  return mean(inliers.length > 0 ? inliers : descriptors);
+};
@@ -0,0 +1,104 @@
+/**
+ * Inference worker. Owns the face-api models and the registry index so that
+ * detection, landmarks, descriptors and matching all run off the main thread.
+ * Frames arrive as transferred ImageBitmaps; see services/faceApi.ts for the
+ * client side of this protocol.
+ */
+
+import * as faceapi from '@vladmandic/face-api';
+import { FaceSample, Point } from '../types';
+import { DescriptorIndex, searchNearest } from './descriptorIndex';
+import type { ScannedFace } from './recognitionEngine';
+
+export type WorkerRequest =
+  | { id: number; type: 'load'; modelUrl: string }
+  | { id: number; type: 'registry'; index: DescriptorIndex }
+  | { id: number; type: 'detect'; frame: ImageBitmap; all: boolean; match: boolean };
+
+export type WorkerResponse =
+  | { id: number; type: 'loaded' }
+  | { id: number; type: 'registry'; templates: number }
+  | { id: number; type: 'detected'; faces: ScannedFace[]; detectMs: number; matchMs: number }
+  | { id: number; type: 'error'; message: string };
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+// face-api only knows window and Node; inside a worker it needs an
+// OffscreenCanvas-backed environment to fetch weights and crop faces
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D,
+  Image: ImageBitmap,
+  ImageData,
+  Video: ImageBitmap,
+  createCanvasElement: () => new OffscreenCanvas(1, 1),
+  createImageElement: () => { throw new Error('Image elements are not available in a worker'); },
+  createVideoElement: () => { throw new Error('Video elements are not available in a worker'); },
+  fetch: (url: string, init?: RequestInit) => fetch(url, init),
+  readFile: () => { throw new Error('readFile - filesystem not available in a worker'); }
+} as unknown as faceapi.Environment);
+
+let registry: DescriptorIndex | null = null;
+
+const toFaceSample = (detection: faceapi.WithFaceDescriptor<faceapi.WithFaceLandmarks<{ detection: faceapi.FaceDetection }, faceapi.FaceLandmarks68>>): FaceSample => {
+  const { box, score, imageWidth } = detection.detection;
+  return {
+    descriptor: detection.descriptor,
+    score,
+    box: { x: box.x, y: box.y, width: box.width, height: box.height },
+    landmarks: detection.landmarks.positions.map((p: Point) => ({ x: p.x, y: p.y })),
+    frameWidth: imageWidth
+  };
+};
+
+const detect = async (frame: ImageBitmap, all: boolean): Promise<FaceSample[]> => {
+  const input = faceapi.tf.browser.fromPixels(frame);
+  try {
+    if (all) {
+      const detections = await faceapi.detectAllFaces(input).withFaceLandmarks().withFaceDescriptors();
+      return detections.map(toFaceSample);
+    }
+    const detection = await faceapi.detectSingleFace(input).withFaceLandmarks().withFaceDescriptor();
+    return detection ? [toFaceSample(detection)] : [];
+  } finally {
+    input.dispose();
+    frame.close();
+  }
+};
+
+const handle = async (request: WorkerRequest): Promise<WorkerResponse> => {
+  switch (request.type) {
+    case 'load':
+      await Promise.all([
+        faceapi.nets.ssdMobilenetv1.loadFromUri(request.modelUrl),
+        faceapi.nets.faceLandmark68Net.loadFromUri(request.modelUrl),
+        faceapi.nets.faceRecognitionNet.loadFromUri(request.modelUrl)
+      ]);
+      return { id: request.id, type: 'loaded' };
+    case 'registry':
+      registry = request.index;
+      return { id: request.id, type: 'registry', templates: registry.owners.length };
+    case 'detect': {
+      const startedAt = performance.now();
+      const samples = await detect(request.frame, request.all);
+      const detectedAt = performance.now();
+      const faces = samples.map(sample => ({
+        sample,
+        nearest: request.match && registry ? searchNearest(registry, sample.descriptor) : {}
+      }));
+      return { id: request.id, type: 'detected', faces, detectMs: detectedAt - startedAt, matchMs: performance.now() - detectedAt };
+    }
+  }
+};
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  try {
+    scope.postMessage(await handle(request));
+  } catch (err) {
+    scope.postMessage({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Inference failed' });
+  }
+};
@@ -0,0 +1,134 @@
+import { FaceBox, FaceSample, Point } from '../types';
+import { DESCRIPTOR_LENGTH, DescriptorIndex, searchNearest } from './descriptorIndex';
+import { RecognitionEngine, euclideanDistance } from './recognitionEngine';
+
+/**
+ * Deterministic RecognitionEngine for tests. It never looks at pixels: every
+ * frame contains whatever scene was scripted with show() or play(). Each
+ * identity has a fixed descriptor derived from its name, so the same script
+ * always produces the same distances.
+ */
+
+export interface FakeFace {
+  identity: string;
+  // Exact distance of this capture from the identity's descriptor; 0 reproduces it
+  distance?: number;
+  // Head pose as estimatePose reports it; the default looks straight at the camera
+  yaw?: number;
+  pitch?: number;
+  eyesClosed?: boolean;
+  score?: number;
+  box?: FaceBox;
+}
+
+export interface FakeRecognitionEngine extends RecognitionEngine {
+  // Every following frame contains these faces
+  show(...faces: FakeFace[]): void;
+  // Consecutive frames contain these scenes in turn; the last one then repeats
+  play(...scenes: FakeFace[][]): void;
+  descriptorOf(identity: string): number[];
+  readonly frames: number; // Frames analysed so far
+}
+
+export const FAKE_FRAME_WIDTH = 640;
+const DEFAULT_BOX: FaceBox = { x: 220, y: 100, width: 200, height: 240 };
+const DEFAULT_PITCH = 0.45;
+// Eye height over width, either side of the blink thresholds in services/liveness.ts
+const EYE_OPEN_RATIO = 0.3;
+const EYE_CLOSED_RATIO = 0.1;
+
+// FNV-1a, to seed the generator from an identity name
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// mulberry32
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const unitVector = (seed: number): number[] => {
+  const next = random(seed);
+  const vector = Array.from({ length: DESCRIPTOR_LENGTH }, () => next() * 2 - 1);
+  const norm = Math.hypot(...vector);
+  return vector.map(v => v / norm);
+};
+
+/**
+ * A 68-point layout that only places the points the quality and liveness
+ * checks read: jaw, chin, nose tip and both eyes.
+ */
+const landmarksFor = ({ x, y, width, height }: FaceBox, yaw: number, pitch: number, eyesClosed: boolean): Point[] => {
+  const points: Point[] = Array.from({ length: 68 }, () => ({ x: x + width / 2, y: y + height / 2 }));
+  for (let i = 0; i <= 16; i++) {
+    points[i] = { x: x + (i / 16) * width, y: y + height * 0.5 + Math.sin((Math.PI * i) / 16) * height * 0.45 };
+  }
+  const eyeY = y + height * 0.4;
+  const eyeWidth = width * 0.16;
+  const eyeHeight = eyeWidth * (eyesClosed ? EYE_CLOSED_RATIO : EYE_OPEN_RATIO);
+  [[36, x + width * 0.3], [42, x + width * 0.7]].forEach(([start, cx]) => {
+    points[start] = { x: cx - eyeWidth / 2, y: eyeY };
+    points[start + 1] = { x: cx - eyeWidth / 6, y: eyeY - eyeHeight / 2 };
+    points[start + 2] = { x: cx + eyeWidth / 6, y: eyeY - eyeHeight / 2 };
+    points[start + 3] = { x: cx + eyeWidth / 2, y: eyeY };
+    points[start + 4] = { x: cx + eyeWidth / 6, y: eyeY + eyeHeight / 2 };
+    points[start + 5] = { x: cx - eyeWidth / 6, y: eyeY + eyeHeight / 2 };
+  });
+  const chinY = points[8].y;
+  points[30] = { x: x + width / 2 + yaw * width, y: eyeY + pitch * (chinY - eyeY) };
+  return points;
+};
+
+export const createFakeRecognitionEngine = (): FakeRecognitionEngine => {
+  let scenes: FakeFace[][] = [[]];
+  let frames = 0;
+  let registry: DescriptorIndex | null = null;
+
+  const descriptorOf = (identity: string) => unitVector(hash(identity));
+
+  const toSample = (face: FakeFace, frame: number): FaceSample => {
+    const base = descriptorOf(face.identity);
+    const offset = face.distance ?? 0;
+    // A different direction every frame, at exactly the requested distance
+    const direction = offset > 0 ? unitVector(hash(`${face.identity}#${frame}`)) : base;
+    const box = face.box ?? DEFAULT_BOX;
+    return {
+      descriptor: Float32Array.from(base, (value, i) => value + direction[i] * offset),
+      score: face.score ?? 0.99,
+      box,
+      landmarks: landmarksFor(box, face.yaw ?? 0, face.pitch ?? DEFAULT_PITCH, !!face.eyesClosed),
+      frameWidth: FAKE_FRAME_WIDTH
+    };
+  };
+
+  const nextFrame = (all: boolean): FaceSample[] => {
+    const frame = frames++;
+    const scene = scenes.length > 1 ? scenes.shift()! : scenes[0];
+    const samples = scene.map(face => toSample(face, frame));
+    return all ? samples : samples.slice(0, 1);
+  };
+
+  return {
+    get frames() { return frames; },
+    show: (...faces) => { scenes = [faces]; },
+    play: (...next) => { scenes = next.length > 0 ? next : [[]]; },
+    descriptorOf,
+    load: async () => {},
+    detect: async (_input, all) => nextFrame(all),
+    describe: async () => nextFrame(false)[0]?.descriptor ?? null,
+    compare: euclideanDistance,
+    setRegistry: async (index) => { registry = index; },
+    scan: async (_input, all) => nextFrame(all).map(sample => ({
+      sample,
+      nearest: registry ? searchNearest(registry, sample.descriptor) : {}
+    }))
+  };
+};
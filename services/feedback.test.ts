@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceRecord } from '../types';
+import { KioskEvent } from './events';
+import { feedbackFor } from './feedback';
+import { MAX_RESTART_DELAY_MS, KIOSK_WATCHDOG_MS, restartDelay } from './kiosk';
+
+const record: AttendanceRecord = {
+  id: 'r1',
+  profileId: 'id-alice',
+  name: 'alice',
+  timestamp: Date.parse('2024-03-05T08:00Z'),
+  businessDate: '2024-03-05',
+  type: 'BREAK_START'
+};
+
+const event = <E extends KioskEvent>(partial: Pick<E, 'type' | 'data'>) =>
+  ({ id: 'e1', occurredAt: record.timestamp, ...partial }) as KioskEvent;
+
+describe('kiosk feedback', () => {
+  it('maps scan results to cues and spoken text', () => {
+    expect(feedbackFor(event({ type: 'break_start', data: { record, profileId: 'id-alice', distance: 0.3 } })))
+      .toEqual({ cue: 'success', text: 'Break Start, alice' });
+    expect(feedbackFor(event({ type: 'duplicate_scan', data: { profileId: 'id-alice', name: 'alice', lastRecord: record } }))?.cue)
+      .toBe('already');
+    expect(feedbackFor(event({ type: 'unknown_face', data: { reason: 'no_match', distance: 0.8 } }))?.cue)
+      .toBe('unknown');
+    expect(feedbackFor(event({ type: 'profile_enrolled', data: { profileId: 'id-alice', name: 'alice' } }))).toBeNull();
+  });
+
+  it('backs off camera restarts up to the cap', () => {
+    expect(restartDelay(0)).toBe(KIOSK_WATCHDOG_MS);
+    expect(restartDelay(1)).toBe(KIOSK_WATCHDOG_MS * 2);
+    expect(restartDelay(20)).toBe(MAX_RESTART_DELAY_MS);
+  });
+});
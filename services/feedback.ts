@@ -0,0 +1,72 @@
+import { EVENT_LABELS } from './attendance';
+import { KioskEvent } from './events';
+import { FeedbackMode } from './kiosk';
+
+/**
+ * Audible results for people who are not looking at the screen. Driven by
+ * the event bus, so it hears exactly what webhooks hear.
+ */
+
+export type FeedbackCue = 'success' | 'already' | 'unknown';
+
+// Ascending for success, a repeated note for already recorded, descending for unknown
+const CHIMES: Record<FeedbackCue, number[]> = {
+  success: [880, 1320],
+  already: [660, 660],
+  unknown: [330, 220]
+};
+const TONE_SECONDS = 0.18;
+
+export const feedbackFor = (event: KioskEvent): { cue: FeedbackCue; text: string } | null => {
+  switch (event.type) {
+    case 'clock_in':
+    case 'clock_out':
+    case 'break_start':
+    case 'break_end': {
+      const { record } = event.data;
+      return { cue: 'success', text: `${EVENT_LABELS[record.type ?? 'IN']}, ${record.name}` };
+    }
+    case 'duplicate_scan':
+      return { cue: 'already', text: `${event.data.name}, already recorded` };
+    case 'unknown_face':
+      return { cue: 'unknown', text: event.data.reason === 'ambiguous' ? 'Please try again' : 'Face not recognised' };
+    default:
+      return null;
+  }
+};
+
+let audioContext: AudioContext | null = null;
+
+const playChime = (cue: FeedbackCue) => {
+  audioContext ??= new AudioContext();
+  const context = audioContext;
+  // Contexts start suspended until the page has seen a user gesture
+  if (context.state === 'suspended') context.resume().catch(() => {});
+  CHIMES[cue].forEach((frequency, i) => {
+    const start = context.currentTime + i * TONE_SECONDS;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + TONE_SECONDS);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + TONE_SECONDS);
+  });
+};
+
+const speak = (text: string) => {
+  if (!('speechSynthesis' in window)) return;
+  // A new result replaces one still being read out
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+};
+
+export const playFeedback = (feedback: { cue: FeedbackCue; text: string }, mode: FeedbackMode) => {
+  try {
+    if (mode === 'chime') playChime(feedback.cue);
+    else if (mode === 'speech') speak(feedback.text);
+  } catch (err) {
+    console.warn("Audio feedback failed", err);
+  }
+};
@@ -0,0 +1,140 @@
+/**
+ * Unattended kiosk support: camera choice, fullscreen, screen wake lock,
+ * the motion check that wakes the attract screen, and camera errors worded
+ * for whoever walks up to the tablet.
+ */
+
+export const KIOSK_SETTING = 'kiosk';
+
+export type FeedbackMode = 'off' | 'chime' | 'speech';
+
+export interface KioskSettings {
+  enabled: boolean; // Scan on its own after unlock and recover from camera failures
+  cameraId: string; // Empty for the browser's default front camera; used in and out of kiosk mode
+  fullscreen: boolean;
+  wakeLock: boolean;
+  idleAfterSeconds: number; // Without a face in view, then the attract screen shows; 0 never
+  feedback: FeedbackMode; // Used in and out of kiosk mode
+}
+
+export const DEFAULT_KIOSK_SETTINGS: KioskSettings = {
+  enabled: false,
+  cameraId: '',
+  fullscreen: true,
+  wakeLock: true,
+  idleAfterSeconds: 60,
+  feedback: 'chime'
+};
+
+// How often the watchdog checks the stream and the idle timer
+export const KIOSK_WATCHDOG_MS = 3000;
+// Consecutive failed scans before the camera and scan loop are restarted
+export const MAX_SCAN_FAILURES = 3;
+// Camera restarts back off up to this delay while the device stays unavailable
+export const MAX_RESTART_DELAY_MS = 60 * 1000;
+
+export const restartDelay = (failures: number) => Math.min(MAX_RESTART_DELAY_MS, KIOSK_WATCHDOG_MS * 2 ** failures);
+
+const VIDEO_SIZE = { width: { ideal: 640 }, height: { ideal: 480 } };
+
+/**
+ * Stream from the chosen camera. A camera that has been unplugged or renamed
+ * falls back to the default rather than leaving the kiosk blind.
+ */
+export const openCamera = async (cameraId: string): Promise<MediaStream> => {
+  if (cameraId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ video: { deviceId: { exact: cameraId }, ...VIDEO_SIZE } });
+    } catch (err) {
+      if (!(err instanceof DOMException) || !['OverconstrainedError', 'NotFoundError'].includes(err.name)) throw err;
+      console.warn("Selected camera unavailable, using the default", err);
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user', ...VIDEO_SIZE } });
+};
+
+// Labels are only filled in once the page has been granted camera access
+export const listCameras = async (): Promise<{ id: string; label: string }[]> => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId)
+    .map((device, i) => ({ id: device.deviceId, label: device.label || `Camera ${i + 1}` }));
+};
+
+export const describeCameraError = (err: unknown): string => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return "Camera access denied.";
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return "No camera found.";
+  if (name === 'NotReadableError' || name === 'AbortError') return "Camera is busy or disconnected.";
+  return "Camera could not be started.";
+};
+
+export const isStreamHealthy = (stream: MediaStream | null) =>
+  !!stream && stream.active && stream.getVideoTracks().every(track => track.readyState === 'live');
+
+// Browsers only allow this from a user gesture, so failures are expected and ignored
+export const enterFullscreen = () => {
+  if (document.fullscreenElement || !document.documentElement.requestFullscreen) return;
+  document.documentElement.requestFullscreen().catch(() => {});
+};
+
+export const exitFullscreen = () => {
+  if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+};
+
+/**
+ * Keeps the screen on while held. The browser drops the lock whenever the page
+ * is hidden, so it is requested again each time the page becomes visible.
+ * Returns the release function.
+ */
+export const holdWakeLock = (): (() => void) => {
+  let sentinel: WakeLockSentinel | null = null;
+  let released = false;
+  const request = () => {
+    if (released || document.visibilityState !== 'visible' || !('wakeLock' in navigator)) return;
+    navigator.wakeLock.request('screen')
+      .then(lock => { if (released) lock.release(); else sentinel = lock; })
+      .catch(err => console.warn("Wake lock unavailable", err));
+  };
+  request();
+  document.addEventListener('visibilitychange', request);
+  return () => {
+    released = true;
+    document.removeEventListener('visibilitychange', request);
+    sentinel?.release().catch(() => {});
+  };
+};
+
+const MOTION_SAMPLE_WIDTH = 32;
+// Mean luminance change per pixel (0-255) that counts as someone moving
+export const MOTION_THRESHOLD = 12;
+
+/**
+ * Compares each frame with the previous one on a tiny greyscale copy, which
+ * is cheap enough to run while the face detector sleeps. Returns the mean
+ * change per pixel; the first frame reports 0.
+ */
+export const createMotionDetector = () => {
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d', { willReadFrequently: true })!;
+  let previous: Uint8ClampedArray | null = null;
+
+  return (video: HTMLVideoElement): number => {
+    if (!video.videoWidth) return 0;
+    canvas.width = MOTION_SAMPLE_WIDTH;
+    canvas.height = Math.round(MOTION_SAMPLE_WIDTH * video.videoHeight / video.videoWidth);
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+    const luminance = new Uint8ClampedArray(data.length / 4);
+    for (let i = 0; i < luminance.length; i++) {
+      luminance[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+    }
+    let change = 0;
+    if (previous && previous.length === luminance.length) {
+      for (let i = 0; i < luminance.length; i++) change += Math.abs(luminance[i] - previous[i]);
+      change /= luminance.length;
+    }
+    previous = luminance;
+    return change;
+  };
+};
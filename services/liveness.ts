@@ -0,0 +1,100 @@
+import { UserFaceProfile, Point, LivenessChallenge } from '../types';
+import { detectAllFaceSamples } from './faceApi';
+import { estimatePose } from './faceQuality';
+import { profileDistance, MATCH_THRESHOLD } from './matching';
+
+/**
+ * Challenge-response liveness check. A printed photo or a phone screen cannot
+ * blink or turn on request, so a clock-in is only written once the tracked
+ * landmarks show the requested motion.
+ */
+
+export const LIVENESS_TIMEOUT_MS = 6000;
+const FRAME_INTERVAL_MS = 100;
+
+export const LIVENESS_INSTRUCTIONS: Record<LivenessChallenge, string> = {
+  BLINK: 'Blink your eyes',
+  TURN_LEFT: 'Turn your head left',
+  TURN_RIGHT: 'Turn your head right'
+};
+
+// Eye aspect ratio below this counts as closed, above the open threshold as open
+const EAR_CLOSED = 0.2;
+const EAR_OPEN = 0.25;
+// Yaw must start near center and then pass this offset in the requested direction
+const YAW_START_MAX = 0.08;
+const YAW_TURNED = 0.12;
+
+export const pickChallenge = (): LivenessChallenge => {
+  const challenges: LivenessChallenge[] = ['BLINK', 'TURN_LEFT', 'TURN_RIGHT'];
+  return challenges[Math.floor(Math.random() * challenges.length)];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const eyeAspectRatio = (eye: Point[]) =>
+  (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * distance(eye[0], eye[3]) || 1);
+
+export const averageEyeAspectRatio = (landmarks: Point[]) =>
+  (eyeAspectRatio(landmarks.slice(36, 42)) + eyeAspectRatio(landmarks.slice(42, 48))) / 2;
+
+/**
+ * Feed landmarks frame by frame; returns true once the challenge motion has been seen.
+ */
+export const createLivenessTracker = (challenge: LivenessChallenge) => {
+  let phase: 'start' | 'armed' | 'moved' = 'start';
+
+  return (landmarks: Point[]): boolean => {
+    if (challenge === 'BLINK') {
+      const ear = averageEyeAspectRatio(landmarks);
+      if (phase === 'start' && ear > EAR_OPEN) phase = 'armed';
+      else if (phase === 'armed' && ear < EAR_CLOSED) phase = 'moved';
+      else if (phase === 'moved' && ear > EAR_OPEN) return true;
+      return false;
+    }
+
+    // Not mirrored: the person's left moves the nose towards the image right
+    const { yaw } = estimatePose(landmarks);
+    const directed = challenge === 'TURN_LEFT' ? yaw : -yaw;
+    if (phase === 'start' && Math.abs(yaw) < YAW_START_MAX) phase = 'armed';
+    else if (phase === 'armed' && directed > YAW_TURNED) return true;
+    return false;
+  };
+};
+
+export type LivenessOutcome =
+  | { outcome: 'passed' }
+  | { outcome: 'failed'; reason: string };
+
+/**
+ * Run a challenge against the live video. Every frame must still contain a
+ * face matching the recognised profile so it cannot be swapped mid-challenge;
+ * other people in the frame are ignored.
+ */
+export const runLivenessChallenge = async (
+  video: HTMLVideoElement,
+  profile: UserFaceProfile,
+  challenge: LivenessChallenge,
+  threshold: number = MATCH_THRESHOLD
+): Promise<LivenessOutcome> => {
+  const track = createLivenessTracker(challenge);
+  const deadline = Date.now() + LIVENESS_TIMEOUT_MS;
+  let sawFace = false;
+
+  while (Date.now() < deadline) {
+    const samples = await detectAllFaceSamples(video);
+    if (samples.length > 0) {
+      sawFace = true;
+      const tracked = samples
+        .map(sample => ({ sample, distance: profileDistance(sample.descriptor, profile) }))
+        .sort((a, b) => a.distance - b.distance)[0];
+      if (tracked.distance >= threshold) {
+        return { outcome: 'failed', reason: 'Face changed during challenge' };
+      }
+      if (track(tracked.sample.landmarks)) return { outcome: 'passed' };
+    }
+    await new Promise(resolve => setTimeout(resolve, FRAME_INTERVAL_MS));
+  }
+
+  return { outcome: 'failed', reason: sawFace ? 'No motion detected' : 'Face lost during challenge' };
+};
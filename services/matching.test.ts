@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { UserFaceProfile } from '../types';
+import { setRecognitionEngine, syncRegistry } from './faceApi';
+import { createFakeRecognitionEngine, FakeRecognitionEngine } from './fakeRecognitionEngine';
+import { DEFAULT_RECOGNITION_SETTINGS, findBestMatch, getRegistryIndex, profileDistance } from './matching';
+import { recognizeFaces } from './recognitionPipeline';
+import { FrameSource } from './recognitionEngine';
+
+const frame = {} as FrameSource;
+let engine: FakeRecognitionEngine;
+
+const enroll = (name: string, templates: number[][] = [engine.descriptorOf(name)]): UserFaceProfile => ({
+  id: `id-${name}`,
+  name,
+  descriptor: templates[0],
+  descriptors: templates,
+  capturedAt: 0
+});
+
+const recognize = async (profiles: UserFaceProfile[], all = false) => {
+  await syncRegistry(getRegistryIndex(profiles).index);
+  return recognizeFaces(frame, profiles, DEFAULT_RECOGNITION_SETTINGS, all);
+};
+
+beforeEach(() => {
+  engine = createFakeRecognitionEngine();
+  setRecognitionEngine(engine);
+});
+
+describe('fake engine', () => {
+  it('places captures at exactly the scripted distance', async () => {
+    engine.show({ identity: 'alice', distance: 0.3 });
+    const descriptor = await engine.describe(frame);
+    expect(profileDistance(descriptor!, enroll('alice'))).toBeCloseTo(0.3, 5);
+  });
+
+  it('keeps different identities far apart', () => {
+    expect(engine.compare(engine.descriptorOf('alice'), engine.descriptorOf('bob'))).toBeGreaterThan(1);
+  });
+});
+
+describe('recognition', () => {
+  it('matches an enrolled face under the threshold', async () => {
+    const profiles = [enroll('alice'), enroll('bob')];
+    engine.show({ identity: 'bob', distance: 0.2 });
+    const [face] = await recognize(profiles);
+    expect(face.match.outcome).toBe('match');
+    expect(face.match.profile?.name).toBe('bob');
+    expect(face.match.distance).toBeCloseTo(0.2, 5);
+  });
+
+  it('rejects a face at or beyond the threshold', async () => {
+    engine.show({ identity: 'alice', distance: DEFAULT_RECOGNITION_SETTINGS.matchThreshold + 0.01 });
+    const [face] = await recognize([enroll('alice')]);
+    expect(face.match.outcome).toBe('no_match');
+    expect(face.match.profile?.name).toBe('alice');
+  });
+
+  it('does not recognise someone who was never enrolled', async () => {
+    engine.show({ identity: 'mallory' });
+    const [face] = await recognize([enroll('alice'), enroll('bob')]);
+    expect(face.match.outcome).toBe('no_match');
+  });
+
+  it('calls two profiles within the margin of each other ambiguous', async () => {
+    // Twins: one person enrolled twice under different names
+    const twin = engine.descriptorOf('twin');
+    const profiles = [enroll('ann', [twin]), enroll('anna', [twin])];
+    engine.show({ identity: 'twin', distance: 0.1 });
+    const [face] = await recognize(profiles);
+    expect(face.match.outcome).toBe('ambiguous');
+  });
+
+  it('honours a stricter calibrated threshold', async () => {
+    const profiles = [enroll('alice')];
+    engine.show({ identity: 'alice', distance: 0.35 });
+    await syncRegistry(getRegistryIndex(profiles).index);
+    const [face] = await recognizeFaces(frame, profiles, { matchThreshold: 0.3, minMargin: 0.05 }, false);
+    expect(face.match.outcome).toBe('no_match');
+  });
+
+  it('matches against every template of a profile', () => {
+    const extra = engine.descriptorOf('alice-glasses');
+    const profile = enroll('alice', [engine.descriptorOf('alice'), extra]);
+    const result = findBestMatch(extra, [profile]);
+    expect(result.outcome).toBe('match');
+    expect(result.distance).toBeCloseTo(0, 5);
+  });
+
+  it('returns every face in group mode, closest first', async () => {
+    const profiles = [enroll('alice'), enroll('bob')];
+    engine.show({ identity: 'alice', distance: 0.4 }, { identity: 'mallory' }, { identity: 'bob', distance: 0.1 });
+    const faces = await recognize(profiles, true);
+    expect(faces.map(face => face.match.outcome)).toEqual(['match', 'match', 'no_match']);
+    expect(faces.map(face => face.match.profile?.name).slice(0, 2)).toEqual(['bob', 'alice']);
+  });
+
+  it('only looks at one face outside group mode', async () => {
+    engine.show({ identity: 'alice' }, { identity: 'bob' });
+    expect(await recognize([enroll('alice'), enroll('bob')])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { UserFaceProfile, RecognitionSettings } from '../types';
+import { calculateDistance } from './faceApi';
+import { buildDescriptorIndex, searchNearest, DescriptorIndex, NearestNeighbours } from './descriptorIndex';
+
+export const RECOGNITION_SETTINGS_KEY = 'recognition';
+
+export const DEFAULT_RECOGNITION_SETTINGS: RecognitionSettings = {
+  matchThreshold: 0.5,
+  minMargin: 0.05
+};
+
+export const MATCH_THRESHOLD = DEFAULT_RECOGNITION_SETTINGS.matchThreshold;
+
+// Profiles enrolled before multi-sample capture only have the single descriptor
+// Profiles whose templates were removed by retention have none, so they never match
+export const getTemplates = (profile: UserFaceProfile): number[][] =>
+  profile.descriptor.length === 0 ? []
+    : profile.descriptors && profile.descriptors.length > 0
+    ? [profile.descriptor, ...profile.descriptors]
+    : [profile.descriptor];
+
+/**
+ * Best (smallest) distance between a probe descriptor and any template of a profile.
+ */
+export const profileDistance = (descriptor: Float32Array | number[], profile: UserFaceProfile): number => {
+  let best = Infinity;
+  for (const template of getTemplates(profile)) {
+    const distance = calculateDistance(descriptor, template);
+    if (distance < best) best = distance;
+  }
+  return best;
+};
+
+export type MatchResult =
+  | { outcome: 'match'; profile: UserFaceProfile; distance: number; margin: number }
+  // Closest profile is under threshold but the runner-up is too close to tell them apart
+  | { outcome: 'ambiguous'; profile: UserFaceProfile; distance: number; runnerUp: UserFaceProfile; margin: number }
+  | { outcome: 'no_match'; profile?: UserFaceProfile; distance: number };
+
+export interface RegistryIndex {
+  index: DescriptorIndex;
+  byId: Map<string, UserFaceProfile>;
+}
+
+// Profiles state is replaced rather than mutated, so the array identity is a safe cache key
+const registryIndexCache = new WeakMap<UserFaceProfile[], RegistryIndex>();
+
+export const getRegistryIndex = (profiles: UserFaceProfile[]): RegistryIndex => {
+  let cached = registryIndexCache.get(profiles);
+  if (!cached) {
+    cached = {
+      index: buildDescriptorIndex(profiles.map(profile => ({ id: profile.id, templates: getTemplates(profile) }))),
+      byId: new Map(profiles.map(profile => [profile.id, profile]))
+    };
+    registryIndexCache.set(profiles, cached);
+  }
+  return cached;
+};
+
+/**
+ * Closest profile under the threshold, rejected as ambiguous when the
+ * second-best profile is within minMargin of it. Neighbours may come from the
+ * inference worker, so ids no longer in the registry are treated as unknown.
+ */
+export const classifyMatch = (
+  nearest: NearestNeighbours,
+  byId: Map<string, UserFaceProfile>,
+  settings: RecognitionSettings = DEFAULT_RECOGNITION_SETTINGS
+): MatchResult => {
+  const best = nearest.best && byId.get(nearest.best.id);
+  const runnerUp = nearest.runnerUp && byId.get(nearest.runnerUp.id);
+  if (!best || nearest.best!.distance >= settings.matchThreshold) {
+    return { outcome: 'no_match', profile: best, distance: nearest.best?.distance ?? Infinity };
+  }
+  const distance = nearest.best!.distance;
+  const margin = runnerUp ? nearest.runnerUp!.distance - distance : Infinity;
+  if (runnerUp && margin < settings.minMargin) {
+    return { outcome: 'ambiguous', profile: best, distance, runnerUp, margin };
+  }
+  return { outcome: 'match', profile: best, distance, margin };
+};
+
+export const findBestMatch = (
+  descriptor: Float32Array | number[],
+  profiles: UserFaceProfile[],
+  settings: RecognitionSettings = DEFAULT_RECOGNITION_SETTINGS
+): MatchResult => {
+  const { index, byId } = getRegistryIndex(profiles);
+  return classifyMatch(searchNearest(index, descriptor), byId, settings);
+};
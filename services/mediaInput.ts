@@ -0,0 +1,62 @@
+import { FrameSource } from './recognitionEngine';
+
+/**
+ * Uploaded photos and recorded videos as frame sources, so enrollment and
+ * recognition can be run without a camera.
+ */
+
+export const MEDIA_ACCEPT = 'image/*,video/*';
+// Spacing of the frames taken from a video
+export const VIDEO_FRAME_INTERVAL_MS = 500;
+
+export const isVideoFile = (file: File) => file.type.startsWith('video/');
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not read ${file.name}`));
+    image.src = URL.createObjectURL(file);
+  });
+
+const loadVideo = (file: File): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error(`Could not play ${file.name}`));
+    video.src = URL.createObjectURL(file);
+  });
+
+const seek = (video: HTMLVideoElement, seconds: number) =>
+  new Promise<void>(resolve => {
+    video.onseeked = () => resolve();
+    video.currentTime = seconds;
+  });
+
+/**
+ * Each photo once, and each video every intervalMs. A video element is
+ * yielded after every seek, so callers read it before asking for the next frame.
+ */
+export async function* mediaFrames(files: File[], intervalMs: number = VIDEO_FRAME_INTERVAL_MS): AsyncGenerator<FrameSource> {
+  for (const file of files) {
+    const media = isVideoFile(file) ? await loadVideo(file) : await loadImage(file);
+    try {
+      if (media instanceof HTMLVideoElement) {
+        for (let seconds = 0; seconds < media.duration; seconds += intervalMs / 1000) {
+          await seek(media, seconds);
+          yield media;
+        }
+      } else {
+        yield media;
+      }
+    } finally {
+      URL.revokeObjectURL(media.src);
+    }
+  }
+}
+
+// Where in the upload a frame came from, for result listings
+export const describeFrame = (file: File, frame: FrameSource) =>
+  frame instanceof HTMLVideoElement ? `${file.name} @ ${frame.currentTime.toFixed(1)}s` : file.name;
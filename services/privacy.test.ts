@@ -0,0 +1,83 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { AttendanceRecord, LivenessFailure, UserFaceProfile } from '../types';
+import { profileDistance } from './matching';
+import { openRepositories } from './storage';
+import { setActiveKey } from './vault';
+import {
+  CONSENT_VERSION, ERASED_NAME, anonymizeRecord, createConsent, eraseDataSubject, exportPersonalData, hasCurrentConsent,
+  profilesDueForPurge, purgeTemplates, retentionCutoff, trackDeactivation
+} from './privacy';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-06-01T12:00Z');
+const template = Array.from({ length: 128 }, (_, i) => i / 128);
+
+const profile = (patch: Partial<UserFaceProfile> = {}): UserFaceProfile => ({
+  id: 'id-alice',
+  name: 'alice',
+  descriptor: template,
+  descriptors: [template],
+  thumbnail: 'data:image/jpeg;base64,AAAA',
+  capturedAt: NOW - 400 * DAY,
+  ...patch
+});
+
+describe('privacy', () => {
+  it('only accepts consent to the current notice', () => {
+    expect(hasCurrentConsent(profile())).toBe(false);
+    expect(hasCurrentConsent(profile({ consent: createConsent('Admin PIN', NOW) }))).toBe(true);
+    expect(hasCurrentConsent(profile({ consent: { version: `${CONSENT_VERSION}-old`, acceptedAt: NOW, recordedBy: 'SITI' } }))).toBe(false);
+  });
+
+  it('starts the template clock on deactivation and clears it on reactivation', () => {
+    const leaver = trackDeactivation(profile(), profile({ active: false }), NOW);
+    expect(leaver.deactivatedAt).toBe(NOW);
+    expect(trackDeactivation(leaver, { ...leaver, name: 'ALICE' }, NOW + DAY).deactivatedAt).toBe(NOW);
+    expect(trackDeactivation(leaver, { ...leaver, active: true }, NOW + DAY).deactivatedAt).toBeUndefined();
+  });
+
+  it('purges templates of staff inactive longer than the retention period', () => {
+    const profiles = [
+      profile({ id: 'left-long-ago', active: false, deactivatedAt: NOW - 91 * DAY }),
+      profile({ id: 'left-recently', active: false, deactivatedAt: NOW - 10 * DAY }),
+      profile({ id: 'still-here', deactivatedAt: undefined })
+    ];
+    expect(profilesDueForPurge(profiles, 90, NOW).map(p => p.id)).toEqual(['left-long-ago']);
+    expect(profilesDueForPurge(profiles, 0, NOW)).toEqual([]);
+    expect(retentionCutoff(0, NOW)).toBeNull();
+
+    const purged = purgeTemplates(profiles[0], NOW);
+    expect(purged).toMatchObject({ descriptor: [], descriptors: undefined, thumbnail: undefined, templatesPurgedAt: NOW, name: 'alice' });
+    expect(profileDistance(template, purged)).toBe(Infinity);
+  });
+
+  it('replaces erased records with anonymous tombstones that win on the server', () => {
+    const record: AttendanceRecord = {
+      id: 'r1', profileId: 'id-alice', name: 'alice', timestamp: NOW - DAY, businessDate: '2024-05-31', type: 'IN', revision: 2
+    };
+    const tombstone = anonymizeRecord(record, 'Admin PIN', NOW);
+    expect(tombstone).toMatchObject({ id: 'r1', name: ERASED_NAME, revision: 3, deletedAt: NOW, timestamp: record.timestamp });
+    expect(tombstone.profileId).toBeUndefined();
+  });
+
+  it('only exports and erases liveness alerts linked to the person', async () => {
+    // The one-off migration from localStorage runs on open; node has no localStorage
+    vi.stubGlobal('localStorage', { getItem: () => null, removeItem: () => undefined });
+    setActiveKey(await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']));
+    const repos = await openRepositories();
+    const alert = (id: string, profileId?: string): LivenessFailure => ({
+      id, profileId, name: 'alice', challenge: 'BLINK', reason: 'No blink', distance: 0.3, timestamp: NOW
+    });
+    await repos.livenessFailures.putMany([alert('mine', 'id-alice'), alert('namesake', 'id-other-alice'), alert('legacy')]);
+
+    const exported = JSON.parse(await exportPersonalData(repos, profile(), NOW));
+    expect(exported.livenessAlerts.map((a: LivenessFailure) => a.id)).toEqual(['mine']);
+    expect(exported.unlinkedLivenessAlerts).toBe(1);
+
+    const report = await eraseDataSubject(repos, profile(), 'Admin PIN', NOW);
+    expect(report.removed.livenessAlerts).toBe(1);
+    expect(report.unlinkedLivenessAlerts).toBe(1);
+    expect((await repos.livenessFailures.getAll()).map(a => a.id).sort()).toEqual(['legacy', 'namesake']);
+  });
+});
@@ -0,0 +1,253 @@
+import { AttendanceRecord, ConsentRecord, LivenessFailure, UserFaceProfile } from '../types';
+import { Repositories } from './storage';
+import { getTemplates } from './matching';
+import { isActiveProfile } from './profiles';
+import { isTombstone } from './corrections';
+
+/**
+ * Personal data protection under Malaysia's PDPA 2010: the consent taken at
+ * enrollment, retention periods, and the access and erasure requests an
+ * employee can make about their own data.
+ */
+
+// Bump whenever CONSENT_NOTICE changes; profiles that agreed to an older version are flagged
+export const CONSENT_VERSION = '1';
+
+export const CONSENT_NOTICE = [
+  'Your face is captured to record your attendance. The kiosk keeps face templates (numbers derived from your face) and a small photo, encrypted on this device and on the company server when central sync is set up.',
+  'Each clock-in, break and clock-out is recorded with its time. The records are used for attendance and payroll only and are not shared with third parties.',
+  'Face templates are removed after you leave, and attendance records once the retention period set by the company has passed.',
+  'Consent is voluntary. You may ask for a copy of your data, or for it to be erased, at any time.'
+];
+
+export const createConsent = (recordedBy: string, now: number): ConsentRecord =>
+  ({ version: CONSENT_VERSION, acceptedAt: now, recordedBy });
+
+export const hasCurrentConsent = (profile: UserFaceProfile) => profile.consent?.version === CONSENT_VERSION;
+
+export const hasTemplates = (profile: UserFaceProfile) => profile.descriptor.length > 0;
+
+export const RETENTION_SETTING = 'retention';
+// Counts from the last retention pass, for the privacy panel
+export const RETENTION_LOG_SETTING = 'retention_log';
+export const ERASURE_LOG_SETTING = 'erasure_log';
+// Retention runs when the vault is opened and then this often
+export const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Periods in days; 0 keeps the data indefinitely
+export interface RetentionSettings {
+  attendanceDays: number; // Attendance records with their correction history
+  inactiveTemplateDays: number; // Face templates and photo of inactive staff, from deactivation
+  attemptDays: number; // Unrecognised-face log and liveness alerts
+}
+
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  attendanceDays: 0,
+  inactiveTemplateDays: 0,
+  attemptDays: 30
+};
+
+export interface RetentionRun {
+  ranAt: number;
+  attendanceRecords: number;
+  auditEntries: number;
+  templates: number; // Profiles whose templates were removed
+  recognitionAttempts: number;
+  livenessFailures: number;
+}
+
+export const retentionCutoff = (days: number, now: number): number | null => days > 0 ? now - days * DAY_MS : null;
+
+/**
+ * Stamps when a profile becomes inactive and clears the stamp on reactivation.
+ * Inactive profiles from before the stamp existed start counting now.
+ */
+export const trackDeactivation = (previous: UserFaceProfile | undefined, next: UserFaceProfile, now: number): UserFaceProfile => {
+  if (isActiveProfile(next)) return next.deactivatedAt === undefined ? next : { ...next, deactivatedAt: undefined };
+  const wasActive = !previous || isActiveProfile(previous);
+  return wasActive || next.deactivatedAt === undefined ? { ...next, deactivatedAt: now } : next;
+};
+
+export const profilesDueForPurge = (profiles: UserFaceProfile[], days: number, now: number) => {
+  const cutoff = retentionCutoff(days, now);
+  if (cutoff === null) return [];
+  return profiles.filter(profile => !isActiveProfile(profile) && hasTemplates(profile)
+    && profile.deactivatedAt !== undefined && profile.deactivatedAt < cutoff);
+};
+
+// The profile itself stays, so attendance history keeps its name and staff ID
+export const purgeTemplates = (profile: UserFaceProfile, now: number): UserFaceProfile => ({
+  ...profile,
+  descriptor: [],
+  descriptors: undefined,
+  thumbnail: undefined,
+  templatesPurgedAt: now
+});
+
+/**
+ * Deletes whatever has outlived its retention period. Unsent attendance is
+ * kept while sync is on, so the server still receives it.
+ */
+export const applyRetention = async (
+  repos: Repositories,
+  settings: RetentionSettings,
+  keepUnsent: boolean,
+  now: number
+): Promise<RetentionRun> => {
+  const run: RetentionRun = { ranAt: now, attendanceRecords: 0, auditEntries: 0, templates: 0, recognitionAttempts: 0, livenessFailures: 0 };
+
+  const attendanceCutoff = retentionCutoff(settings.attendanceDays, now);
+  if (attendanceCutoff !== null) {
+    const purged = await repos.attendance.purgeBefore(attendanceCutoff, keepUnsent);
+    run.attendanceRecords = purged.records;
+    run.auditEntries = purged.auditEntries;
+  }
+
+  if (settings.inactiveTemplateDays > 0) {
+    const profiles = await repos.profiles.getAll();
+    const unstamped = profiles.filter(p => !isActiveProfile(p) && p.deactivatedAt === undefined);
+    const due = profilesDueForPurge(profiles, settings.inactiveTemplateDays, now);
+    const writes = [
+      ...unstamped.map(profile => trackDeactivation(undefined, profile, now)),
+      ...due.map(profile => purgeTemplates(profile, now))
+    ];
+    if (writes.length > 0) await repos.profiles.putMany(writes);
+    run.templates = due.length;
+  }
+
+  const attemptCutoff = retentionCutoff(settings.attemptDays, now);
+  if (attemptCutoff !== null) {
+    run.recognitionAttempts = await repos.recognitionAttempts.deleteBefore(attemptCutoff);
+    const failures = (await repos.livenessFailures.getAll()).filter(f => f.timestamp < attemptCutoff);
+    for (const failure of failures) await repos.livenessFailures.delete(failure.id);
+    run.livenessFailures = failures.length;
+  }
+
+  await repos.settings.put(RETENTION_LOG_SETTING, run);
+  return run;
+};
+
+/**
+ * Older liveness alerts only carry the name the face matched. Two employees
+ * can share a name, so those are never treated as this person's; they are
+ * counted for the admin to review instead.
+ */
+const concernsProfile = (profile: UserFaceProfile) => ({
+  attempt: (a: { candidateId?: string; attachedProfileId?: string }) => a.candidateId === profile.id || a.attachedProfileId === profile.id,
+  failure: (f: LivenessFailure) => f.profileId === profile.id,
+  unlinkedFailure: (f: LivenessFailure) => f.profileId === undefined && f.name === profile.name
+});
+
+/**
+ * Everything the kiosk holds about one employee, as JSON for an access
+ * request. Face templates are counted rather than exported; they are only
+ * meaningful to the matcher.
+ */
+export const exportPersonalData = async (repos: Repositories, profile: UserFaceProfile, now: number): Promise<string> => {
+  const concerns = concernsProfile(profile);
+  const records = (await repos.attendance.forProfile(profile.id)).filter(record => !isTombstone(record));
+  const corrections = (await Promise.all(records.map(record => repos.attendanceAudit.forRecord(record.id)))).flat();
+  const attempts = (await repos.recognitionAttempts.getAll()).filter(concerns.attempt);
+  const allFailures = await repos.livenessFailures.getAll();
+  const failures = allFailures.filter(concerns.failure);
+  const { descriptor, descriptors, ...details } = profile;
+
+  return JSON.stringify({
+    exportedAt: new Date(now).toISOString(),
+    profile: { ...details, faceTemplates: getTemplates(profile).length },
+    attendance: records,
+    corrections,
+    recognitionAttempts: attempts.map(({ descriptor, ...attempt }) => attempt),
+    livenessAlerts: failures,
+    // Older alerts under the same name, left out because they may be someone else's
+    unlinkedLivenessAlerts: allFailures.filter(concerns.unlinkedFailure).length
+  }, null, 2);
+};
+
+export interface ErasureCounts {
+  faceTemplates: number;
+  photo: boolean;
+  attendanceRecords: number;
+  correctionEntries: number;
+  recognitionAttempts: number;
+  livenessAlerts: number;
+  webhookDeliveries: number;
+}
+
+export interface ErasureReport {
+  requestId: string;
+  profileId: string;
+  name: string;
+  staffId?: string;
+  erasedAt: number;
+  erasedBy: string;
+  removed: ErasureCounts;
+  unlinkedLivenessAlerts: number; // Older alerts under the same name, kept for the admin to review
+}
+
+// Kept on the device as proof the request was handled, without the person's details
+export type ErasureLogEntry = Omit<ErasureReport, 'name' | 'staffId' | 'unlinkedLivenessAlerts'>;
+
+export const ERASED_NAME = 'Erased';
+const ERASURE_REASON = 'Erasure request';
+
+/**
+ * An anonymous tombstone in place of an erased record. The higher revision
+ * makes the server replace, and so drop, its own copy on the next sync.
+ */
+export const anonymizeRecord = (record: AttendanceRecord, author: string, now: number): AttendanceRecord => ({
+  id: record.id,
+  name: ERASED_NAME,
+  timestamp: record.timestamp,
+  businessDate: record.businessDate,
+  type: record.type,
+  source: record.source,
+  revision: (record.revision ?? 0) + 1,
+  author,
+  reason: ERASURE_REASON,
+  deletedAt: record.deletedAt ?? now
+});
+
+// Removes the employee's profile and every record that identifies them
+export const eraseDataSubject = async (repos: Repositories, profile: UserFaceProfile, author: string, now: number): Promise<ErasureReport> => {
+  const concerns = concernsProfile(profile);
+  const records = await repos.attendance.forProfile(profile.id);
+  const correctionEntries = records.length > 0
+    ? await repos.attendance.redact(records.map(record => anonymizeRecord(record, author, now)))
+    : 0;
+
+  const attempts = (await repos.recognitionAttempts.getAll()).filter(concerns.attempt);
+  for (const attempt of attempts) await repos.recognitionAttempts.delete(attempt.id);
+  const allFailures = await repos.livenessFailures.getAll();
+  const failures = allFailures.filter(concerns.failure);
+  for (const failure of failures) await repos.livenessFailures.delete(failure.id);
+  // Queued and logged webhook payloads name the employee
+  const deliveries = (await repos.webhookDeliveries.getAll()).filter(d => d.body.includes(profile.id));
+  for (const delivery of deliveries) await repos.webhookDeliveries.delete(delivery.id);
+
+  await repos.profiles.delete(profile.id);
+
+  const report: ErasureReport = {
+    requestId: crypto.randomUUID(),
+    profileId: profile.id,
+    name: profile.name,
+    staffId: profile.staffId,
+    erasedAt: now,
+    erasedBy: author,
+    removed: {
+      faceTemplates: getTemplates(profile).length,
+      photo: !!profile.thumbnail,
+      attendanceRecords: records.filter(record => !isTombstone(record)).length,
+      correctionEntries,
+      recognitionAttempts: attempts.length,
+      livenessAlerts: failures.length,
+      webhookDeliveries: deliveries.length
+    },
+    unlinkedLivenessAlerts: allFailures.filter(concerns.unlinkedFailure).length
+  };
+  const { name, staffId, unlinkedLivenessAlerts, ...entry } = report;
+  const log = (await repos.settings.get<ErasureLogEntry[]>(ERASURE_LOG_SETTING)) ?? [];
+  await repos.settings.put(ERASURE_LOG_SETTING, [entry, ...log]);
+  return report;
+};
@@ -0,0 +1,47 @@
+import { FaceBox, UserFaceProfile } from '../types';
+import { FrameSource } from './recognitionEngine';
+
+/**
+ * Employee profile helpers: identity, display and the enrollment thumbnail.
+ */
+
+const THUMBNAIL_SIZE = 96;
+// Margin around the detected face box, as a fraction of its larger side
+const THUMBNAIL_PADDING = 0.3;
+
+export const isActiveProfile = (profile: UserFaceProfile) => profile.active !== false;
+
+// Name plus employee number, so two people with the same name can be told apart
+export const profileLabel = (profile: Pick<UserFaceProfile, 'name' | 'staffId'>) =>
+  profile.staffId ? `${profile.name} · ${profile.staffId}` : profile.name;
+
+export const normalizeStaffId = (staffId: string) => staffId.trim().toUpperCase();
+
+// Another profile already using the employee number, if any
+export const findStaffIdConflict = (profiles: UserFaceProfile[], staffId: string, exceptId?: string) => {
+  const wanted = normalizeStaffId(staffId);
+  if (!wanted) return undefined;
+  return profiles.find(p => p.id !== exceptId && p.staffId && normalizeStaffId(p.staffId) === wanted);
+};
+
+/**
+ * Square JPEG crop around the face, small enough to keep alongside the templates.
+ */
+const frameSize = (frame: FrameSource) =>
+  frame instanceof HTMLVideoElement ? { width: frame.videoWidth, height: frame.videoHeight }
+  : frame instanceof HTMLImageElement ? { width: frame.naturalWidth, height: frame.naturalHeight }
+  : { width: frame.width, height: frame.height };
+
+export const captureThumbnail = (frame: FrameSource, box: FaceBox): string => {
+  const { width, height } = frameSize(frame);
+  const side = Math.max(box.width, box.height) * (1 + 2 * THUMBNAIL_PADDING);
+  const sx = Math.max(0, box.x + box.width / 2 - side / 2);
+  const sy = Math.max(0, box.y + box.height / 2 - side / 2);
+  const crop = Math.min(side, width - sx, height - sy);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_SIZE;
+  canvas.height = THUMBNAIL_SIZE;
+  canvas.getContext('2d')!.drawImage(frame, sx, sy, crop, crop, 0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
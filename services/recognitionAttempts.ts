@@ -0,0 +1,62 @@
+import { RecognitionAttempt, RecognitionSettings, UserFaceProfile } from '../types';
+import { calculateDistance } from './faceApi';
+import { MatchResult } from './matching';
+
+/**
+ * Audit trail of faces the scanner could not resolve, for admin review.
+ * Near misses are usually enrolled staff whose templates no longer cover how
+ * they look today; attaching the attempt's descriptor fixes that.
+ */
+
+export const ATTEMPT_LOG_SETTING = 'attempt_log';
+// Attempts kept on the device; older ones are pruned as new ones arrive
+export const ATTEMPT_LOG_SIZE = 500;
+// The same unresolved face is logged at most once in this window
+export const ATTEMPT_REPEAT_WINDOW_MS = 30 * 1000;
+// How far above the match threshold still counts as a near miss
+export const NEAR_MISS_MARGIN = 0.1;
+
+export interface AttemptLogSettings {
+  snapshots: boolean; // Store a cropped photo of the face with each attempt
+}
+
+export const DEFAULT_ATTEMPT_LOG_SETTINGS: AttemptLogSettings = { snapshots: true };
+
+export const isNearMiss = (match: MatchResult, settings: RecognitionSettings) =>
+  match.outcome === 'ambiguous'
+  || (match.outcome === 'no_match' && !!match.profile && match.distance < settings.matchThreshold + NEAR_MISS_MARGIN);
+
+export const createAttempt = (
+  match: MatchResult,
+  descriptor: number[],
+  settings: RecognitionSettings,
+  snapshot?: string
+): RecognitionAttempt => ({
+  id: crypto.randomUUID(),
+  timestamp: Date.now(),
+  outcome: match.outcome === 'ambiguous' ? 'ambiguous' : 'no_match',
+  candidateId: match.profile?.id,
+  candidateName: match.profile?.name,
+  distance: Number.isFinite(match.distance) ? match.distance : null,
+  nearMiss: isNearMiss(match, settings),
+  descriptor,
+  snapshot,
+  status: 'pending'
+});
+
+/**
+ * Whether the face was already logged within the repeat window. Someone
+ * standing in front of the kiosk is scanned every couple of seconds.
+ */
+export const loggedRecently = (
+  recent: { descriptor: number[]; timestamp: number }[],
+  descriptor: number[],
+  threshold: number,
+  now: number
+) => recent.some(entry => now - entry.timestamp < ATTEMPT_REPEAT_WINDOW_MS && calculateDistance(entry.descriptor, descriptor) < threshold);
+
+// Adds the descriptor as one more template; legacy single-template profiles keep their original
+export const attachTemplate = (profile: UserFaceProfile, descriptor: number[]): UserFaceProfile => ({
+  ...profile,
+  descriptors: [...(profile.descriptors?.length ? profile.descriptors : [profile.descriptor]), descriptor]
+});
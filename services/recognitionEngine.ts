@@ -0,0 +1,38 @@
+import { FaceSample } from '../types';
+import { DescriptorIndex, NearestNeighbours } from './descriptorIndex';
+
+/**
+ * What the kiosk needs from a face recognition backend. services/faceApi.ts
+ * provides the face-api implementation and selects the active engine;
+ * services/fakeRecognitionEngine.ts is a deterministic stand-in for tests.
+ */
+
+export type FrameSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+
+export interface ScannedFace {
+  sample: FaceSample;
+  nearest: NearestNeighbours;
+}
+
+export interface RecognitionEngine {
+  load(): Promise<void>;
+  // Faces with landmarks and descriptors; with all = false at most the most prominent one
+  detect(input: FrameSource, all: boolean): Promise<FaceSample[]>;
+  // Descriptor of the most prominent face, or null when there is none
+  describe(input: FrameSource): Promise<Float32Array | null>;
+  // Distance between two descriptors; under the match threshold means the same person
+  compare(a: ArrayLike<number>, b: ArrayLike<number>): number;
+  // Registry that scan() matches against
+  setRegistry(index: DescriptorIndex): Promise<void>;
+  // Detect and match in one pass
+  scan(input: FrameSource, all: boolean): Promise<ScannedFace[]>;
+}
+
+export const euclideanDistance = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+};
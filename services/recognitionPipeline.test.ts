@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AttendanceRecord, TimekeepingSettings, UserFaceProfile } from '../types';
+import { resolveNextEvent } from './attendance';
+import { setRecognitionEngine, syncRegistry } from './faceApi';
+import { robustMeanDescriptor } from './faceQuality';
+import { createFakeRecognitionEngine, FakeFace, FakeRecognitionEngine } from './fakeRecognitionEngine';
+import { runLivenessChallenge } from './liveness';
+import { DEFAULT_RECOGNITION_SETTINGS, getRegistryIndex } from './matching';
+import { collectSamples, recognizeFaces } from './recognitionPipeline';
+import { FrameSource } from './recognitionEngine';
+import { businessDate } from './timekeeping';
+
+const timekeeping: TimekeepingSettings = { timeZone: 'UTC', dayStartsAt: '00:00' };
+const frame = {} as FrameSource;
+let engine: FakeRecognitionEngine;
+
+// One uploaded photo per scene
+const photos = (count: number) => Array.from({ length: count }, () => frame);
+
+const enrollFrom = async (name: string, ...scenes: FakeFace[][]): Promise<UserFaceProfile> => {
+  engine.play(...scenes);
+  const { samples } = await collectSamples(photos(scenes.length));
+  return { id: `id-${name}`, name, descriptor: robustMeanDescriptor(samples), descriptors: samples, capturedAt: 0 };
+};
+
+// One kiosk scan: recognise, then record whatever the attendance rules allow
+const scan = async (profiles: UserFaceProfile[], logs: AttendanceRecord[], now: Date) => {
+  await syncRegistry(getRegistryIndex(profiles).index);
+  const [face] = await recognizeFaces(frame, profiles, DEFAULT_RECOGNITION_SETTINGS, false);
+  if (face?.match.outcome !== 'match') return { face, resolution: null };
+  const resolution = resolveNextEvent(logs, face.match.profile, 'AUTO', now, timekeeping);
+  if (resolution.outcome === 'accepted') {
+    logs.unshift({
+      id: `${logs.length}`,
+      profileId: face.match.profile.id,
+      name: face.match.profile.name,
+      timestamp: now.getTime(),
+      businessDate: businessDate(now.getTime(), timekeeping),
+      type: resolution.type
+    });
+  }
+  return { face, resolution };
+};
+
+beforeEach(() => {
+  engine = createFakeRecognitionEngine();
+  setRecognitionEngine(engine);
+});
+
+describe('enrollment', () => {
+  it('keeps only frames that pass the quality checks', async () => {
+    engine.play(
+      [{ identity: 'alice', distance: 0.05 }],
+      [],
+      [{ identity: 'alice', score: 0.5 }],
+      [{ identity: 'alice', box: { x: 300, y: 200, width: 60, height: 72 } }],
+      [{ identity: 'alice', distance: 0.05, yaw: 0.2 }]
+    );
+    const { samples, rejected } = await collectSamples(photos(5));
+    expect(samples).toHaveLength(2);
+    expect(rejected).toEqual(['No face detected.', 'Face unclear. Improve lighting.', 'Move closer to the camera.']);
+  });
+
+  it('stops at the sample limit', async () => {
+    engine.show({ identity: 'alice', distance: 0.05 });
+    const { samples } = await collectSamples(photos(10), 3);
+    expect(samples).toHaveLength(3);
+    expect(engine.frames).toBe(3);
+  });
+
+  it('hands each accepted frame to the caller', async () => {
+    engine.play([{ identity: 'alice' }], [{ identity: 'alice', yaw: 0.5 }]);
+    const accepted: number[] = [];
+    await collectSamples(photos(2), 5, (_frame, sample) => accepted.push(sample.box.width));
+    expect(accepted).toEqual([200]);
+  });
+});
+
+describe('clock-in from enrollment to attendance', () => {
+  it('enrolls from photos and then records IN, too_soon and OUT', async () => {
+    const alice = await enrollFrom('alice',
+      [{ identity: 'alice', distance: 0.08 }],
+      [{ identity: 'alice', distance: 0.08, yaw: 0.2 }],
+      [{ identity: 'alice', distance: 0.08, yaw: -0.2 }]
+    );
+    const bob = await enrollFrom('bob', [{ identity: 'bob', distance: 0.05 }]);
+    const logs: AttendanceRecord[] = [];
+
+    engine.show({ identity: 'alice', distance: 0.15 });
+    const first = await scan([alice, bob], logs, new Date('2024-03-04T08:00Z'));
+    expect(first.face.match.profile?.id).toBe('id-alice');
+    expect(first.resolution).toEqual({ outcome: 'accepted', type: 'IN' });
+
+    const again = await scan([alice, bob], logs, new Date('2024-03-04T08:00:30Z'));
+    expect(again.resolution).toMatchObject({ outcome: 'rejected', reason: 'too_soon' });
+
+    const out = await scan([alice, bob], logs, new Date('2024-03-04T17:00Z'));
+    expect(out.resolution).toEqual({ outcome: 'accepted', type: 'OUT' });
+    expect(logs.map(log => log.type)).toEqual(['OUT', 'IN']);
+  });
+
+  it('records nothing for a stranger', async () => {
+    const alice = await enrollFrom('alice', [{ identity: 'alice' }]);
+    const logs: AttendanceRecord[] = [];
+    engine.show({ identity: 'mallory' });
+    const { face, resolution } = await scan([alice], logs, new Date('2024-03-04T08:00Z'));
+    expect(face.match.outcome).toBe('no_match');
+    expect(resolution).toBeNull();
+    expect(logs).toEqual([]);
+  });
+});
+
+describe('liveness', () => {
+  const video = {} as HTMLVideoElement;
+
+  it('passes once the tracked face blinks', async () => {
+    const alice = await enrollFrom('alice', [{ identity: 'alice' }]);
+    engine.play(
+      [{ identity: 'alice', distance: 0.1 }],
+      [{ identity: 'alice', distance: 0.1, eyesClosed: true }],
+      [{ identity: 'alice', distance: 0.1 }]
+    );
+    expect(await runLivenessChallenge(video, alice, 'BLINK')).toEqual({ outcome: 'passed' });
+  });
+
+  it('fails when another face takes over mid-challenge', async () => {
+    const alice = await enrollFrom('alice', [{ identity: 'alice' }]);
+    engine.play(
+      [{ identity: 'alice', distance: 0.1 }],
+      [{ identity: 'mallory', eyesClosed: true }]
+    );
+    expect(await runLivenessChallenge(video, alice, 'BLINK'))
+      .toEqual({ outcome: 'failed', reason: 'Face changed during challenge' });
+  });
+});
@@ -0,0 +1,67 @@
+import { FaceSample, RecognitionSettings, UserFaceProfile } from '../types';
+import { detectFaceSample, scanFrame } from './faceApi';
+import { ENROLLMENT_STEPS, EnrollmentPose, assessSample } from './faceQuality';
+import { MatchResult, classifyMatch, getRegistryIndex } from './matching';
+import { FrameSource } from './recognitionEngine';
+
+/**
+ * Frame-level recognition and enrollment steps, independent of where frames
+ * come from: the live camera, uploaded photos or a recorded video.
+ */
+
+export interface RecognizedFace {
+  sample: FaceSample;
+  match: MatchResult;
+}
+
+/**
+ * Every face in the frame classified against the registry, closest first so
+ * that if one profile matches twice the better face wins. The engine must
+ * already hold the same registry through syncRegistry.
+ */
+export const recognizeFaces = async (
+  input: FrameSource,
+  profiles: UserFaceProfile[],
+  settings: RecognitionSettings,
+  all: boolean
+): Promise<RecognizedFace[]> => {
+  const faces = await scanFrame(input, all);
+  const { byId } = getRegistryIndex(profiles);
+  return faces
+    .map(({ sample, nearest }) => ({ sample, match: classifyMatch(nearest, byId, settings) }))
+    .sort((a, b) => a.match.distance - b.match.distance);
+};
+
+const MEDIA_POSES: EnrollmentPose[] = ['center', 'left', 'right'];
+
+// Uploaded media has no guided poses, so any pose the camera flow would take is fine
+export const assessMediaSample = (sample: FaceSample): { accepted: boolean; reason?: string } =>
+  MEDIA_POSES.some(pose => assessSample(sample, pose).accepted) ? { accepted: true } : assessSample(sample, 'center');
+
+// Upper bound on templates taken from uploaded media
+export const MAX_MEDIA_SAMPLES = ENROLLMENT_STEPS.length * 2;
+
+/**
+ * Quality-checked enrollment templates from a sequence of frames. onAccepted
+ * runs while the frame still shows the accepted face, e.g. to crop a thumbnail.
+ */
+export const collectSamples = async (
+  frames: AsyncIterable<FrameSource> | Iterable<FrameSource>,
+  maxSamples: number = MAX_MEDIA_SAMPLES,
+  onAccepted?: (frame: FrameSource, sample: FaceSample) => void
+): Promise<{ samples: number[][]; rejected: string[] }> => {
+  const samples: number[][] = [];
+  const rejected: string[] = [];
+  for await (const frame of frames) {
+    const sample = await detectFaceSample(frame);
+    const verdict = sample ? assessMediaSample(sample) : { accepted: false, reason: 'No face detected.' };
+    if (!verdict.accepted) {
+      rejected.push(verdict.reason!);
+      continue;
+    }
+    onAccepted?.(frame, sample!);
+    samples.push(Array.from(sample!.descriptor));
+    if (samples.length >= maxSamples) break;
+  }
+  return { samples, rejected };
+};
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { BackupFormatError, createRegistryBackup, readRegistryBackup } from './registryBackup';
+
+describe('registry backup', () => {
+  it('rejects key derivation settings it should not run', async () => {
+    const file = JSON.parse(await createRegistryBackup([], 'correct horse'));
+    const tampered = (kdf: object) => JSON.stringify({ ...file, kdf: { ...file.kdf, ...kdf } });
+
+    for (const iterations of [0, -1, '310000', 1.5, 1e12]) {
+      await expect(readRegistryBackup(tampered({ iterations }), 'correct horse')).rejects.toBeInstanceOf(BackupFormatError);
+    }
+    await expect(readRegistryBackup(tampered({ salt: 'not base64!' }), 'correct horse')).rejects.toBeInstanceOf(BackupFormatError);
+    await expect(readRegistryBackup(tampered({ salt: 42 }), 'correct horse')).rejects.toBeInstanceOf(BackupFormatError);
+    await expect(readRegistryBackup(JSON.stringify(file), 'correct horse')).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { UserFaceProfile } from '../types';
+import { SealedPayload, deriveKey, sealWith, unsealWith, toBase64, fromBase64, InvalidPassphraseError } from './vault';
+
+/**
+ * Registry backup files. Face templates are biometric data, so the profile list
+ * is always encrypted with a passphrase chosen at export time, the same way the
+ * on-device vault is.
+ */
+
+export const REGISTRY_BACKUP_FORMAT = 'mysyarikat-registry-backup';
+export const REGISTRY_BACKUP_VERSION = 1;
+
+const BACKUP_ITERATIONS = 310000;
+// Bounds on the iteration count a backup file may ask for; the upper one keeps a crafted file from freezing the kiosk
+const MIN_BACKUP_ITERATIONS = 100000;
+const MAX_BACKUP_ITERATIONS = 5000000;
+const DESCRIPTOR_LENGTH = 128;
+
+export interface RegistryBackupFile {
+  format: typeof REGISTRY_BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO 8601
+  profileCount: number;
+  kdf: { salt: string; iterations: number };
+  payload: SealedPayload;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+const isDescriptor = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length === DESCRIPTOR_LENGTH && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+export const isValidProfile = (value: unknown): value is UserFaceProfile => {
+  if (typeof value !== 'object' || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return typeof v.id === 'string' && v.id.length > 0 &&
+    typeof v.name === 'string' && v.name.trim().length > 0 &&
+    (isDescriptor(v.descriptor) || (typeof v.templatesPurgedAt === 'number' && Array.isArray(v.descriptor) && v.descriptor.length === 0)) &&
+    (v.descriptors === undefined || (Array.isArray(v.descriptors) && v.descriptors.every(isDescriptor))) &&
+    typeof v.capturedAt === 'number' &&
+    (v.enrolledAt === undefined || typeof v.enrolledAt === 'number') &&
+    (v.role === undefined || v.role === 'staff' || v.role === 'admin') &&
+    ['staffId', 'department', 'jobTitle', 'thumbnail'].every(key => v[key] === undefined || typeof v[key] === 'string') &&
+    (v.active === undefined || typeof v.active === 'boolean') &&
+    (v.siteIds === undefined || (Array.isArray(v.siteIds) && v.siteIds.every(id => typeof id === 'string')));
+};
+
+export const createRegistryBackup = async (profiles: UserFaceProfile[], passphrase: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, BACKUP_ITERATIONS);
+  const file: RegistryBackupFile = {
+    format: REGISTRY_BACKUP_FORMAT,
+    version: REGISTRY_BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    profileCount: profiles.length,
+    kdf: { salt: toBase64(salt), iterations: BACKUP_ITERATIONS },
+    payload: await sealWith(key, profiles)
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parse, decrypt and validate a backup file. Throws BackupFormatError for
+ * malformed files and InvalidPassphraseError when decryption fails.
+ */
+export const readRegistryBackup = async (content: string, passphrase: string): Promise<UserFaceProfile[]> => {
+  let file: RegistryBackupFile;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new BackupFormatError('File is not valid JSON');
+  }
+
+  if (file?.format !== REGISTRY_BACKUP_FORMAT) throw new BackupFormatError('Not a registry backup file');
+  if (typeof file.version !== 'number' || file.version > REGISTRY_BACKUP_VERSION) {
+    throw new BackupFormatError(`Unsupported backup version ${file.version}`);
+  }
+  if (typeof file.kdf?.salt !== 'string' || !file.kdf.salt || !file.payload?.iv || !file.payload?.data) {
+    throw new BackupFormatError('Backup file is incomplete');
+  }
+
+  const { iterations } = file.kdf;
+  if (!Number.isInteger(iterations) || iterations < MIN_BACKUP_ITERATIONS || iterations > MAX_BACKUP_ITERATIONS) {
+    throw new BackupFormatError(`Unsupported key derivation iterations ${iterations}`);
+  }
+  let salt: Uint8Array;
+  try {
+    salt = fromBase64(file.kdf.salt);
+  } catch {
+    throw new BackupFormatError('Backup salt is not valid base64');
+  }
+
+  const key = await deriveKey(passphrase, salt, iterations);
+  let profiles: unknown;
+  try {
+    profiles = await unsealWith(key, file.payload);
+  } catch {
+    throw new InvalidPassphraseError();
+  }
+
+  if (!Array.isArray(profiles)) throw new BackupFormatError('Backup payload is not a profile list');
+  const invalid = profiles.filter(p => !isValidProfile(p)).length;
+  if (invalid > 0) throw new BackupFormatError(`${invalid} profile(s) in the backup are invalid`);
+  return profiles as UserFaceProfile[];
+};
+
+/**
+ * Combine the current registry with restored profiles. Merge keeps current
+ * profiles and overwrites those with the same id; replace discards them.
+ */
+export const planRestore = (current: UserFaceProfile[], restored: UserFaceProfile[], mode: RestoreMode) => {
+  const currentIds = new Set(current.map(p => p.id));
+  const added = restored.filter(p => !currentIds.has(p.id)).length;
+  const updated = restored.length - added;
+
+  const restoredIds = new Set(restored.map(p => p.id));
+  if (mode === 'replace') {
+    const removedIds = current.filter(p => !restoredIds.has(p.id)).map(p => p.id);
+    return { profiles: restored, added, updated, removed: removedIds.length, removedIds };
+  }
+  return {
+    profiles: [...current.filter(p => !restoredIds.has(p.id)), ...restored],
+    added,
+    updated,
+    removed: 0,
+    removedIds: [] as string[]
+  };
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceRecord, TimekeepingSettings, UserFaceProfile } from '../types';
+import { dailyHeadcount } from './reports';
+import { businessDate } from './timekeeping';
+
+const timekeeping: TimekeepingSettings = { timeZone: 'UTC', dayStartsAt: '04:00' };
+const at = (iso: string) => Date.parse(`${iso}Z`);
+
+const profile = (id: string, patch: Partial<UserFaceProfile> = {}): UserFaceProfile => ({
+  id, name: id, descriptor: [], capturedAt: at('2024-03-01T10:00'), ...patch
+});
+
+const clockIn = (profileId: string, iso: string): AttendanceRecord => ({
+  id: `${profileId}-${iso}`, profileId, name: profileId, timestamp: at(iso), businessDate: businessDate(at(iso), timekeeping), type: 'IN'
+});
+
+describe('dailyHeadcount', () => {
+  it('counts people from first enrollment until deactivation, present only while on the registry', () => {
+    const profiles = [
+      profile('alice', { enrolledAt: at('2024-03-01T10:00'), capturedAt: at('2024-03-04T10:00') }),
+      profile('bob', { active: false, deactivatedAt: at('2024-03-02T12:00') }),
+      profile('carol', { active: false }),
+      // Before the 04:00 day start, so enrolled on the 2nd
+      profile('dave', { capturedAt: at('2024-03-03T02:00') })
+    ];
+    const logs = [
+      clockIn('alice', '2024-03-02T09:00'),
+      clockIn('bob', '2024-03-02T09:00'),
+      clockIn('bob', '2024-03-03T09:00'),
+      clockIn('carol', '2024-03-03T09:00'),
+      clockIn('dave', '2024-03-03T09:00')
+    ];
+
+    expect(dailyHeadcount(logs, profiles, '2024-03-01', '2024-03-03', timekeeping)).toEqual([
+      { date: '2024-03-01', present: 0, registry: 2 },
+      { date: '2024-03-02', present: 2, registry: 3 },
+      { date: '2024-03-03', present: 1, registry: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+import { AttendanceRecord, ShiftSchedule, TimekeepingSettings, UserFaceProfile } from '../types';
+import { buildWorkSessions, getEventType, hasOwner, isRecordOf, recordOwner } from './attendance';
+import { isActiveProfile } from './profiles';
+import { classifyEvent } from './shifts';
+import { addDays, businessDate } from './timekeeping';
+
+/**
+ * Manager reports. Everything is derived from attendance records and profiles
+ * on the fly; nothing here is stored. Dates are business dates (YYYY-MM-DD).
+ */
+
+export interface ReportFilter {
+  from: string;
+  to: string;
+  profileId: string; // Empty for everyone
+}
+
+export interface HeadcountDay {
+  date: string;
+  present: number; // Distinct people on that day's registry with a clock-in that business day
+  registry: number; // People enrolled by the end of that day and not yet deactivated
+}
+
+export interface EmployeeMonthSummary {
+  profileId?: string; // Missing for records never linked to a profile
+  name: string;
+  month: string; // YYYY-MM
+  daysPresent: number;
+  lateCount: number;
+  earlyLeaveCount: number;
+  workedMs: number; // Completed sessions only
+}
+
+export type CalendarCellStatus = 'present' | 'late' | 'missing_out' | 'none';
+
+export interface CalendarCell {
+  date: string;
+  status: CalendarCellStatus;
+  workedMs: number;
+}
+
+export const datesInRange = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) dates.push(date);
+  return dates;
+};
+
+// Returns the current month so far, the default report range
+export const monthToDate = (today: string): { from: string; to: string } => ({
+  from: `${today.slice(0, 7)}-01`,
+  to: today
+});
+
+const clockIns = (logs: AttendanceRecord[]) => logs.filter(log => getEventType(log) === 'IN');
+
+export const dailyHeadcount = (
+  logs: AttendanceRecord[],
+  profiles: UserFaceProfile[],
+  from: string,
+  to: string,
+  timekeeping: TimekeepingSettings
+): HeadcountDay[] => {
+  const presentByDate = new Map<string, Set<string>>();
+  for (const log of clockIns(logs)) {
+    const owners = presentByDate.get(log.businessDate) ?? new Set<string>();
+    owners.add(recordOwner(log));
+    presentByDate.set(log.businessDate, owners);
+  }
+  const spans = profiles.flatMap(profile => {
+    const span = registrySpan(profile, timekeeping);
+    return span ? [{ profile, ...span }] : [];
+  });
+
+  return datesInRange(from, to).map(date => {
+    const onRegistry = spans.filter(span => span.from <= date && (span.until === undefined || date <= span.until));
+    const owners = presentByDate.get(date) ?? new Set<string>();
+    return {
+      date,
+      present: onRegistry.filter(({ profile }) => hasOwner(owners, profile)).length,
+      registry: onRegistry.length
+    };
+  });
+};
+
+/**
+ * Business dates a profile is counted on the registry: from its first
+ * enrollment until the day it was deactivated. Inactive profiles with no
+ * deactivation date are left out, since when they left is unknown.
+ */
+const registrySpan = (profile: UserFaceProfile, timekeeping: TimekeepingSettings): { from: string; until?: string } | null => {
+  const from = businessDate(profile.enrolledAt ?? profile.capturedAt, timekeeping);
+  if (isActiveProfile(profile)) return { from };
+  return profile.deactivatedAt === undefined ? null : { from, until: businessDate(profile.deactivatedAt, timekeeping) };
+};
+
+export const employeeMonthSummaries = (
+  logs: AttendanceRecord[],
+  profiles: UserFaceProfile[],
+  shifts: ShiftSchedule[],
+  timekeeping: TimekeepingSettings,
+  now: Date = new Date()
+): EmployeeMonthSummary[] => {
+  const profileById = new Map(profiles.map(p => [p.id, p]));
+  const shiftOf = (profileId?: string) => {
+    const shiftId = profileId ? profileById.get(profileId)?.shiftId : undefined;
+    return shiftId ? shifts.find(s => s.id === shiftId) : undefined;
+  };
+  const summaries = new Map<string, EmployeeMonthSummary & { dates: Set<string> }>();
+  const summaryFor = (record: { profileId?: string; name: string }, date: string) => {
+    const month = date.slice(0, 7);
+    const key = `${record.profileId ?? record.name}\u0000${month}`;
+    let summary = summaries.get(key);
+    if (!summary) {
+      // Current name for linked records, so renamed staff stay on one line
+      const name = (record.profileId && profileById.get(record.profileId)?.name) || record.name;
+      summary = { profileId: record.profileId, name, month, daysPresent: 0, lateCount: 0, earlyLeaveCount: 0, workedMs: 0, dates: new Set() };
+      summaries.set(key, summary);
+    }
+    return summary;
+  };
+
+  // Punctuality depends on the person's other records that day
+  const ownerDay = (log: AttendanceRecord) => `${recordOwner(log)}\u0000${log.businessDate}`;
+  const byOwnerDay = new Map<string, AttendanceRecord[]>();
+  for (const log of logs) byOwnerDay.set(ownerDay(log), [...(byOwnerDay.get(ownerDay(log)) ?? []), log]);
+
+  for (const log of logs) {
+    const summary = summaryFor(log, log.businessDate);
+    if (getEventType(log) === 'IN') summary.dates.add(log.businessDate);
+    const punctuality = classifyEvent(log, shiftOf(log.profileId), timekeeping, byOwnerDay.get(ownerDay(log))!);
+    if (punctuality?.status === 'late') summary.lateCount++;
+    if (punctuality?.status === 'early_leave') summary.earlyLeaveCount++;
+  }
+  for (const session of buildWorkSessions(logs, now, timekeeping)) {
+    if (session.status === 'closed') summaryFor(session, session.businessDate).workedMs += session.workedMs;
+  }
+
+  return [...summaries.values()]
+    .map(({ dates, ...summary }) => ({ ...summary, daysPresent: dates.size }))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.month.localeCompare(b.month));
+};
+
+/**
+ * One cell per business day for a person, for the calendar heatmap.
+ */
+export const attendanceCalendar = (
+  logs: AttendanceRecord[],
+  profile: UserFaceProfile,
+  from: string,
+  to: string,
+  shift: ShiftSchedule | undefined,
+  timekeeping: TimekeepingSettings,
+  now: Date = new Date()
+): CalendarCell[] => {
+  const own = logs.filter(log => isRecordOf(log, profile));
+  const sessions = buildWorkSessions(own, now, timekeeping);
+
+  return datesInRange(from, to).map(date => {
+    const daySessions = sessions.filter(s => s.businessDate === date);
+    const firstIn = own
+      .filter(log => log.businessDate === date && getEventType(log) === 'IN')
+      .sort((a, b) => a.timestamp - b.timestamp)[0];
+    const workedMs = daySessions.reduce((total, s) => total + s.workedMs, 0);
+
+    let status: CalendarCellStatus = 'none';
+    if (firstIn) {
+      status = classifyEvent(firstIn, shift, timekeeping, own)?.status === 'late' ? 'late' : 'present';
+      if (daySessions.some(s => s.status === 'missing_out')) status = 'missing_out';
+    }
+    return { date, status, workedMs };
+  });
+};
+
+export const notClockedIn = (profiles: UserFaceProfile[], logs: AttendanceRecord[], today: string): UserFaceProfile[] => {
+  const present = new Set(clockIns(logs).filter(log => log.businessDate === today).map(recordOwner));
+  return profiles
+    .filter(profile => isActiveProfile(profile) && !hasOwner(present, profile))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { AttendanceEventType, AttendanceRecord, ShiftSchedule, TimekeepingSettings } from '../types';
+import { DEFAULT_SHIFT, classifyEvent } from './shifts';
+
+const timekeeping: TimekeepingSettings = { timeZone: 'UTC', dayStartsAt: '04:00' };
+const shift: ShiftSchedule = { id: 'office', ...DEFAULT_SHIFT };
+
+const record = (type: AttendanceEventType, time: string, profileId = 'alice'): AttendanceRecord => ({
+  id: `${profileId}-${type}-${time}`,
+  profileId,
+  name: profileId,
+  timestamp: Date.parse(`2024-03-04T${time}Z`),
+  businessDate: '2024-03-04',
+  type
+});
+
+describe('classifyEvent', () => {
+  it('classifies only the first clock-in and the last clock-out of the day', () => {
+    const day = [
+      record('IN', '09:05'),
+      record('OUT', '12:00'),
+      record('IN', '13:30'),
+      record('OUT', '17:30'),
+      record('IN', '08:00', 'bob')
+    ];
+    const [firstIn, midDayOut, returnIn, lastOut] = day;
+
+    expect(classifyEvent(firstIn, shift, timekeeping, day)).toEqual({ status: 'on_time' });
+    expect(classifyEvent(midDayOut, shift, timekeeping, day)).toBeNull();
+    expect(classifyEvent(returnIn, shift, timekeeping, day)).toBeNull();
+    expect(classifyEvent(lastOut, shift, timekeeping, day)).toEqual({ status: 'early_leave', minutes: 30 });
+    // Judged against what is known so far, as at the kiosk
+    expect(classifyEvent(midDayOut, shift, timekeeping, day.slice(0, 2))).toEqual({ status: 'early_leave', minutes: 360 });
+  });
+});
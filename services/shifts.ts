@@ -0,0 +1,117 @@
+import { AttendanceRecord, Punctuality, ShiftSchedule, TimekeepingSettings, UserFaceProfile } from '../types';
+import { getEventType, hasOwner, recordOwner } from './attendance';
+import { isActiveProfile } from './profiles';
+import { addDays, minutesOfDay, parseDateKey, zonedTimeToTimestamp } from './timekeeping';
+
+/**
+ * Shift schedules and the lateness / early-leave / absence rules built on them.
+ * Events are classified against the shift of the business day they belong to,
+ * so a 22:00–06:00 night shift is one shift even though it crosses midnight.
+ */
+
+export const SHIFTS_SETTING = 'shifts';
+
+export const DEFAULT_SHIFT: Omit<ShiftSchedule, 'id'> = {
+  name: 'Office Hours',
+  start: '09:00',
+  end: '18:00',
+  graceMinutes: 10,
+  absentAfterMinutes: 120,
+  days: [1, 2, 3, 4, 5]
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MINUTE_MS = 60 * 1000;
+
+export const isWorkingDay = (shift: ShiftSchedule, date: string) => {
+  const { year, month, day } = parseDateKey(date);
+  return shift.days.includes(new Date(Date.UTC(year, month - 1, day)).getUTCDay());
+};
+
+/**
+ * Start and end instants of a shift on a business date. A start earlier than
+ * the business-day cutoff falls on the following calendar day.
+ */
+export const shiftWindow = (shift: ShiftSchedule, date: string, timekeeping: TimekeepingSettings) => {
+  const startDate = minutesOfDay(shift.start) < minutesOfDay(timekeeping.dayStartsAt) ? addDays(date, 1) : date;
+  const endDate = minutesOfDay(shift.end) <= minutesOfDay(shift.start) ? addDays(startDate, 1) : startDate;
+  return {
+    start: zonedTimeToTimestamp(startDate, shift.start, timekeeping.timeZone),
+    end: zonedTimeToTimestamp(endDate, shift.end, timekeeping.timeZone)
+  };
+};
+
+/**
+ * The first clock-in of the business day is on time or late, the last
+ * clock-out on time or early; a return from a mid-day OUT is neither. logs
+ * are the records to compare against, and may include other people and days.
+ * Breaks and events on days the shift does not run are not classified.
+ */
+export const classifyEvent = (
+  record: AttendanceRecord,
+  shift: ShiftSchedule | undefined,
+  timekeeping: TimekeepingSettings,
+  logs: AttendanceRecord[]
+): Punctuality | null => {
+  if (!shift || !isWorkingDay(shift, record.businessDate)) return null;
+  const { start, end } = shiftWindow(shift, record.businessDate, timekeeping);
+  const type = getEventType(record);
+  const sameDay = logs.filter(log => !log.deletedAt && log.id !== record.id && log.businessDate === record.businessDate
+    && recordOwner(log) === recordOwner(record) && getEventType(log) === type);
+
+  if (type === 'IN') {
+    if (sameDay.some(log => log.timestamp < record.timestamp)) return null;
+    const lateMinutes = Math.floor((record.timestamp - start) / MINUTE_MS);
+    return lateMinutes > shift.graceMinutes ? { status: 'late', minutes: lateMinutes } : { status: 'on_time' };
+  }
+  if (type === 'OUT') {
+    if (sameDay.some(log => log.timestamp > record.timestamp)) return null;
+    const earlyMinutes = Math.ceil((end - record.timestamp) / MINUTE_MS);
+    return earlyMinutes > 0 ? { status: 'early_leave', minutes: earlyMinutes } : { status: 'on_time' };
+  }
+  return null;
+};
+
+export const describePunctuality = (punctuality: Punctuality) => {
+  switch (punctuality.status) {
+    case 'on_time': return 'On Time';
+    case 'late': return `Late ${punctuality.minutes} min`;
+    case 'early_leave': return `Early Leave ${punctuality.minutes} min`;
+  }
+};
+
+export interface Absence {
+  profile: UserFaceProfile;
+  shift: ShiftSchedule;
+  shiftStart: number;
+}
+
+/**
+ * Scheduled staff with no clock-in on the business date once their shift's
+ * absence threshold has passed. Logs only need to cover that business date.
+ */
+export const findAbsences = (
+  profiles: UserFaceProfile[],
+  shifts: ShiftSchedule[],
+  logs: AttendanceRecord[],
+  date: string,
+  timekeeping: TimekeepingSettings,
+  now: number = Date.now()
+): Absence[] => {
+  const shiftsById = new Map(shifts.map(shift => [shift.id, shift]));
+  const present = new Set(
+    logs.filter(log => log.businessDate === date && getEventType(log) === 'IN').map(recordOwner)
+  );
+
+  const absences: Absence[] = [];
+  for (const profile of profiles) {
+    const shift = profile.shiftId ? shiftsById.get(profile.shiftId) : undefined;
+    if (!shift || !isActiveProfile(profile) || !isWorkingDay(shift, date) || hasOwner(present, profile)) continue;
+    const { start } = shiftWindow(shift, date, timekeeping);
+    if (now >= start + shift.absentAfterMinutes * MINUTE_MS) {
+      absences.push({ profile, shift, shiftStart: start });
+    }
+  }
+  return absences.sort((a, b) => a.shiftStart - b.shiftStart || a.profile.name.localeCompare(b.profile.name));
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { RecognitionSettings, UserFaceProfile } from '../types';
+import { DEFAULT_DEVICE_SETTINGS, isAllowedAtSite, knownSites, normalizeSiteId, recordOrigin, siteRecognitionSettings, siteTimekeeping, staffAllowedAt } from './sites';
+import { createManualRecord } from './corrections';
+import { toExportRows } from './attendanceExport';
+
+const TIMEKEEPING = { timeZone: 'Asia/Kuala_Lumpur', dayStartsAt: '04:00' };
+
+const profile = (patch: Partial<UserFaceProfile> = {}): UserFaceProfile => ({
+  id: 'id-alice',
+  name: 'alice',
+  descriptor: [],
+  capturedAt: 0,
+  ...patch
+});
+
+describe('sites', () => {
+  it('restricts staff to their sites only once both sides are set up', () => {
+    const everywhere = profile();
+    const hqOnly = profile({ siteIds: ['KL-HQ'] });
+    expect(isAllowedAtSite(everywhere, 'PG-01')).toBe(true);
+    expect(isAllowedAtSite(hqOnly, 'KL-HQ')).toBe(true);
+    expect(isAllowedAtSite(hqOnly, 'PG-01')).toBe(false);
+    expect(isAllowedAtSite(hqOnly, '')).toBe(true);
+    expect(staffAllowedAt([hqOnly, profile({ id: 'bob', active: false })], 'PG-01')).toEqual([]);
+    expect(normalizeSiteId(' kl hq ')).toBe('KL-HQ');
+  });
+
+  it('lists sites only known from profile restrictions by their code', () => {
+    const sites = knownSites([{ id: 'KL-HQ', name: 'Headquarters' }], [profile({ siteIds: ['PG-01', 'KL-HQ'] })]);
+    expect(sites).toEqual([{ id: 'KL-HQ', name: 'Headquarters' }, { id: 'PG-01', name: 'PG-01' }]);
+  });
+
+  it('reads the site timezone and threshold over the device settings', () => {
+    const site = { id: 'KL-HQ', name: 'Headquarters', timeZone: 'Asia/Kuala_Lumpur', matchThreshold: 0.4 };
+    expect(siteTimekeeping({ timeZone: 'UTC', dayStartsAt: '04:00' }, site)).toEqual(TIMEKEEPING);
+    expect(siteTimekeeping(TIMEKEEPING, undefined)).toBe(TIMEKEEPING);
+    expect(siteTimekeeping(TIMEKEEPING, { id: 'PG-01', name: 'Penang' })).toBe(TIMEKEEPING);
+    const device: RecognitionSettings = { matchThreshold: 0.5, minMargin: 0.05 };
+    expect(siteRecognitionSettings(device, site).matchThreshold).toBe(0.4);
+    expect(siteRecognitionSettings(device, undefined)).toBe(device);
+  });
+
+  it('stamps manual entries with the device and exports the site name', () => {
+    const origin = recordOrigin({ name: 'Front Door', siteId: 'KL-HQ' }, 'device-1');
+    expect(recordOrigin(DEFAULT_DEVICE_SETTINGS, undefined)).toEqual({});
+
+    const { record } = createManualRecord(profile(), 'IN', Date.parse('2024-06-03T01:00Z'), TIMEKEEPING, 'Admin PIN', 'Forgot to scan', Date.now(), origin);
+    expect(record).toMatchObject({ deviceId: 'device-1', siteId: 'KL-HQ', source: 'manual' });
+
+    const [row] = toExportRows([record], TIMEKEEPING, [], [{ id: 'KL-HQ', name: 'Headquarters' }]);
+    expect(row).toMatchObject({ siteId: 'KL-HQ', site: 'Headquarters', deviceId: 'device-1' });
+  });
+});
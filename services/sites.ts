@@ -0,0 +1,63 @@
+import { AttendanceRecord, RecognitionSettings, Site, TimekeepingSettings, UserFaceProfile } from '../types';
+import { isActiveProfile } from './profiles';
+
+/**
+ * Multi-site deployments. Each kiosk is set up for one site, identified by a
+ * short code shared by every device there. Sites are synced like profiles,
+ * and their timezone and threshold are read in place of the device's own.
+ * Records are stamped with the device and site that produced them, and staff
+ * can be limited to the sites they may clock in at.
+ */
+
+export const DEVICE_SETTING = 'device';
+
+export interface DeviceSettings {
+  name: string; // Label for this kiosk, e.g. Loading Bay Entrance
+  siteId: string; // Code of the site; empty until the device is set up
+}
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = { name: '', siteId: '' };
+
+export type RecordOrigin = Pick<AttendanceRecord, 'deviceId' | 'siteId'>;
+
+// Codes are compared exactly across devices, so they are stored in one form
+export const normalizeSiteId = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '-');
+
+export const isDeviceConfigured = (device: DeviceSettings) => device.siteId !== '';
+
+// Unrestricted staff may clock in anywhere, as may anyone at a device that is not set up yet
+export const isAllowedAtSite = (profile: UserFaceProfile, siteId: string) =>
+  !siteId || !profile.siteIds?.length || profile.siteIds.includes(siteId);
+
+export const recordOrigin = (device: DeviceSettings, deviceId: string | undefined): RecordOrigin => ({
+  ...(deviceId ? { deviceId } : {}),
+  ...(device.siteId ? { siteId: device.siteId } : {})
+});
+
+/**
+ * The saved sites plus any code a profile is restricted to. Restrictions
+ * arrive with the registry from other devices, whose sites may not have been
+ * added here.
+ */
+export const knownSites = (sites: Site[], profiles: UserFaceProfile[]): Site[] => {
+  const byId = new Map(sites.map(site => [site.id, site]));
+  for (const id of profiles.flatMap(p => p.siteIds ?? [])) {
+    if (!byId.has(id)) byId.set(id, { id, name: id });
+  }
+  return [...byId.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// The device's settings with whatever its site sets on top; a device with no site keeps its own
+export const siteTimekeeping = (timekeeping: TimekeepingSettings, site: Site | undefined): TimekeepingSettings =>
+  site?.timeZone ? { ...timekeeping, timeZone: site.timeZone } : timekeeping;
+
+export const siteRecognitionSettings = (settings: RecognitionSettings, site: Site | undefined): RecognitionSettings =>
+  site?.matchThreshold !== undefined ? { ...settings, matchThreshold: site.matchThreshold } : settings;
+
+export const siteName = (sites: Site[], siteId: string) => sites.find(site => site.id === siteId)?.name ?? siteId;
+
+// Replaces the site with the same code, or adds it
+export const upsertSite = (sites: Site[], site: Site): Site[] => [...sites.filter(s => s.id !== site.id), site];
+
+export const staffAllowedAt = (profiles: UserFaceProfile[], siteId: string) =>
+  profiles.filter(p => isActiveProfile(p) && isAllowedAtSite(p, siteId));
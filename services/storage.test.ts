@@ -0,0 +1,120 @@
+import 'fake-indexeddb/auto';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { AttendanceRecord, UserFaceProfile } from '../types';
+import { VaultChangedError, setActiveKey } from './vault';
+import { SYNC_CURSOR_SETTING, openRepositories } from './storage';
+
+const template = Array.from({ length: 128 }, (_, i) => i / 128);
+
+const record = (timestamp: number, profileId: string, patch: Partial<AttendanceRecord> = {}): AttendanceRecord => ({
+  id: `${profileId}-${timestamp}`, profileId, name: profileId.toUpperCase(), timestamp, businessDate: '2024-06-03', type: 'IN', ...patch
+});
+
+const profile = (id: string): UserFaceProfile => ({ id, name: id.toUpperCase(), descriptor: template, capturedAt: 0 });
+
+beforeAll(async () => {
+  // The one-off migration from localStorage runs on open; node has no localStorage
+  vi.stubGlobal('localStorage', { getItem: () => null, removeItem: () => undefined });
+  setActiveKey(await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']));
+});
+
+describe('profile repository', () => {
+  it('clears only this device and restarts the registry pull', async () => {
+    const repos = await openRepositories();
+    await repos.profiles.applyRemote([profile('alice'), profile('bob')], []);
+    await repos.settings.put(SYNC_CURSOR_SETTING, { endpoint: 'https://hq.example.com/api', cursor: '42' });
+
+    await repos.profiles.clear();
+
+    expect(await repos.profiles.getAll()).toEqual([]);
+    expect((await repos.outbox.getAll()).filter(entry => entry.operation.kind === 'profile_delete')).toEqual([]);
+    expect(await repos.settings.get(SYNC_CURSOR_SETTING)).toBeUndefined();
+  });
+
+  it('replaces the registry and queues the dropped profiles for deletion', async () => {
+    const repos = await openRepositories();
+    await repos.profiles.applyRemote([profile('carol'), profile('dave')], []);
+
+    await repos.profiles.replace([profile('erin')], ['dave']);
+
+    expect((await repos.profiles.getAll()).map(p => p.id).sort()).toEqual(['carol', 'erin']);
+    const queued = (await repos.outbox.getAll()).map(entry => entry.operation);
+    expect(queued).toContainEqual({ kind: 'profile_upsert', profileId: 'erin' });
+    expect(queued).toContainEqual({ kind: 'profile_delete', profileId: 'dave' });
+  });
+});
+
+describe('site repository', () => {
+  it('queues local site edits and keeps them over the server copy until sent', async () => {
+    const repos = await openRepositories();
+    await repos.sites.put({ id: 'KL-HQ', name: 'Headquarters', timeZone: 'Asia/Kuala_Lumpur' });
+    expect((await repos.outbox.getAll()).map(entry => entry.operation)).toContainEqual({ kind: 'site_upsert', siteId: 'KL-HQ' });
+
+    expect(await repos.sites.applyRemote([
+      { id: 'KL-HQ', name: 'Old Name' },
+      { id: 'PG-01', name: 'Penang', matchThreshold: 0.4 }
+    ])).toBe(true);
+    expect(await repos.sites.get('KL-HQ')).toEqual({ id: 'KL-HQ', name: 'Headquarters', timeZone: 'Asia/Kuala_Lumpur' });
+    expect(await repos.sites.get('PG-01')).toEqual({ id: 'PG-01', name: 'Penang', matchThreshold: 0.4 });
+    expect(await repos.sites.applyRemote([{ id: 'PG-01', name: 'Penang', matchThreshold: 0.4 }])).toBe(false);
+  });
+});
+
+describe('attendance repository', () => {
+  it('pages and counts live records by profile, site and time', async () => {
+    const repos = await openRepositories();
+    await repos.attendance.putMany([
+      record(0, 'alice'),
+      ...[1, 2, 3, 4, 5].map(t => record(t, 'alice', { siteId: 'KL-HQ', ...(t === 3 ? { deletedAt: 10 } : {}) })),
+      record(6, 'bob', { siteId: 'PG-01' }),
+      record(7, 'bob', { siteId: 'PG-01', deletedAt: 10 })
+    ]);
+    const timestamps = (page: { records: AttendanceRecord[] }) => page.records.map(r => r.timestamp);
+
+    const all = await repos.attendance.query({ limit: 2 });
+    expect(timestamps(all)).toEqual([6, 5]);
+    expect(all.total).toBe(6);
+    const site = await repos.attendance.query({ siteId: 'KL-HQ', offset: 1, limit: 2 });
+    expect(timestamps(site)).toEqual([4, 2]);
+    expect(site.total).toBe(4);
+    expect((await repos.attendance.query({ profileId: 'alice', siteId: 'KL-HQ', from: 2, to: 4 })).total).toBe(2);
+    expect(await repos.attendance.query({ limit: 0 })).toEqual({ records: [], total: 6 });
+
+    expect((await repos.attendance.latestFor('bob'))?.timestamp).toBe(6);
+    expect(await repos.attendance.latestFor('carol')).toBeUndefined();
+  });
+});
+
+describe('vault repository', () => {
+  it('abandons a rotation when a profile is written meanwhile', async () => {
+    const repos = await openRepositories();
+    await repos.vault.initialize('first passphrase');
+
+    const rotation = repos.vault.rotate('first passphrase', 'second passphrase');
+    await repos.profiles.put(profile('frank'));
+    await expect(rotation).rejects.toBeInstanceOf(VaultChangedError);
+    expect((await repos.profiles.get('frank'))?.descriptor).toEqual(template);
+
+    await repos.vault.rotate('first passphrase', 'second passphrase');
+    expect((await repos.profiles.get('frank'))?.descriptor).toEqual(template);
+  });
+});
+
+describe('database connection', () => {
+  it('steps aside when another tab upgrades the schema', async () => {
+    const repos = await openRepositories();
+    const open = (version?: number) => new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open('mysyarikat_attendance', version);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    const current = await open();
+    current.close();
+
+    const upgraded = await open(current.version + 1);
+    expect(upgraded.version).toBe(current.version + 1);
+    upgraded.close();
+    // This tab's connection was closed for the upgrade
+    await expect(repos.settings.get('anything')).rejects.toThrow();
+  });
+});
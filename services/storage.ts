@@ -0,0 +1,934 @@
+import { UserFaceProfile, AttendanceRecord, AttendanceAuditEntry, LivenessFailure, OutboxEntry, SyncOperation, WebhookDelivery, RecognitionAttempt, Site } from '../types';
+import { calendarDate } from './timekeeping';
+import {
+  SealedPayload, VaultMeta, seal, unseal, sealWith, unsealWith,
+  createVaultKey, verifyPassphrase, unlockVault, setActiveKey, VaultChangedError
+} from './vault';
+
+/**
+ * Repository layer over IndexedDB. The UI only talks to the interfaces below,
+ * never to IndexedDB or localStorage directly.
+ */
+
+const DB_NAME = 'mysyarikat_attendance';
+
+// Where the registry pull cursor is kept; cleared with the registry so the next pull starts over
+export const SYNC_CURSOR_SETTING = 'sync_cursor';
+
+// Keys used before the IndexedDB backend existed, migrated once on first open
+const LEGACY_KEYS = {
+  profiles: 'face_profiles',
+  attendance: 'attendance_logs',
+  livenessFailures: 'liveness_failures'
+} as const;
+
+// Attendance rows written before business dates existed carried locale date/time strings
+type LegacyAttendanceRecord = Omit<AttendanceRecord, 'businessDate'> & { businessDate?: string; date?: string; time?: string };
+
+/**
+ * Old rows were dated by the kiosk's local calendar day, which is exactly a
+ * midnight cutoff in the browser's timezone, so that is what they are given.
+ */
+const toCanonicalAttendance = ({ date, time, ...record }: LegacyAttendanceRecord): AttendanceRecord => ({
+  ...record,
+  businessDate: record.businessDate ?? calendarDate(record.timestamp, Intl.DateTimeFormat().resolvedOptions().timeZone)
+});
+
+const outboxKey = (operation: SyncOperation) => {
+  switch (operation.kind) {
+    case 'attendance': return `attendance:${operation.recordId}`;
+    case 'site_upsert': return `site:${operation.siteId}`;
+    default: return `profile:${operation.profileId}`;
+  }
+};
+
+const outboxEntry = (operation: SyncOperation): OutboxEntry => {
+  const now = Date.now();
+  return { id: outboxKey(operation), operation, enqueuedAt: now, attempts: 0, nextAttemptAt: now };
+};
+
+/**
+ * Records written before attendance referenced profiles only carry a name.
+ * They are linked wherever that name identifies exactly one profile.
+ */
+const profileLinker = (profiles: { id: string; name: string }[]) => {
+  const idsByName = new Map<string, string[]>();
+  profiles.forEach(({ id, name }) => idsByName.set(name, [...(idsByName.get(name) ?? []), id]));
+  return (record: AttendanceRecord): AttendanceRecord => {
+    const ids = idsByName.get(record.name);
+    return record.profileId || ids?.length !== 1 ? record : { ...record, profileId: ids[0] };
+  };
+};
+
+const queueExisting = (tx: IDBTransaction, store: 'attendance' | 'profiles', toOperation: (id: string) => SyncOperation) => {
+  const keysRequest = tx.objectStore(store).getAllKeys();
+  keysRequest.onsuccess = () => {
+    for (const key of keysRequest.result) tx.objectStore('outbox').put(outboxEntry(toOperation(key as string)));
+  };
+};
+
+// Attendance indexes a query can select by, with the fields they match ahead of the timestamp
+const ATTENDANCE_SELECTIONS: [string, string[]][] = [
+  ['timestamp', []],
+  ['name_timestamp', ['name']],
+  ['profileId_timestamp', ['profileId']],
+  ['siteId_timestamp', ['siteId']],
+  ['profileId_siteId_timestamp', ['profileId', 'siteId']]
+];
+
+/**
+ * Schema migrations, index N upgrades the database from version N to N + 1.
+ * Never edit a shipped migration; append a new one instead.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    const profiles = db.createObjectStore('profiles', { keyPath: 'id' });
+    profiles.createIndex('name', 'name');
+
+    const attendance = db.createObjectStore('attendance', { keyPath: 'id' });
+    attendance.createIndex('timestamp', 'timestamp');
+    attendance.createIndex('name_timestamp', ['name', 'timestamp']);
+
+    const failures = db.createObjectStore('liveness_failures', { keyPath: 'id' });
+    failures.createIndex('timestamp', 'timestamp');
+  },
+  (db) => {
+    db.createObjectStore('meta', { keyPath: 'key' });
+  },
+  (_db, tx) => {
+    const cursorRequest = tx.objectStore('attendance').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update(toCanonicalAttendance(cursor.value));
+      cursor.continue();
+    };
+  },
+  (db, tx) => {
+    const outbox = db.createObjectStore('outbox', { keyPath: 'id' });
+    outbox.createIndex('nextAttemptAt', 'nextAttemptAt');
+    // Everything recorded before sync existed still has to reach the server
+    queueExisting(tx, 'attendance', recordId => ({ kind: 'attendance', recordId }));
+    queueExisting(tx, 'profiles', profileId => ({ kind: 'profile_upsert', profileId }));
+  },
+  (db) => {
+    const deliveries = db.createObjectStore('webhook_deliveries', { keyPath: 'id' });
+    deliveries.createIndex('nextAttemptAt', 'nextAttemptAt');
+    deliveries.createIndex('createdAt', 'createdAt');
+  },
+  (_db, tx) => {
+    const attendance = tx.objectStore('attendance');
+    attendance.createIndex('profileId_timestamp', ['profileId', 'timestamp']);
+    const profilesRequest = tx.objectStore('profiles').getAll();
+    profilesRequest.onsuccess = () => {
+      const link = profileLinker(profilesRequest.result);
+      const cursorRequest = attendance.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const linked = link(cursor.value);
+        if (linked !== cursor.value) cursor.update(linked);
+        cursor.continue();
+      };
+    };
+  },
+  (db) => {
+    const attempts = db.createObjectStore('recognition_attempts', { keyPath: 'id' });
+    attempts.createIndex('timestamp', 'timestamp');
+  },
+  (db) => {
+    const audit = db.createObjectStore('attendance_audit', { keyPath: 'id' });
+    audit.createIndex('recordId', 'recordId');
+    audit.createIndex('at', 'at');
+  },
+  (_db, tx) => {
+    const attendance = tx.objectStore('attendance');
+    attendance.createIndex('siteId_timestamp', ['siteId', 'timestamp']);
+    attendance.createIndex('profileId_siteId_timestamp', ['profileId', 'siteId', 'timestamp']);
+    // Live records have no deletedAt, so these hold tombstones only; see tombstoneRange
+    for (const [index, fields] of ATTENDANCE_SELECTIONS) {
+      attendance.createIndex(`${index}_deleted`, [...fields, 'timestamp', 'deletedAt']);
+    }
+  },
+  (db, tx) => {
+    db.createObjectStore('sites', { keyPath: 'id' });
+    // Sites used to be a device setting; they are shared through sync from here on
+    const meta = tx.objectStore('meta');
+    const request = meta.get('setting:sites');
+    request.onsuccess = () => {
+      const sites: Site[] = request.result?.value ?? [];
+      for (const site of sites) {
+        tx.objectStore('sites').put(site);
+        tx.objectStore('outbox').put(outboxEntry({ kind: 'site_upsert', siteId: site.id }));
+      }
+      meta.delete('setting:sites');
+    };
+  }
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+type StoreName = 'profiles' | 'attendance' | 'attendance_audit' | 'liveness_failures' | 'meta' | 'outbox' | 'webhook_deliveries' | 'recognition_attempts' | 'sites';
+
+export interface EntityRepository<T extends { id: string }> {
+  getAll(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  put(entity: T): Promise<void>;
+  putMany(entities: T[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface AttendanceQuery {
+  profileId?: string; // Takes precedence over name
+  name?: string;
+  from?: number; // Inclusive epoch ms
+  to?: number; // Inclusive epoch ms
+  siteId?: string; // Combines with profileId; ignored with name
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * Writes through put, putMany and delete also queue the change for sync in
+ * the same transaction. clear only empties this device: the central registry
+ * keeps its profiles and the next pull brings them back.
+ */
+export interface ProfileRepository extends EntityRepository<UserFaceProfile> {
+  // Device-local bookkeeping, deliberately not synced
+  setLastClockIn(id: string, businessDate: string): Promise<void>;
+  // Writes the profiles and deletes the others in one transaction, queuing both for sync
+  replace(profiles: UserFaceProfile[], deletedIds: string[]): Promise<void>;
+  // Applies a registry pull without queuing it back; profiles with unsent local changes are left alone
+  applyRemote(profiles: UserFaceProfile[], deletedIds: string[]): Promise<void>;
+}
+
+/**
+ * New records are queued for sync in the same transaction as the write. get and
+ * getAll include tombstones; query leaves them out.
+ */
+export interface AttendanceRepository extends EntityRepository<AttendanceRecord> {
+  // Newest first, with the total number of matching records for paging
+  query(query: AttendanceQuery): Promise<{ records: AttendanceRecord[]; total: number }>;
+  // The profile's newest record, without counting anything; for the next-event check on every scan
+  latestFor(profileId: string): Promise<AttendanceRecord | undefined>;
+  // Writes the corrected records, their audit entries and the sync queue in one transaction
+  applyCorrections(changes: { record: AttendanceRecord; audit: AttendanceAuditEntry }[]): Promise<void>;
+  // Every record of the profile, tombstones included, oldest first
+  forProfile(profileId: string): Promise<AttendanceRecord[]>;
+  // Overwrites the records, queues them for sync and drops their audit entries, which hold copies; returns the entries dropped
+  redact(records: AttendanceRecord[]): Promise<number>;
+  /**
+   * Deletes records older than the cutoff along with their audit entries. With
+   * keepUnsent, records still waiting in the sync queue are left until sent;
+   * otherwise their queue entries go too.
+   */
+  purgeBefore(cutoff: number, keepUnsent: boolean): Promise<{ records: number; auditEntries: number }>;
+}
+
+// Append-only: entries are written by applyCorrections and never changed
+export interface AttendanceAuditRepository {
+  // Oldest first
+  forRecord(recordId: string): Promise<AttendanceAuditEntry[]>;
+  // Newest first
+  recent(limit: number): Promise<AttendanceAuditEntry[]>;
+}
+
+/**
+ * Attendance logs stay in plain form because the indexed queries need name and
+ * timestamp; only the biometric templates are sealed.
+ */
+export interface VaultRepository {
+  getMeta(): Promise<VaultMeta | undefined>;
+  // First-time setup: seals every existing profile under the new passphrase
+  initialize(passphrase: string): Promise<void>;
+  unlock(passphrase: string): Promise<void>;
+  // Re-encrypts every profile and recognition attempt; throws InvalidPassphraseError if current is wrong
+  rotate(currentPassphrase: string, nextPassphrase: string): Promise<void>;
+}
+
+export interface OutboxRepository {
+  getAll(): Promise<OutboxEntry[]>;
+  // Entries whose retry time has come, oldest first, excluding rejected ones
+  due(now: number, limit: number): Promise<OutboxEntry[]>;
+  // Removes sent entries unless they were queued again while in flight
+  complete(entries: OutboxEntry[]): Promise<void>;
+  // Counts an attempt; a null retryAt marks the entries as rejected
+  recordFailure(ids: string[], error: string, retryAt: number | null): Promise<void>;
+  retryRejected(now: number): Promise<void>;
+}
+
+export interface WebhookDeliveryRepository extends EntityRepository<WebhookDelivery> {
+  // Pending deliveries whose retry time has come, oldest first
+  due(now: number, limit: number): Promise<WebhookDelivery[]>;
+  // Newest first, for the delivery log
+  recent(limit: number): Promise<WebhookDelivery[]>;
+  // Drops the oldest finished deliveries beyond the given count
+  prune(keep: number): Promise<void>;
+}
+
+// Descriptor and snapshot are sealed like profile biometrics
+export interface RecognitionAttemptRepository extends EntityRepository<RecognitionAttempt> {
+  // Newest first, for the review screen
+  recent(limit: number): Promise<RecognitionAttempt[]>;
+  // Drops the oldest attempts beyond the given count
+  prune(keep: number): Promise<void>;
+  // Deletes attempts older than the cutoff; returns how many
+  deleteBefore(cutoff: number): Promise<number>;
+}
+
+// Shared by every device at a site; writes are queued for sync like profiles
+export interface SiteRepository {
+  getAll(): Promise<Site[]>;
+  get(id: string): Promise<Site | undefined>;
+  put(site: Site): Promise<void>;
+  // Applies the server's site list without queuing it back, leaving sites with unsent local changes; returns whether anything changed
+  applyRemote(sites: Site[]): Promise<boolean>;
+}
+
+// Small key/value settings kept alongside the vault metadata
+export interface SettingsRepository {
+  get<T>(key: string): Promise<T | undefined>;
+  put<T>(key: string, value: T): Promise<void>;
+}
+
+export interface Repositories {
+  profiles: ProfileRepository;
+  attendance: AttendanceRepository;
+  attendanceAudit: AttendanceAuditRepository;
+  outbox: OutboxRepository;
+  webhookDeliveries: WebhookDeliveryRepository;
+  livenessFailures: EntityRepository<LivenessFailure>;
+  recognitionAttempts: RecognitionAttemptRepository;
+  vault: VaultRepository;
+  sites: SiteRepository;
+  settings: SettingsRepository;
+}
+
+// Profiles as written to disk, with the templates and photo replaced by an encrypted payload
+type StoredProfile = Omit<UserFaceProfile, 'descriptor' | 'descriptors' | 'thumbnail'> & {
+  descriptor?: number[];
+  descriptors?: number[][];
+  thumbnail?: string;
+  sealed?: SealedPayload;
+};
+
+type ProfileBiometrics = Pick<UserFaceProfile, 'descriptor' | 'descriptors' | 'thumbnail'>;
+
+type StoredAttempt = Omit<RecognitionAttempt, 'descriptor' | 'snapshot'> & { sealed: SealedPayload };
+
+type AttemptBiometrics = Pick<RecognitionAttempt, 'descriptor' | 'snapshot'>;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, tx);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    // Older connections close themselves on versionchange, after which the upgrade goes ahead
+    request.onblocked = () => console.warn('Database upgrade waiting for another open tab to close its connection');
+  });
+
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const stores: [StoreName, string][] = [
+    ['profiles', LEGACY_KEYS.profiles],
+    ['attendance', LEGACY_KEYS.attendance],
+    ['liveness_failures', LEGACY_KEYS.livenessFailures]
+  ];
+  const pending = stores.filter(([, key]) => localStorage.getItem(key) !== null);
+  if (pending.length === 0) return;
+
+  const link = profileLinker(JSON.parse(localStorage.getItem(LEGACY_KEYS.profiles) || '[]'));
+  const tx = db.transaction([...pending.map(([store]) => store), 'outbox'], 'readwrite');
+  for (const [store, key] of pending) {
+    const items: { id: string }[] = JSON.parse(localStorage.getItem(key) || '[]');
+    items.forEach(item => tx.objectStore(store).put(
+      store === 'attendance' ? link(toCanonicalAttendance(item as LegacyAttendanceRecord)) : item
+    ));
+    if (store !== 'liveness_failures') {
+      items.forEach(({ id }) => tx.objectStore('outbox').put(outboxEntry(
+        store === 'attendance' ? { kind: 'attendance', recordId: id } : { kind: 'profile_upsert', profileId: id }
+      )));
+    }
+  }
+  await transactionDone(tx);
+
+  // Only drop the legacy keys once everything is committed
+  pending.forEach(([, key]) => localStorage.removeItem(key));
+};
+
+const createEntityRepository = <T extends { id: string }>(
+  db: IDBDatabase,
+  storeName: StoreName
+): EntityRepository<T> => {
+  const store = (mode: IDBTransactionMode) => db.transaction(storeName, mode).objectStore(storeName);
+
+  return {
+    getAll: () => promisify(store('readonly').getAll()),
+    get: (id) => promisify(store('readonly').get(id)),
+    put: async (entity) => {
+      await promisify(store('readwrite').put(entity));
+    },
+    putMany: async (entities) => {
+      const tx = db.transaction(storeName, 'readwrite');
+      entities.forEach(entity => tx.objectStore(storeName).put(entity));
+      await transactionDone(tx);
+    },
+    delete: async (id) => {
+      await promisify(store('readwrite').delete(id));
+    },
+    clear: async () => {
+      await promisify(store('readwrite').clear());
+    }
+  };
+};
+
+const sealProfile = async (profile: UserFaceProfile, key?: CryptoKey): Promise<StoredProfile> => {
+  const { descriptor, descriptors, thumbnail, ...rest } = profile;
+  const biometrics: ProfileBiometrics = { descriptor, descriptors, thumbnail };
+  return { ...rest, sealed: key ? await sealWith(key, biometrics) : await seal(biometrics) };
+};
+
+const openProfile = async (stored: StoredProfile, key?: CryptoKey): Promise<UserFaceProfile> => {
+  // Profiles written before the vault was set up are still plain
+  if (!stored.sealed) return stored as UserFaceProfile;
+  const { sealed, ...rest } = stored;
+  const biometrics = key
+    ? await unsealWith<ProfileBiometrics>(key, sealed)
+    : await unseal<ProfileBiometrics>(sealed);
+  return { ...rest, ...biometrics };
+};
+
+const sealAttempt = async (attempt: RecognitionAttempt, key?: CryptoKey): Promise<StoredAttempt> => {
+  const { descriptor, snapshot, ...rest } = attempt;
+  const biometrics: AttemptBiometrics = { descriptor, snapshot };
+  return { ...rest, sealed: key ? await sealWith(key, biometrics) : await seal(biometrics) };
+};
+
+const openAttempt = async ({ sealed, ...rest }: StoredAttempt, key?: CryptoKey): Promise<RecognitionAttempt> => ({
+  ...rest,
+  ...(key ? await unsealWith<AttemptBiometrics>(key, sealed) : await unseal<AttemptBiometrics>(sealed))
+});
+
+// Encryption is async, so everything is sealed before the write transaction opens
+const createProfileRepository = (db: IDBDatabase): ProfileRepository => {
+  const raw = createEntityRepository<StoredProfile & { id: string }>(db, 'profiles');
+
+  const write = async (sealed: StoredProfile[], deletedIds: string[], queue: boolean) => {
+    const tx = db.transaction(['profiles', 'outbox'], 'readwrite');
+    for (const profile of sealed) {
+      tx.objectStore('profiles').put(profile);
+      if (queue) tx.objectStore('outbox').put(outboxEntry({ kind: 'profile_upsert', profileId: profile.id }));
+    }
+    for (const id of deletedIds) {
+      tx.objectStore('profiles').delete(id);
+      if (queue) tx.objectStore('outbox').put(outboxEntry({ kind: 'profile_delete', profileId: id }));
+    }
+    await transactionDone(tx);
+  };
+
+  return {
+    getAll: async () => Promise.all((await raw.getAll()).map(stored => openProfile(stored))),
+    get: async (id) => {
+      const stored = await raw.get(id);
+      return stored ? openProfile(stored) : undefined;
+    },
+    put: async (profile) => write([await sealProfile(profile)], [], true),
+    putMany: async (profiles) => write(await Promise.all(profiles.map(p => sealProfile(p))), [], true),
+    delete: async (id) => write([], [id], true),
+    replace: async (profiles, deletedIds) => write(await Promise.all(profiles.map(p => sealProfile(p))), deletedIds, true),
+    clear: async () => {
+      const tx = db.transaction(['profiles', 'meta'], 'readwrite');
+      tx.objectStore('profiles').clear();
+      tx.objectStore('meta').delete(`setting:${SYNC_CURSOR_SETTING}`);
+      await transactionDone(tx);
+    },
+    setLastClockIn: async (id, businessDate) => {
+      const stored = await raw.get(id);
+      if (stored) await raw.put({ ...stored, lastClockIn: businessDate });
+    },
+    applyRemote: async (profiles, deletedIds) => {
+      const unsent = new Set(await promisify(db.transaction('outbox', 'readonly').objectStore('outbox').getAllKeys()));
+      const isLocal = (id: string) => unsent.has(`profile:${id}`);
+      const existing = new Map((await raw.getAll()).map(stored => [stored.id, stored]));
+      const sealed = await Promise.all(profiles.filter(p => !isLocal(p.id)).map(p => sealProfile({
+        ...p,
+        lastClockIn: existing.get(p.id)?.lastClockIn
+      })));
+      await write(sealed, deletedIds.filter(id => !isLocal(id)), false);
+    }
+  };
+};
+
+// Everything a vault rewrite re-seals, as stored
+interface VaultSnapshot {
+  profiles: StoredProfile[];
+  attempts: StoredAttempt[];
+  meta?: VaultMeta;
+}
+
+const readSnapshot = async (tx: IDBTransaction): Promise<VaultSnapshot> => {
+  const [profiles, attempts, meta] = await Promise.all([
+    promisify<StoredProfile[]>(tx.objectStore('profiles').getAll()),
+    promisify<StoredAttempt[]>(tx.objectStore('recognition_attempts').getAll()),
+    promisify<VaultMeta | undefined>(tx.objectStore('meta').get('vault'))
+  ]);
+  return { profiles, attempts, meta };
+};
+
+const createVaultRepository = (db: IDBDatabase): VaultRepository => {
+  const getMeta = (): Promise<VaultMeta | undefined> =>
+    promisify(db.transaction('meta', 'readonly').objectStore('meta').get('vault'));
+
+  /**
+   * Re-seals everything under the new key. Sealing is async, so the stores are
+   * read again inside the write transaction and the rewrite is abandoned if
+   * anything was written since the snapshot it started from.
+   */
+  const rewriteVault = async (snapshot: VaultSnapshot, profiles: UserFaceProfile[], attempts: RecognitionAttempt[], meta: VaultMeta, key: CryptoKey) => {
+    const sealed = await Promise.all(profiles.map(p => sealProfile(p, key)));
+    const sealedAttempts = await Promise.all(attempts.map(a => sealAttempt(a, key)));
+    const tx = db.transaction(['profiles', 'recognition_attempts', 'meta'], 'readwrite');
+    const done = transactionDone(tx);
+    const current = await readSnapshot(tx);
+    if (JSON.stringify(current) !== JSON.stringify(snapshot)) {
+      tx.abort();
+      await done.catch(() => undefined);
+      throw new VaultChangedError();
+    }
+    sealed.forEach(profile => tx.objectStore('profiles').put(profile));
+    sealedAttempts.forEach(attempt => tx.objectStore('recognition_attempts').put(attempt));
+    tx.objectStore('meta').put(meta);
+    await done;
+    setActiveKey(key);
+  };
+
+  return {
+    getMeta,
+    initialize: async (passphrase) => {
+      const snapshot = await readSnapshot(db.transaction(['profiles', 'recognition_attempts', 'meta'], 'readonly'));
+      if (snapshot.meta) throw new Error('Vault is already initialized');
+      const plain = await Promise.all(snapshot.profiles.map(stored => openProfile(stored)));
+      const { meta, key } = await createVaultKey(passphrase);
+      // Attempts are only logged with the vault open, so there are none to carry over
+      await rewriteVault(snapshot, plain, [], meta, key);
+    },
+    unlock: async (passphrase) => {
+      const meta = await getMeta();
+      if (!meta) throw new Error('Vault is not initialized');
+      await unlockVault(passphrase, meta);
+    },
+    rotate: async (currentPassphrase, nextPassphrase) => {
+      const snapshot = await readSnapshot(db.transaction(['profiles', 'recognition_attempts', 'meta'], 'readonly'));
+      if (!snapshot.meta) throw new Error('Vault is not initialized');
+      const currentKey = await verifyPassphrase(currentPassphrase, snapshot.meta);
+      const profiles = await Promise.all(snapshot.profiles.map(stored => openProfile(stored, currentKey)));
+      const attempts = await Promise.all(snapshot.attempts.map(stored => openAttempt(stored, currentKey)));
+      const next = await createVaultKey(nextPassphrase);
+      await rewriteVault(snapshot, profiles, attempts, next.meta, next.key);
+    }
+  };
+};
+
+const createSiteRepository = (db: IDBDatabase): SiteRepository => {
+  const raw = createEntityRepository<Site>(db, 'sites');
+
+  return {
+    getAll: raw.getAll,
+    get: raw.get,
+    put: async (site) => {
+      const tx = db.transaction(['sites', 'outbox'], 'readwrite');
+      tx.objectStore('sites').put(site);
+      tx.objectStore('outbox').put(outboxEntry({ kind: 'site_upsert', siteId: site.id }));
+      await transactionDone(tx);
+    },
+    applyRemote: async (sites) => {
+      const unsent = new Set(await promisify(db.transaction('outbox', 'readonly').objectStore('outbox').getAllKeys()));
+      const existing = new Map((await raw.getAll()).map(site => [site.id, site]));
+      const changed = sites.filter(site => !unsent.has(`site:${site.id}`) && JSON.stringify(existing.get(site.id)) !== JSON.stringify(site));
+      await raw.putMany(changed);
+      return changed.length > 0;
+    }
+  };
+};
+
+const createSettingsRepository = (db: IDBDatabase): SettingsRepository => ({
+  get: async <T>(key: string) => {
+    const entry: { key: string; value: T } | undefined =
+      await promisify(db.transaction('meta', 'readonly').objectStore('meta').get(`setting:${key}`));
+    return entry?.value;
+  },
+  put: async (key, value) => {
+    await promisify(db.transaction('meta', 'readwrite').objectStore('meta').put({ key: `setting:${key}`, value }));
+  }
+});
+
+// The index that matches every filter of the query, and the keys it is matched on
+const selectAttendance = ({ profileId, name, siteId }: AttendanceQuery): { index: string; keys: string[] } => {
+  if (profileId !== undefined) {
+    return siteId !== undefined
+      ? { index: 'profileId_siteId_timestamp', keys: [profileId, siteId] }
+      : { index: 'profileId_timestamp', keys: [profileId] };
+  }
+  if (name !== undefined) return { index: 'name_timestamp', keys: [name] };
+  if (siteId !== undefined) return { index: 'siteId_timestamp', keys: [siteId] };
+  return { index: 'timestamp', keys: [] };
+};
+
+const liveRange = (keys: string[], from: number, to: number) =>
+  keys.length > 0 ? IDBKeyRange.bound([...keys, from], [...keys, to]) : IDBKeyRange.bound(from, to);
+
+// Arrays sort after numbers, so [to, []] bounds every deletedAt at the last timestamp
+const tombstoneRange = (keys: string[], from: number, to: number) =>
+  IDBKeyRange.bound([...keys, from], [...keys, to, []]);
+
+// Newest first, skipping tombstones; stops as soon as the page is full
+const readPage = (index: IDBIndex, range: IDBKeyRange, offset: number, limit: number): Promise<AttendanceRecord[]> =>
+  new Promise((resolve, reject) => {
+    const records: AttendanceRecord[] = [];
+    if (limit <= 0) {
+      resolve(records);
+      return;
+    }
+    let skipped = 0;
+    const cursorRequest = index.openCursor(range, 'prev');
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve(records);
+        return;
+      }
+      const record: AttendanceRecord = cursor.value;
+      if (record.deletedAt === undefined) {
+        if (skipped < offset) {
+          skipped++;
+        } else {
+          records.push(record);
+          if (records.length >= limit) {
+            resolve(records);
+            return;
+          }
+        }
+      }
+      cursor.continue();
+    };
+  });
+
+const createAttendanceRepository = (db: IDBDatabase): AttendanceRepository => {
+  const putQueued = async (records: AttendanceRecord[]) => {
+    const tx = db.transaction(['attendance', 'outbox'], 'readwrite');
+    for (const record of records) {
+      tx.objectStore('attendance').put(record);
+      tx.objectStore('outbox').put(outboxEntry({ kind: 'attendance', recordId: record.id }));
+    }
+    await transactionDone(tx);
+  };
+
+  return {
+    ...createEntityRepository<AttendanceRecord>(db, 'attendance'),
+    put: (record) => putQueued([record]),
+    putMany: putQueued,
+    applyCorrections: async (changes) => {
+      const tx = db.transaction(['attendance', 'attendance_audit', 'outbox'], 'readwrite');
+      for (const { record, audit } of changes) {
+        tx.objectStore('attendance').put(record);
+        tx.objectStore('attendance_audit').add(audit);
+        tx.objectStore('outbox').put(outboxEntry({ kind: 'attendance', recordId: record.id }));
+      }
+      await transactionDone(tx);
+    },
+    forProfile: (profileId) => promisify(
+      db.transaction('attendance', 'readonly').objectStore('attendance').index('profileId_timestamp')
+        .getAll(IDBKeyRange.bound([profileId, 0], [profileId, Number.MAX_SAFE_INTEGER]))
+    ),
+    redact: async (records) => {
+      const tx = db.transaction(['attendance', 'attendance_audit', 'outbox'], 'readwrite');
+      const audit = tx.objectStore('attendance_audit');
+      let dropped = 0;
+      for (const record of records) {
+        tx.objectStore('attendance').put(record);
+        tx.objectStore('outbox').put(outboxEntry({ kind: 'attendance', recordId: record.id }));
+        const keys = audit.index('recordId').getAllKeys(record.id);
+        keys.onsuccess = () => keys.result.forEach(key => {
+          audit.delete(key);
+          dropped++;
+        });
+      }
+      await transactionDone(tx);
+      return dropped;
+    },
+    purgeBefore: async (cutoff, keepUnsent) => {
+      const tx = db.transaction(['attendance', 'attendance_audit', 'outbox'], 'readwrite');
+      const audit = tx.objectStore('attendance_audit');
+      const outbox = tx.objectStore('outbox');
+      const counts = { records: 0, auditEntries: 0 };
+      const queued = outbox.getAllKeys();
+      queued.onsuccess = () => {
+        const unsent = new Set(queued.result);
+        const cursorRequest = tx.objectStore('attendance').index('timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const id: string = cursor.value.id;
+          const queueKey = `attendance:${id}`;
+          if (!(keepUnsent && unsent.has(queueKey))) {
+            cursor.delete();
+            if (unsent.has(queueKey)) outbox.delete(queueKey);
+            counts.records++;
+            const keys = audit.index('recordId').getAllKeys(id);
+            keys.onsuccess = () => keys.result.forEach(key => {
+              audit.delete(key);
+              counts.auditEntries++;
+            });
+          }
+          cursor.continue();
+        };
+      };
+      await transactionDone(tx);
+      return counts;
+    },
+
+    query: async ({ from = 0, to = Number.MAX_SAFE_INTEGER, offset = 0, limit = Infinity, ...filter }) => {
+      const store = db.transaction('attendance', 'readonly').objectStore('attendance');
+      const { index, keys } = selectAttendance(filter);
+      // Live records are everything in range less the tombstones, both counted from indexes
+      const [records, all, tombstones] = await Promise.all([
+        readPage(store.index(index), liveRange(keys, from, to), offset, limit),
+        promisify(store.index(index).count(liveRange(keys, from, to))),
+        promisify(store.index(`${index}_deleted`).count(tombstoneRange(keys, from, to)))
+      ]);
+      return { records, total: all - tombstones };
+    },
+    latestFor: async (profileId) => {
+      const index = db.transaction('attendance', 'readonly').objectStore('attendance').index('profileId_timestamp');
+      const [latest] = await readPage(index, liveRange([profileId], 0, Number.MAX_SAFE_INTEGER), 0, 1);
+      return latest;
+    }
+  };
+};
+
+const createAttendanceAuditRepository = (db: IDBDatabase): AttendanceAuditRepository => {
+  const store = () => db.transaction('attendance_audit', 'readonly').objectStore('attendance_audit');
+
+  return {
+    forRecord: async (recordId) => {
+      const entries: AttendanceAuditEntry[] = await promisify(store().index('recordId').getAll(recordId));
+      return entries.sort((a, b) => a.at - b.at);
+    },
+    recent: (limit) => new Promise((resolve, reject) => {
+      const entries: AttendanceAuditEntry[] = [];
+      const request = store().index('at').openCursor(null, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && entries.length < limit) {
+          entries.push(cursor.value);
+          cursor.continue();
+        } else {
+          resolve(entries);
+        }
+      };
+    })
+  };
+};
+
+const createOutboxRepository = (db: IDBDatabase): OutboxRepository => {
+  const store = (mode: IDBTransactionMode) => db.transaction('outbox', mode).objectStore('outbox');
+
+  // Read-modify-write inside one transaction so a concurrent enqueue is never overwritten
+  const updateEach = async (ids: string[], update: (entry: OutboxEntry) => OutboxEntry) => {
+    const tx = db.transaction('outbox', 'readwrite');
+    const outbox = tx.objectStore('outbox');
+    for (const id of ids) {
+      const request = outbox.get(id);
+      request.onsuccess = () => {
+        if (request.result) outbox.put(update(request.result));
+      };
+    }
+    await transactionDone(tx);
+  };
+
+  return {
+    getAll: () => promisify(store('readonly').getAll()),
+    due: async (now, limit) => {
+      const ready: OutboxEntry[] = await promisify(store('readonly').index('nextAttemptAt').getAll(IDBKeyRange.upperBound(now)));
+      return ready
+        .filter(entry => !entry.rejected)
+        .sort((a, b) => a.enqueuedAt - b.enqueuedAt)
+        .slice(0, limit);
+    },
+    complete: async (entries) => {
+      const tx = db.transaction('outbox', 'readwrite');
+      const outbox = tx.objectStore('outbox');
+      for (const sent of entries) {
+        const request = outbox.get(sent.id);
+        request.onsuccess = () => {
+          if (request.result?.enqueuedAt === sent.enqueuedAt) outbox.delete(sent.id);
+        };
+      }
+      await transactionDone(tx);
+    },
+    recordFailure: (ids, error, retryAt) => updateEach(ids, entry => ({
+      ...entry,
+      attempts: entry.attempts + 1,
+      lastError: error,
+      nextAttemptAt: retryAt ?? entry.nextAttemptAt,
+      rejected: retryAt === null
+    })),
+    retryRejected: async (now) => {
+      const rejected = (await promisify<OutboxEntry[]>(store('readonly').getAll())).filter(entry => entry.rejected);
+      await updateEach(rejected.map(entry => entry.id), entry => ({ ...entry, rejected: false, nextAttemptAt: now }));
+    }
+  };
+};
+
+const createWebhookDeliveryRepository = (db: IDBDatabase): WebhookDeliveryRepository => {
+  const byCreated = (direction: IDBCursorDirection, visit: (cursor: IDBCursorWithValue) => boolean, mode: IDBTransactionMode = 'readonly') =>
+    new Promise<void>((resolve, reject) => {
+      const request = db.transaction('webhook_deliveries', mode).objectStore('webhook_deliveries').index('createdAt').openCursor(null, direction);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && visit(cursor)) cursor.continue();
+        else resolve();
+      };
+    });
+
+  return {
+    ...createEntityRepository<WebhookDelivery>(db, 'webhook_deliveries'),
+    due: async (now, limit) => {
+      const ready: WebhookDelivery[] = await promisify(
+        db.transaction('webhook_deliveries', 'readonly').objectStore('webhook_deliveries').index('nextAttemptAt').getAll(IDBKeyRange.upperBound(now))
+      );
+      return ready
+        .filter(delivery => delivery.status === 'pending')
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .slice(0, limit);
+    },
+    recent: async (limit) => {
+      const deliveries: WebhookDelivery[] = [];
+      await byCreated('prev', cursor => {
+        deliveries.push(cursor.value);
+        return deliveries.length < limit;
+      });
+      return deliveries;
+    },
+    prune: async (keep) => {
+      let finished = 0;
+      await byCreated('prev', cursor => {
+        if (cursor.value.status !== 'pending' && ++finished > keep) cursor.delete();
+        return true;
+      }, 'readwrite');
+    }
+  };
+};
+
+const createRecognitionAttemptRepository = (db: IDBDatabase): RecognitionAttemptRepository => {
+  const raw = createEntityRepository<StoredAttempt>(db, 'recognition_attempts');
+
+  return {
+    getAll: async () => Promise.all((await raw.getAll()).map(stored => openAttempt(stored))),
+    get: async (id) => {
+      const stored = await raw.get(id);
+      return stored ? openAttempt(stored) : undefined;
+    },
+    put: async (attempt) => raw.put(await sealAttempt(attempt)),
+    putMany: async (attempts) => raw.putMany(await Promise.all(attempts.map(a => sealAttempt(a)))),
+    delete: raw.delete,
+    clear: raw.clear,
+    recent: async (limit) => {
+      const stored: StoredAttempt[] = [];
+      await new Promise<void>((resolve, reject) => {
+        const request = db.transaction('recognition_attempts', 'readonly').objectStore('recognition_attempts').index('timestamp').openCursor(null, 'prev');
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor && stored.length < limit) {
+            stored.push(cursor.value);
+            cursor.continue();
+          } else {
+            resolve();
+          }
+        };
+      });
+      return Promise.all(stored.map(attempt => openAttempt(attempt)));
+    },
+    prune: async (keep) => {
+      const tx = db.transaction('recognition_attempts', 'readwrite');
+      const request = tx.objectStore('recognition_attempts').index('timestamp').openCursor(null, 'prev');
+      let seen = 0;
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (++seen > keep) cursor.delete();
+        cursor.continue();
+      };
+      await transactionDone(tx);
+    },
+    deleteBefore: async (cutoff) => {
+      const tx = db.transaction('recognition_attempts', 'readwrite');
+      const request = tx.objectStore('recognition_attempts').index('timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+      let deleted = 0;
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        deleted++;
+        cursor.continue();
+      };
+      await transactionDone(tx);
+      return deleted;
+    }
+  };
+};
+
+let repositories: Promise<Repositories> | null = null;
+
+export const openRepositories = (): Promise<Repositories> => {
+  if (!repositories) {
+    repositories = (async () => {
+      const db = await openDatabase();
+      // Another tab or a newer build is upgrading the schema; step aside and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        repositories = null;
+      };
+      await migrateFromLocalStorage(db);
+      return {
+        profiles: createProfileRepository(db),
+        attendance: createAttendanceRepository(db),
+        attendanceAudit: createAttendanceAuditRepository(db),
+        outbox: createOutboxRepository(db),
+        webhookDeliveries: createWebhookDeliveryRepository(db),
+        livenessFailures: createEntityRepository<LivenessFailure>(db, 'liveness_failures'),
+        recognitionAttempts: createRecognitionAttemptRepository(db),
+        vault: createVaultRepository(db),
+        sites: createSiteRepository(db),
+        settings: createSettingsRepository(db)
+      };
+    })();
+    // Allow a retry if opening failed
+    repositories.catch(() => { repositories = null; });
+  }
+  return repositories;
+};
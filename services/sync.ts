@@ -0,0 +1,240 @@
+import { OutboxEntry, Site, SyncSettings, SyncStatus, UserFaceProfile } from '../types';
+import { Repositories, SYNC_CURSOR_SETTING } from './storage';
+
+/**
+ * Sync with the central attendance API described in docs/sync-api.md.
+ * Local writes queue outbox entries (see services/storage.ts); a sync pass
+ * pushes whatever is due and then pulls the registry. Recording attendance
+ * never waits on the network.
+ */
+
+export const SYNC_SETTINGS_KEY = 'sync';
+
+export const SYNC_INTERVAL_MS = 30 * 1000;
+const PUSH_BATCH_SIZE = 50;
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+const RETRY_BASE_MS = 5 * 1000;
+const RETRY_MAX_MS = 15 * 60 * 1000;
+
+// The registry as exchanged with the server; the last clock-in stays on the device
+export type RemoteProfile = Omit<UserFaceProfile, 'lastClockIn'>;
+
+export interface AttendancePushResponse {
+  accepted: string[];
+  rejected: { id: string; reason: string }[];
+}
+
+export interface RegistryPullResponse {
+  profiles: RemoteProfile[];
+  deleted: string[];
+  cursor: string;
+}
+
+export interface SitesPullResponse {
+  sites: Site[];
+}
+
+// The pull cursor only makes sense for the server that issued it
+interface StoredCursor {
+  endpoint: string;
+  cursor: string;
+}
+
+export interface SyncPassResult {
+  registryChanged: boolean;
+  sitesChanged: boolean;
+  error?: string;
+}
+
+export class SyncHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'SyncHttpError';
+  }
+}
+
+export const createSyncSettings = (): SyncSettings => ({
+  enabled: false,
+  endpoint: '',
+  token: '',
+  deviceId: crypto.randomUUID()
+});
+
+export const isValidEndpoint = (endpoint: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(endpoint).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Exponential backoff with jitter, so kiosks coming back online do not retry in lockstep
+export const retryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_MS * 2 ** attempts, RETRY_MAX_MS) * (0.5 + Math.random() / 2);
+
+// Timeouts, rate limiting and server errors are worth retrying; any other refusal is final
+export const isRetryableStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+// Network errors never reached the server, so they are always retried
+const isTransient = (err: unknown) => !(err instanceof SyncHttpError) || isRetryableStatus(err.status);
+
+const errorMessage = (err: unknown) => err instanceof Error ? err.message : String(err);
+
+const request = async <T>(settings: SyncSettings, method: string, path: string, body?: unknown): Promise<T | undefined> => {
+  const headers: Record<string, string> = { 'X-Device-Id': settings.deviceId };
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  if (settings.token) headers['Authorization'] = `Bearer ${settings.token}`;
+
+  const response = await fetch(`${settings.endpoint.replace(/\/+$/, '')}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new SyncHttpError(response.status, `HTTP ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+  return response.status === 204 ? undefined : response.json();
+};
+
+const toRemoteProfile = ({ lastClockIn, ...profile }: UserFaceProfile): RemoteProfile => profile;
+
+const fail = async (repos: Repositories, entries: OutboxEntry[], err: unknown) => {
+  const message = errorMessage(err);
+  if (!isTransient(err)) {
+    await repos.outbox.recordFailure(entries.map(e => e.id), message, null);
+    return;
+  }
+  const now = Date.now();
+  await Promise.all(entries.map(entry =>
+    repos.outbox.recordFailure([entry.id], message, now + retryDelay(entry.attempts))
+  ));
+};
+
+const pushAttendance = async (repos: Repositories, settings: SyncSettings, entries: OutboxEntry[]) => {
+  const loaded = await Promise.all(entries.map(async entry => ({
+    entry,
+    record: entry.operation.kind === 'attendance' ? await repos.attendance.get(entry.operation.recordId) : undefined
+  })));
+  // Deleted locally before it could be sent
+  await repos.outbox.complete(loaded.filter(item => !item.record).map(item => item.entry));
+  const sendable = loaded.filter(item => item.record);
+  if (sendable.length === 0) return;
+
+  const response = await request<AttendancePushResponse>(settings, 'POST', '/attendance', {
+    deviceId: settings.deviceId,
+    records: sendable.map(item => item.record)
+  });
+  const entryByRecord = new Map(sendable.map(item => [item.record!.id, item.entry]));
+  const accepted = (response?.accepted ?? []).filter(id => entryByRecord.has(id));
+  const rejected = (response?.rejected ?? []).filter(r => entryByRecord.has(r.id));
+
+  await repos.outbox.complete(accepted.map(id => entryByRecord.get(id)!));
+  for (const { id, reason } of rejected) {
+    await repos.outbox.recordFailure([entryByRecord.get(id)!.id], reason, null);
+  }
+  // Anything the server did not answer for is tried again later
+  const answered = new Set([...accepted, ...rejected.map(r => r.id)]);
+  const unanswered = [...entryByRecord].filter(([id]) => !answered.has(id)).map(([, entry]) => entry);
+  if (unanswered.length > 0) await fail(repos, unanswered, new Error('No result from server'));
+};
+
+const pushRegistryChange = async (repos: Repositories, settings: SyncSettings, entry: OutboxEntry) => {
+  const { operation } = entry;
+  if (operation.kind === 'site_upsert') {
+    const site = await repos.sites.get(operation.siteId);
+    if (site) await request(settings, 'PUT', `/sites/${encodeURIComponent(site.id)}`, site);
+  } else if (operation.kind === 'profile_upsert') {
+    const profile = await repos.profiles.get(operation.profileId);
+    if (profile) {
+      await request(settings, 'PUT', `/profiles/${encodeURIComponent(profile.id)}`, toRemoteProfile(profile));
+    }
+  } else if (operation.kind === 'profile_delete') {
+    try {
+      await request(settings, 'DELETE', `/profiles/${encodeURIComponent(operation.profileId)}`);
+    } catch (err) {
+      // Already gone on the server
+      if (!(err instanceof SyncHttpError && err.status === 404)) throw err;
+    }
+  }
+  await repos.outbox.complete([entry]);
+};
+
+/**
+ * Pushes due outbox entries until none are left or the server stops answering.
+ * Returns the first transient error, if any.
+ */
+const pushOutbox = async (repos: Repositories, settings: SyncSettings): Promise<unknown> => {
+  for (;;) {
+    const due = await repos.outbox.due(Date.now(), PUSH_BATCH_SIZE);
+    if (due.length === 0) return undefined;
+
+    // Registry and site changes go first so the server knows everyone referenced by the attendance
+    for (const entry of due.filter(e => e.operation.kind !== 'attendance')) {
+      try {
+        await pushRegistryChange(repos, settings, entry);
+      } catch (err) {
+        await fail(repos, [entry], err);
+        if (isTransient(err)) return err;
+      }
+    }
+
+    const attendance = due.filter(e => e.operation.kind === 'attendance');
+    if (attendance.length > 0) {
+      try {
+        await pushAttendance(repos, settings, attendance);
+      } catch (err) {
+        await fail(repos, attendance, err);
+        if (isTransient(err)) return err;
+      }
+    }
+  }
+};
+
+const pullRegistry = async (repos: Repositories, settings: SyncSettings): Promise<boolean> => {
+  const stored = await repos.settings.get<StoredCursor>(SYNC_CURSOR_SETTING);
+  const since = stored?.endpoint === settings.endpoint ? stored.cursor : '';
+  const response = await request<RegistryPullResponse>(
+    settings, 'GET', `/profiles${since ? `?since=${encodeURIComponent(since)}` : ''}`
+  );
+  if (!response) return false;
+
+  await repos.profiles.applyRemote(response.profiles, response.deleted);
+  await repos.settings.put<StoredCursor>(SYNC_CURSOR_SETTING, { endpoint: settings.endpoint, cursor: response.cursor });
+  return response.profiles.length > 0 || response.deleted.length > 0;
+};
+
+// Sites are few, so the whole list comes down every pass
+const pullSites = async (repos: Repositories, settings: SyncSettings): Promise<boolean> => {
+  const response = await request<SitesPullResponse>(settings, 'GET', '/sites');
+  return response ? repos.sites.applyRemote(response.sites) : false;
+};
+
+const runPass = async (repos: Repositories, settings: SyncSettings): Promise<SyncPassResult> => {
+  const pushError = await pushOutbox(repos, settings);
+  if (pushError) return { registryChanged: false, sitesChanged: false, error: errorMessage(pushError) };
+  let registryChanged = false;
+  try {
+    registryChanged = await pullRegistry(repos, settings);
+    return { registryChanged, sitesChanged: await pullSites(repos, settings) };
+  } catch (err) {
+    return { registryChanged, sitesChanged: false, error: errorMessage(err) };
+  }
+};
+
+let inFlight: Promise<SyncPassResult> | null = null;
+
+// One pass at a time; a request while one is running shares its result
+export const syncNow = (repos: Repositories, settings: SyncSettings): Promise<SyncPassResult> => {
+  if (!inFlight) {
+    inFlight = runPass(repos, settings).finally(() => { inFlight = null; });
+  }
+  return inFlight;
+};
+
+export const getOutboxCounts = async (repos: Repositories): Promise<Pick<SyncStatus, 'pending' | 'rejected'>> => {
+  const entries = await repos.outbox.getAll();
+  const rejected = entries.filter(entry => entry.rejected).length;
+  return { pending: entries.length - rejected, rejected };
+};
@@ -0,0 +1,144 @@
+import { TimekeepingSettings } from '../types';
+
+/**
+ * Site time. Every record is stored as an epoch timestamp plus the business
+ * date it counts towards; dates and times shown to people are rendered in the
+ * configured site timezone, never the kiosk's own clock or UTC.
+ *
+ * A business day starts at `dayStartsAt` (HH:MM, site time), so with a 06:00
+ * cutoff a night shift clocking out at 03:00 still belongs to the previous day.
+ * Business dates are plain YYYY-MM-DD strings and compare lexically.
+ */
+
+export const TIMEKEEPING_SETTINGS_KEY = 'timekeeping';
+
+export const DEFAULT_TIMEKEEPING_SETTINGS: TimekeepingSettings = {
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  dayStartsAt: '00:00'
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const isValidTimeOfDay = (value: string) => TIME_PATTERN.test(value);
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// "HH:MM" to minutes after midnight
+export const minutesOfDay = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Wall-clock fields of an instant in the given timezone.
+ */
+export const zonedParts = (timestamp: number, timeZone: string): ZonedParts => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric',
+      hour: 'numeric', minute: 'numeric', second: 'numeric'
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  const fields: Record<string, number> = {};
+  for (const part of formatter.formatToParts(timestamp)) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  }
+  return {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    second: fields.second
+  };
+};
+
+const toDateKey = (year: number, month: number, day: number) => {
+  // Normalises overflowing days, e.g. day 0 becomes the last day of the previous month
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+export const parseDateKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return { year, month, day };
+};
+
+export const addDays = (dateKey: string, days: number) => {
+  const { year, month, day } = parseDateKey(dateKey);
+  return toDateKey(year, month, day + days);
+};
+
+// Calendar date of an instant in a timezone, ignoring the business-day cutoff
+export const calendarDate = (timestamp: number, timeZone: string) => {
+  const { year, month, day } = zonedParts(timestamp, timeZone);
+  return toDateKey(year, month, day);
+};
+
+export const businessDate = (timestamp: number, settings: TimekeepingSettings) => {
+  const { year, month, day, hour, minute } = zonedParts(timestamp, settings.timeZone);
+  const beforeCutoff = hour * 60 + minute < minutesOfDay(settings.dayStartsAt);
+  return toDateKey(year, month, beforeCutoff ? day - 1 : day);
+};
+
+/**
+ * Epoch ms of a wall-clock time in the given timezone. Corrects once for the
+ * offset at the result so DST transitions land on the right side.
+ */
+export const zonedTimeToTimestamp = (dateKey: string, time: string, timeZone: string) => {
+  const { year, month, day } = parseDateKey(dateKey);
+  const minutes = minutesOfDay(time);
+  const wallClock = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  const offsetAt = (timestamp: number) => {
+    const p = zonedParts(timestamp, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(timestamp / 1000) * 1000;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  return wallClock - offsetAt(guess);
+};
+
+/**
+ * Inclusive epoch range covered by a run of business dates.
+ */
+export const businessDayRange = (fromDate: string, toDate: string, settings: TimekeepingSettings) => ({
+  start: zonedTimeToTimestamp(fromDate, settings.dayStartsAt, settings.timeZone),
+  end: zonedTimeToTimestamp(addDays(toDate, 1), settings.dayStartsAt, settings.timeZone) - 1
+});
+
+export const formatTime = (timestamp: number, settings: TimekeepingSettings) => {
+  const { hour, minute } = zonedParts(timestamp, settings.timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+// Business dates render in the viewer's locale; UTC avoids shifting the calendar day
+export const formatBusinessDate = (dateKey: string) => {
+  const { year, month, day } = parseDateKey(dateKey);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString([], { timeZone: 'UTC' });
+};
+
+export const formatDateTime = (timestamp: number, settings: TimekeepingSettings) =>
+  `${formatBusinessDate(calendarDate(timestamp, settings.timeZone))} ${formatTime(timestamp, settings)}`;
@@ -0,0 +1,128 @@
+/**
+ * Biometric vault: AES-GCM encryption of face descriptors with a key derived
+ * from the admin passphrase (PBKDF2). The derived key only ever lives in memory
+ * for the current session; only the salt and a check value are persisted.
+ */
+
+const PBKDF2_ITERATIONS = 310000;
+// Encrypted with the derived key so a wrong passphrase can be detected on unlock
+const CHECK_PLAINTEXT = 'mysyarikat-vault-check';
+
+export interface SealedPayload {
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext
+}
+
+export interface VaultMeta {
+  key: 'vault';
+  salt: string; // base64
+  iterations: number;
+  check: SealedPayload;
+  rotatedAt: number;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('Biometric vault is locked');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export class InvalidPassphraseError extends Error {
+  constructor() {
+    super('Incorrect vault passphrase');
+    this.name = 'InvalidPassphraseError';
+  }
+}
+
+export class VaultChangedError extends Error {
+  constructor() {
+    super('Vault contents changed during re-encryption');
+    this.name = 'VaultChangedError';
+  }
+}
+
+let activeKey: CryptoKey | null = null;
+
+export const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''));
+export const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+export const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const sealWith = async (key: CryptoKey, value: unknown): Promise<SealedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+export const unsealWith = async <T>(key: CryptoKey, payload: SealedPayload): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.data)
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+};
+
+/**
+ * Derive a fresh key for a passphrase. Returns the metadata to persist and the key.
+ */
+export const createVaultKey = async (passphrase: string): Promise<{ meta: VaultMeta; key: CryptoKey }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const meta: VaultMeta = {
+    key: 'vault',
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: await sealWith(key, CHECK_PLAINTEXT),
+    rotatedAt: Date.now()
+  };
+  return { meta, key };
+};
+
+/**
+ * Derive the key for an existing vault, throwing InvalidPassphraseError if it does not match.
+ */
+export const verifyPassphrase = async (passphrase: string, meta: VaultMeta): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    if (await unsealWith<string>(key, meta.check) === CHECK_PLAINTEXT) return key;
+  } catch {
+    // AES-GCM authentication fails with the wrong key
+  }
+  throw new InvalidPassphraseError();
+};
+
+export const unlockVault = async (passphrase: string, meta: VaultMeta) => {
+  activeKey = await verifyPassphrase(passphrase, meta);
+};
+
+export const setActiveKey = (key: CryptoKey) => {
+  activeKey = key;
+};
+
+export const lockVault = () => {
+  activeKey = null;
+};
+
+export const isVaultUnlocked = () => activeKey !== null;
+
+export const seal = (value: unknown) => {
+  if (!activeKey) throw new VaultLockedError();
+  return sealWith(activeKey, value);
+};
+
+export const unseal = <T>(payload: SealedPayload) => {
+  if (!activeKey) throw new VaultLockedError();
+  return unsealWith<T>(activeKey, payload);
+};
@@ -0,0 +1,127 @@
+import { WebhookDelivery, WebhookSubscription } from '../types';
+import { KioskEvent } from './events';
+import { Repositories } from './storage';
+import { isRetryableStatus, retryDelay } from './sync';
+
+/**
+ * Outbound webhooks for kiosk events, see docs/webhooks.md. Every event a
+ * subscription wants becomes a persisted delivery, so deliveries survive
+ * reloads and outages and are retried with backoff.
+ */
+
+export const WEBHOOKS_SETTING = 'webhooks';
+export const WEBHOOK_PUMP_INTERVAL_MS = 15 * 1000;
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_BATCH_SIZE = 20;
+// Finished deliveries kept for the log
+const DELIVERY_LOG_SIZE = 200;
+// Keeps finished deliveries out of the due index
+const NEVER = Number.MAX_SAFE_INTEGER;
+
+const toHex = (bytes: ArrayBuffer) => Array.from(new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+export const createWebhookSecret = () => toHex(crypto.getRandomValues(new Uint8Array(32)).buffer);
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, hex encoded. Signing the timestamp
+ * lets receivers reject replays of an old request.
+ */
+export const signPayload = async (secret: string, timestamp: number, body: string): Promise<string> => {
+  const key = await crypto.subtle.importKey(
+    'raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`)));
+};
+
+const wantsEvent = (subscription: WebhookSubscription, event: KioskEvent) =>
+  subscription.enabled && (subscription.events.length === 0 || subscription.events.includes(event.type));
+
+// Records a pending delivery for every subscription that wants the event
+export const queueDeliveries = async (
+  repos: Repositories,
+  subscriptions: WebhookSubscription[],
+  event: KioskEvent,
+  deviceId?: string
+): Promise<number> => {
+  const body = JSON.stringify({ ...event, deviceId });
+  const now = Date.now();
+  const deliveries: WebhookDelivery[] = subscriptions.filter(s => wantsEvent(s, event)).map(subscription => ({
+    id: crypto.randomUUID(),
+    subscriptionId: subscription.id,
+    eventType: event.type,
+    body,
+    createdAt: now,
+    attempts: 0,
+    status: 'pending',
+    nextAttemptAt: now
+  }));
+  if (deliveries.length > 0) await repos.webhookDeliveries.putMany(deliveries);
+  return deliveries.length;
+};
+
+const attempt = async (delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookDelivery> => {
+  const attempts = delivery.attempts + 1;
+  const now = Date.now();
+  const finish = (status: 'delivered' | 'failed', extra: Partial<WebhookDelivery>): WebhookDelivery =>
+    ({ ...delivery, ...extra, attempts, status, nextAttemptAt: NEVER, finishedAt: now });
+  const retryOrFail = (extra: Partial<WebhookDelivery>): WebhookDelivery => attempts >= WEBHOOK_MAX_ATTEMPTS
+    ? finish('failed', extra)
+    : { ...delivery, ...extra, attempts, nextAttemptAt: now + retryDelay(attempts) };
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.eventType,
+        'X-Webhook-Signature': `t=${now},v1=${await signPayload(subscription.secret, now, delivery.body)}`
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    const result = { responseStatus: response.status, lastError: undefined };
+    if (response.ok) return finish('delivered', result);
+    const failure = { ...result, lastError: `HTTP ${response.status}` };
+    return isRetryableStatus(response.status) ? retryOrFail(failure) : finish('failed', failure);
+  } catch (err) {
+    return retryOrFail({ responseStatus: undefined, lastError: err instanceof Error ? err.message : String(err) });
+  }
+};
+
+let pumping: Promise<void> | null = null;
+
+/**
+ * Sends every due delivery once. Concurrent calls share the running pump.
+ */
+export const deliverDue = (repos: Repositories, subscriptions: WebhookSubscription[]): Promise<void> => {
+  if (!pumping) {
+    pumping = (async () => {
+      for (;;) {
+        const due = await repos.webhookDeliveries.due(Date.now(), DELIVERY_BATCH_SIZE);
+        if (due.length === 0) break;
+        for (const delivery of due) {
+          const subscription = subscriptions.find(s => s.id === delivery.subscriptionId);
+          const next = subscription?.enabled
+            ? await attempt(delivery, subscription)
+            : { ...delivery, status: 'failed' as const, nextAttemptAt: NEVER, finishedAt: Date.now(), lastError: 'Subscription removed or disabled' };
+          await repos.webhookDeliveries.put(next);
+        }
+      }
+      await repos.webhookDeliveries.prune(DELIVERY_LOG_SIZE);
+    })().finally(() => { pumping = null; });
+  }
+  return pumping;
+};
+
+// Puts a failed delivery back in the queue with a fresh set of attempts
+export const retryDelivery = async (repos: Repositories, delivery: WebhookDelivery) => {
+  await repos.webhookDeliveries.put({
+    ...delivery,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    finishedAt: undefined
+  });
+};
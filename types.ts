@@ -2,31 +2,251 @@
 export interface UserFaceProfile {
   id: string;
   name: string;
-  descriptor: number[]; // Flat array representing the facial features
-  capturedAt: number;
-  lastClockIn?: string; // Format: YYYY-MM-DD
+  descriptor: number[]; // Flat array representing the facial features (robust mean of templates)
+  descriptors?: number[][]; // Per-sample templates captured at enrollment
+  capturedAt: number; // Latest face capture; re-enrolling moves it
+  enrolledAt?: number; // First enrollment, kept on re-enroll; missing on older profiles, which fall back to capturedAt
+  lastClockIn?: string; // Business date (YYYY-MM-DD, site time) of the last clock-in
+  role?: 'staff' | 'admin'; // Admins can unlock admin mode by face
+  shiftId?: string; // Assigned ShiftSchedule; unscheduled staff are never late or absent
+  staffId?: string; // Employee number, unique within the registry
+  department?: string;
+  jobTitle?: string;
+  active?: boolean; // Inactive staff keep their history but are no longer recognised; missing means active
+  thumbnail?: string; // Small JPEG data URL from enrollment, sealed along with the templates
+  consent?: ConsentRecord; // Missing on profiles enrolled before consent was recorded
+  deactivatedAt?: number; // When the profile last became inactive; starts the template retention clock
+  templatesPurgedAt?: number; // Retention removed the templates and photo (descriptor is empty); re-enroll to reactivate
+  siteIds?: string[]; // Site codes the employee may clock in at; missing or empty means every site
 }
 
+// A branch or entrance; every device at the site is set up with the same code
+export interface Site {
+  id: string; // Short code chosen by an admin, e.g. KL-HQ
+  name: string;
+  timeZone?: string; // Site-level settings, shared by every device at the site and read in place of the device's own
+  matchThreshold?: number;
+}
+
+// The employee's explicit agreement to biometric processing, as required by the PDPA
+export interface ConsentRecord {
+  version: string; // Version of the consent notice that was shown
+  acceptedAt: number;
+  recordedBy: string; // Admin who took the consent
+}
+
+export interface ShiftSchedule {
+  id: string;
+  name: string;
+  start: string; // HH:MM site time
+  end: string; // HH:MM site time; at or before start means the shift ends the next day
+  graceMinutes: number; // Clock-ins up to this late still count as on time
+  absentAfterMinutes: number; // No clock-in this long after start lists the person as absent
+  days: number[]; // Working weekdays, 0 = Sunday
+}
+
+// How an event compares with the person's shift; minutes late or left early
+export type Punctuality =
+  | { status: 'on_time' }
+  | { status: 'late'; minutes: number }
+  | { status: 'early_leave'; minutes: number };
+
+export type AttendanceEventType = 'IN' | 'OUT' | 'BREAK_START' | 'BREAK_END';
+
+// AUTO toggles based on the person's previous event
+export type AttendanceEventMode = AttendanceEventType | 'AUTO';
+
 export interface AttendanceRecord {
   id: string;
+  profileId?: string; // Missing on old records that could not be linked to a single profile
+  name: string; // Name at the time of the event
+  timestamp: number; // Canonical instant, epoch ms
+  businessDate: string; // YYYY-MM-DD business day in site time, see services/timekeeping.ts
+  type?: AttendanceEventType; // Missing on legacy records, treated as IN
+  source?: AttendanceSource; // Missing means face-verified
+  revision?: number; // Incremented by every correction; missing means never corrected
+  author?: string; // Admin behind the latest correction
+  reason?: string; // Why the latest correction was made
+  deletedAt?: number; // Tombstone: kept for the audit trail and sync, hidden everywhere else
+  deviceId?: string; // Kiosk that recorded or created it; missing on records from before devices were attributed
+  siteId?: string; // Site that kiosk was set up for at the time
+}
+
+// Face-verified at the kiosk, or created or changed by an admin
+export type AttendanceSource = 'face' | 'manual';
+
+export type AttendanceAuditAction = 'create' | 'edit' | 'delete';
+
+// One entry per correction, never changed once written
+export interface AttendanceAuditEntry {
+  id: string;
+  recordId: string;
+  action: AttendanceAuditAction;
+  at: number;
+  author: string;
+  reason: string;
+  before?: AttendanceRecord; // Missing for create
+  after: AttendanceRecord; // The tombstone for delete
+}
+
+export interface WorkSession {
+  profileId?: string;
   name: string;
-  date: string;
-  time: string;
+  businessDate: string; // Business day of the clock-in
+  inLogId: string;
+  outLogId?: string;
+  clockIn: number;
+  clockOut?: number;
+  breakMs: number;
+  workedMs: number; // Up to now for sessions still in progress
+  status: 'closed' | 'open' | 'missing_out';
+}
+
+export type LivenessChallenge = 'BLINK' | 'TURN_LEFT' | 'TURN_RIGHT';
+
+// Kept apart from AttendanceRecord so spoof attempts never count as attendance
+export interface LivenessFailure {
+  id: string;
+  profileId?: string; // Missing on alerts from before they were linked to a profile
+  name: string; // Profile the face matched
+  challenge: LivenessChallenge;
+  reason: string;
+  distance: number;
   timestamp: number;
 }
 
+// A face the scanner saw but could not resolve to exactly one profile
+export interface RecognitionAttempt {
+  id: string;
+  timestamp: number;
+  outcome: 'no_match' | 'ambiguous';
+  candidateId?: string; // Closest profile, if there is one
+  candidateName?: string;
+  distance: number | null; // To the closest profile; null for an empty registry
+  nearMiss: boolean; // Ambiguous, or just above the threshold: probably someone enrolled
+  descriptor: number[]; // Sealed in storage
+  snapshot?: string; // JPEG data URL of the face, sealed; missing when snapshots are off
+  status: 'pending' | 'dismissed' | 'attached';
+  attachedProfileId?: string; // Profile that received the descriptor as a template
+  resolvedAt?: number;
+}
+
 export enum AppState {
   LOADING_MODELS = 'LOADING_MODELS',
   READY = 'READY',
   REGISTERING = 'REGISTERING',
   VERIFYING = 'VERIFYING',
+  VAULT_SETUP = 'VAULT_SETUP', // No passphrase chosen yet
+  LOCKED = 'LOCKED', // Vault exists but the passphrase has not been entered
+  ADMIN_LOGIN = 'ADMIN_LOGIN',
+  ADMIN = 'ADMIN', // Registry, enrollment and log management
+  CALIBRATION = 'CALIBRATION', // Threshold tuning from enrolled data
+  REPORTS = 'REPORTS', // Manager attendance reports
+  PROFILE = 'PROFILE', // One employee's details, history and re-enrollment
   ERROR = 'ERROR'
 }
 
+// One entry per face in the frame; group scans produce several at once
 export interface RecognitionResult {
   match: boolean;
   distance: number;
   label?: string;
-  clockInStatus?: 'success' | 'already' | 'none';
+  clockInStatus?: 'success' | 'already' | 'invalid' | 'liveness_failed' | 'ambiguous' | 'none';
+  eventType?: AttendanceEventType;
+  message?: string;
   time?: string;
+  punctuality?: Punctuality;
+  box?: FaceBox; // Where the face sits in the video frame
+}
+
+export interface TimekeepingSettings {
+  timeZone: string; // IANA zone of the site, e.g. Asia/Kuala_Lumpur
+  dayStartsAt: string; // HH:MM site time; earlier events count towards the previous business day
+}
+
+export interface RecognitionSettings {
+  matchThreshold: number; // Maximum descriptor distance accepted as the same person
+  minMargin: number; // Required gap between the best and second-best profile
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FaceSample {
+  descriptor: Float32Array;
+  score: number; // Detector confidence, 0..1
+  box: FaceBox;
+  landmarks: Point[]; // 68-point layout
+  frameWidth: number;
+}
+
+export interface EnrollmentProgress {
+  step: number;
+  total: number;
+  instruction: string;
+  feedback?: string;
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  endpoint: string; // Base URL of the central API, e.g. https://attendance.example.com/api
+  token: string; // Sent as a bearer token; empty for none
+  deviceId: string; // Identifies this kiosk to the server, generated once
+}
+
+// A change waiting to be pushed; profiles are referenced rather than copied so templates stay sealed
+export type SyncOperation =
+  | { kind: 'attendance'; recordId: string }
+  | { kind: 'profile_upsert'; profileId: string }
+  | { kind: 'profile_delete'; profileId: string }
+  | { kind: 'site_upsert'; siteId: string };
+
+export interface OutboxEntry {
+  id: string; // One entry per entity, so repeated profile edits coalesce
+  operation: SyncOperation;
+  enqueuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  rejected?: boolean; // Refused by the server; kept for review and never retried automatically
+}
+
+export interface SyncStatus {
+  pending: number;
+  rejected: number;
+  lastSyncAt?: number; // Last pass that reached the server
+  lastError?: string;
+  syncing: boolean;
+}
+
+export interface WebhookSubscription {
+  id: string;
+  name: string;
+  url: string;
+  secret: string; // HMAC-SHA256 key for the X-Webhook-Signature header
+  events: string[]; // Event types to deliver; empty for all
+  enabled: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string; // Also sent as X-Webhook-Id so receivers can drop repeats
+  subscriptionId: string;
+  eventType: string;
+  body: string; // Exact JSON sent, so every retry carries the same payload
+  createdAt: number;
+  attempts: number;
+  status: 'pending' | 'delivered' | 'failed';
+  nextAttemptAt: number;
+  responseStatus?: number;
+  lastError?: string;
+  finishedAt?: number;
 }
@@ -1,6 +1,31 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
+
+const MODEL_DIR = path.resolve(__dirname, 'node_modules/@vladmandic/face-api/model');
+// Only the nets loaded in services/faceApi.ts
+const MODEL_NAMES = ['ssd_mobilenetv1_model', 'face_landmark_68_model', 'face_recognition_model'];
+const MODEL_FILES = MODEL_NAMES.flatMap(name => [`${name}-weights_manifest.json`, `${name}.bin`]);
+
+// Serves the face-api weights from node_modules in dev and emits them under /models/ in the build
+const faceApiModels = (): Plugin => ({
+  name: 'face-api-models',
+  configureServer(server) {
+    server.middlewares.use('/models', (req, res, next) => {
+      const file = path.basename(req.url ?? '');
+      if (!MODEL_FILES.includes(file)) return next();
+      res.setHeader('Content-Type', file.endsWith('.json') ? 'application/json' : 'application/octet-stream');
+      fs.createReadStream(path.join(MODEL_DIR, file)).pipe(res);
+    });
+  },
+  generateBundle() {
+    for (const file of MODEL_FILES) {
+      this.emitFile({ type: 'asset', fileName: `models/${file}`, source: fs.readFileSync(path.join(MODEL_DIR, file)) });
+    }
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +34,34 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      build: {
+        // face-api bundles TensorFlow.js, which is large but precached once
+        chunkSizeWarningLimit: 2000,
+      },
+      worker: {
+        // The inference worker is loaded as a module (see services/faceApi.ts)
+        format: 'es',
+      },
+      plugins: [
+        react(),
+        faceApiModels(),
+        VitePWA({
+          registerType: 'autoUpdate',
+          injectRegister: false,
+          manifest: {
+            name: 'Mysyarikat Recognition Attendance',
+            short_name: 'Attendance',
+            display: 'standalone',
+            background_color: '#030712',
+            theme_color: '#030712'
+          },
+          workbox: {
+            globPatterns: ['**/*.{js,css,html,json,bin}'],
+            // The detector weights alone are several MB
+            maximumFileSizeToCacheInBytes: 16 * 1024 * 1024
+          }
+        })
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)